@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
 
 // Check if MongoDB is connected
 export const isMongoDBConnected = (): boolean => {
@@ -17,27 +18,27 @@ export const connectDB = async (): Promise<void> => {
       bufferCommands: false, // Disable buffering to fail fast
     });
 
-    console.log(`📦 MongoDB Connected: ${conn.connection.host}`);
+    logger.info('MongoDB connected', { host: conn.connection.host });
     
     // Handle connection events
     mongoose.connection.on('error', (err) => {
-      console.error('❌ MongoDB connection error:', err);
+      logger.error('MongoDB connection error', { error: err });
     });
 
     mongoose.connection.on('disconnected', () => {
-      console.log('⚠️ MongoDB disconnected');
+      logger.warn('MongoDB disconnected');
     });
 
     // Graceful shutdown
     process.on('SIGINT', async () => {
       await mongoose.connection.close();
-      console.log('🔐 MongoDB connection closed through app termination');
+      logger.info('MongoDB connection closed through app termination');
       process.exit(0);
     });
 
   } catch (error) {
-    console.error('❌ Database connection failed:', error);
+    logger.error('Database connection failed', { error });
     // Don't exit - allow app to run without MongoDB
-    console.log('⚠️ Running without MongoDB - crawler features will be limited');
+    logger.warn('Running without MongoDB - crawler features will be limited');
   }
 }; 
\ No newline at end of file
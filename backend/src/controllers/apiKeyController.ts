@@ -0,0 +1,283 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { ApiKeyService } from '../services/apiKeyService';
+import { IApiKey, API_KEY_SCOPES } from '../models/apiKeyModels';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
+
+const rateLimitsSchema = Joi.object({
+  general: Joi.number().integer().min(1).max(100000),
+  scrape: Joi.number().integer().min(1).max(100000),
+  batch: Joi.number().integer().min(1).max(100000),
+  crawler: Joi.number().integer().min(1).max(100000)
+});
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+
+  constructor() {
+    this.apiKeyService = ApiKeyService.getInstance();
+  }
+
+  /**
+   * List API keys
+   */
+  getAllKeys = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const { owner, includeRevoked } = req.query;
+      const keys = await this.apiKeyService.getKeys({
+        owner: typeof owner === 'string' ? owner : undefined,
+        includeRevoked: includeRevoked === 'true'
+      });
+
+      res.json({
+        success: true,
+        data: keys.map(key => this.formatKey(key))
+      });
+
+    } catch (error) {
+      logger.error('Error getting API keys', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get API keys',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Get an API key
+   */
+  getKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const key = await this.apiKeyService.getKey(req.params.keyId);
+      if (!key) {
+        res.status(404).json({
+          success: false,
+          message: 'API key not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: this.formatKey(key)
+      });
+
+    } catch (error) {
+      logger.error('Error getting API key', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get API key',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Issue a new API key
+   */
+  createKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const schema = Joi.object({
+        owner: Joi.string().min(1).max(200).required(),
+        label: Joi.string().max(200).optional(),
+        scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1)
+          .default(['scrape', 'batch', 'crawler', 'export']),
+        tier: Joi.string().valid('authenticated', 'premium').default('authenticated'),
+        rateLimits: rateLimitsSchema.optional(),
+        monthlyPageQuota: Joi.number().integer().min(1).optional(),
+        expiresAt: Joi.date().greater('now').optional()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const { key, apiKey } = await this.apiKeyService.createKey(value);
+
+      res.status(201).json({
+        success: true,
+        message: 'API key created successfully. Store the key, it is not shown again.',
+        data: {
+          ...this.formatKey(key),
+          apiKey
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error creating API key', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create API key',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Update scopes, limits, quota or expiry of an API key
+   */
+  updateKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const schema = Joi.object({
+        owner: Joi.string().min(1).max(200).optional(),
+        label: Joi.string().max(200).allow('').optional(),
+        scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).optional(),
+        tier: Joi.string().valid('authenticated', 'premium').optional(),
+        rateLimits: rateLimitsSchema.optional(),
+        monthlyPageQuota: Joi.number().integer().min(1).allow(null).optional(),
+        expiresAt: Joi.date().allow(null).optional()
+      }).min(1);
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const key = await this.apiKeyService.updateKey(req.params.keyId, value);
+      if (!key) {
+        res.status(404).json({
+          success: false,
+          message: 'API key not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'API key updated successfully',
+        data: this.formatKey(key)
+      });
+
+    } catch (error) {
+      logger.error('Error updating API key', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update API key',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Replace the secret of an API key
+   */
+  rotateKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const rotated = await this.apiKeyService.rotateKey(req.params.keyId);
+      if (!rotated) {
+        res.status(404).json({
+          success: false,
+          message: 'API key not found or revoked'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'API key rotated successfully. The previous key no longer works.',
+        data: {
+          ...this.formatKey(rotated.key),
+          apiKey: rotated.apiKey
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error rotating API key', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to rotate API key',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Revoke an API key
+   */
+  revokeKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const key = await this.apiKeyService.revokeKey(req.params.keyId);
+      if (!key) {
+        res.status(404).json({
+          success: false,
+          message: 'API key not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'API key revoked successfully',
+        data: this.formatKey(key)
+      });
+
+    } catch (error) {
+      logger.error('Error revoking API key', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to revoke API key',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  private ensureMongoDB(res: Response): boolean {
+    if (isMongoDBConnected()) return true;
+
+    res.status(503).json({
+      success: false,
+      message: 'API key management requires MongoDB. Please configure MONGODB_URI in your environment variables.',
+      error: 'MongoDB connection not available'
+    });
+    return false;
+  }
+
+  /**
+   * Shape an API key for responses (never includes the hash)
+   */
+  private formatKey(key: IApiKey) {
+    return {
+      keyId: key.keyId,
+      keyPrefix: key.keyPrefix,
+      owner: key.owner,
+      label: key.label,
+      scopes: key.scopes,
+      tier: key.tier,
+      rateLimits: key.rateLimits,
+      monthlyPageQuota: key.monthlyPageQuota,
+      usage: key.usage,
+      expiresAt: key.expiresAt,
+      revoked: key.revoked,
+      revokedAt: key.revokedAt,
+      rotatedAt: key.rotatedAt,
+      lastUsedAt: key.lastUsedAt,
+      createdAt: key.createdAt,
+      updatedAt: key.updatedAt
+    };
+  }
+}
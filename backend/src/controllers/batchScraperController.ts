@@ -1,11 +1,15 @@
 import { Request, Response } from 'express';
 import Joi from 'joi';
 import { IntelligentScraper } from '../utils/intelligentScraper';
-import { ContentExtractorService } from '../services/contentExtractor';
-import { validateUrls } from '../utils/urlValidator';
+import { validateUrl, validateUrls } from '../utils/urlValidator';
 import { logSecurityEvent } from '../middleware/requestLogger';
 import { withBrowserSlot, getConcurrencyStats } from '../utils/concurrencyLimiter';
-import axios from 'axios';
+import { ScrapeJobService, JobProgress } from '../services/jobQueue';
+import { WebhookService, WebhookTarget } from '../services/webhookService';
+import { UsageService, UsageTarget } from '../services/usageService';
+import { requestWebhookSchema } from './webhookController';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
 import TurndownService from 'turndown';
 import path from 'path';
 import fs from 'fs/promises';
@@ -35,6 +39,8 @@ const batchScrapeSchema = Joi.object({
         : 'Maximum 100 URLs allowed per batch request',
       'any.required': 'URLs array is required'
     }),
+  async: Joi.boolean().optional().default(false), // Return a jobId right away and poll /api/jobs/:jobId
+  webhook: requestWebhookSchema.optional(), // Receives batch.completed (and job events when async)
   options: Joi.object({
     userAgent: Joi.string().optional(),
     timeout: Joi.number().min(1000).max(120000).optional(),
@@ -55,7 +61,7 @@ const batchScrapeSchema = Joi.object({
 });
 
 // Helper function to scrape a single URL
-async function scrapeUrl(url: string, options: any, scrapers: IntelligentScraper[]): Promise<any> {
+async function scrapeUrl(url: string, options: any, scrapers: IntelligentScraper[], usage: UsageTarget): Promise<any> {
   const intelligentScraper = new IntelligentScraper();
   scrapers.push(intelligentScraper);
 
@@ -63,30 +69,12 @@ async function scrapeUrl(url: string, options: any, scrapers: IntelligentScraper
     // Use concurrency limiter to control browser instances
     const scrapedData = await withBrowserSlot(async () => {
       return await intelligentScraper.scrape(url, options);
-    });
+    }, usage);
 
-    let markdownContent: string | undefined;
-    try {
-      const htmlResponse = await axios.get(url, {
-        headers: {
-          'User-Agent': options.userAgent || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
-        },
-        timeout: 15000
-      });
-
-      const contentExtractor = new ContentExtractorService();
-      const extractedContent = await contentExtractor.extractContent(
-        htmlResponse.data,
-        url,
-        new URL(url).hostname
-      );
-      markdownContent = extractedContent.markdownContent;
-    } catch (markdownError) {
-      console.error(`Failed to extract markdown for ${url}:`, markdownError);
-      if (scrapedData.content) {
-        markdownContent = turndownService.turndown(scrapedData.content);
-      }
+    // Markdown comes from the HTML the scraper captured, fall back to converting the text
+    let markdownContent = scrapedData.markdownContent;
+    if (!markdownContent && scrapedData.content) {
+      markdownContent = turndownService.turndown(scrapedData.content);
     }
 
     return {
@@ -103,7 +91,7 @@ async function scrapeUrl(url: string, options: any, scrapers: IntelligentScraper
       }
     };
   } catch (error: any) {
-    console.error(`Failed to scrape ${url}:`, error);
+    logger.warn('Batch URL failed', { url, error });
     return {
       url,
       success: false,
@@ -117,7 +105,9 @@ async function processWithConcurrency(
   urls: string[],
   options: any,
   scrapers: IntelligentScraper[],
-  limit: number
+  limit: number,
+  usage: UsageTarget,
+  progress?: JobProgress
 ): Promise<any[]> {
   const allResults: any[] = [];
 
@@ -125,7 +115,7 @@ async function processWithConcurrency(
     const batch = urls.slice(i, i + limit);
     const batchNum = Math.floor(i / limit) + 1;
     const totalBatches = Math.ceil(urls.length / limit);
-    console.log(`Processing batch ${batchNum}/${totalBatches}: ${batch.length} URLs`);
+    logger.debug('Processing batch', { batch: batchNum, totalBatches, urls: batch.length });
 
     // Add small delay between batches to let resources free up
     if (i > 0) {
@@ -133,7 +123,12 @@ async function processWithConcurrency(
     }
 
     const batchResults = await Promise.allSettled(
-      batch.map(url => scrapeUrl(url, options, scrapers))
+      batch.map(async (url, index) => {
+        await progress?.urlStarted(i + index);
+        const result = await scrapeUrl(url, options, scrapers, usage);
+        await progress?.urlFinished(i + index, result.success ? undefined : result.error);
+        return result;
+      })
     );
 
     batchResults.forEach((result, index) => {
@@ -152,6 +147,137 @@ async function processWithConcurrency(
   return allResults;
 }
 
+/**
+ * Scrape the validated URLs and build the batch result (markdown file or JSON)
+ * Shared by the synchronous endpoint and async jobs
+ */
+async function runBatchScrape(
+  totalUrlsRequested: number,
+  validUrls: string[],
+  blockedUrls: Array<{ url: string; reason: string }>,
+  options: any,
+  usage: UsageTarget,
+  progress?: JobProgress
+): Promise<any> {
+  const scrapers: IntelligentScraper[] = [];
+
+  try {
+    // Process URLs with concurrency limit
+    const results = await processWithConcurrency(validUrls, options, scrapers, CONCURRENCY_LIMIT, usage, progress);
+
+    // Separate successful and failed results
+    const successfulResults = results.filter((r: any) => r.success);
+    const failedResults = results.filter((r: any) => !r.success);
+
+    // Generate output based on format
+    if (options.outputFormat === 'markdown') {
+      // Create a combined markdown file
+      let combinedMarkdown = '# Batch Scraping Results\n\n';
+      combinedMarkdown += `**Generated:** ${new Date().toISOString()}\n\n`;
+      combinedMarkdown += `**Total URLs Requested:** ${totalUrlsRequested}\n`;
+      combinedMarkdown += `**URLs Processed:** ${validUrls.length}\n`;
+      combinedMarkdown += `**Successful:** ${successfulResults.length}\n`;
+      combinedMarkdown += `**Failed:** ${failedResults.length}\n`;
+      combinedMarkdown += `**Blocked (Security):** ${blockedUrls.length}\n\n`;
+      combinedMarkdown += '---\n\n';
+
+      successfulResults.forEach((result: any, index: number) => {
+        combinedMarkdown += `## ${index + 1}. ${result.data.title || 'Untitled'}\n\n`;
+        combinedMarkdown += `**URL:** ${result.url}\n\n`;
+        combinedMarkdown += `**Quality Score:** ${result.data.qualityScore}%\n\n`;
+        combinedMarkdown += `**Method:** ${result.data.method}\n\n`;
+        combinedMarkdown += `**Word Count:** ${result.data.wordCount}\n\n`;
+        if (result.data.description) {
+          combinedMarkdown += `**Description:** ${result.data.description}\n\n`;
+        }
+        combinedMarkdown += '### Content\n\n';
+        combinedMarkdown += result.data.markdown || '';
+        combinedMarkdown += '\n\n---\n\n';
+      });
+
+      if (failedResults.length > 0) {
+        combinedMarkdown += '## Failed URLs\n\n';
+        failedResults.forEach((result: any) => {
+          combinedMarkdown += `- **${result.url}**: ${result.error}\n`;
+        });
+      }
+
+      // Save to file and return download link
+      const fileName = `batch-scrape-${Date.now()}.md`;
+      const exportsDir = path.join(process.cwd(), 'exports');
+      const filePath = path.join(exportsDir, fileName);
+
+      await fs.mkdir(exportsDir, { recursive: true });
+      await fs.writeFile(filePath, combinedMarkdown, 'utf-8');
+
+      return {
+        totalUrlsRequested,
+        urlsProcessed: validUrls.length,
+        successful: successfulResults.length,
+        failed: failedResults.length,
+        blocked: blockedUrls.length,
+        blockedUrls,
+        outputFormat: 'markdown',
+        downloadUrl: `/api/downloads/${fileName}`,
+        fileName: fileName,
+        results: successfulResults.map((r: any) => ({
+          url: r.url,
+          title: r.data.title,
+          qualityScore: r.data.qualityScore,
+          wordCount: r.data.wordCount
+        })),
+        errors: failedResults
+      };
+    } else {
+      // Return JSON format
+      return {
+        totalUrls: totalUrlsRequested,
+        successful: successfulResults.length,
+        failed: failedResults.length,
+        outputFormat: 'json',
+        results: successfulResults,
+        errors: failedResults
+      };
+    }
+  } finally {
+    // Cleanup all scrapers
+    await Promise.all(scrapers.map(scraper => scraper.cleanup()));
+  }
+}
+
+/**
+ * Send the batch.completed webhook event (a summary, results are fetched from the response or job)
+ */
+async function notifyBatchCompleted(result: any, target: WebhookTarget, jobId?: string): Promise<void> {
+  await WebhookService.getInstance().dispatch('batch.completed', {
+    ...(jobId && { jobId }),
+    successful: result.successful,
+    failed: result.failed,
+    outputFormat: result.outputFormat,
+    ...(result.downloadUrl && { downloadUrl: result.downloadUrl }),
+    errors: result.errors
+  }, target);
+}
+
+// Async /batch-scrape jobs run the same pipeline as the synchronous endpoint
+ScrapeJobService.getInstance().registerHandler('batch-scrape', async (job, progress) => {
+  // Billed to the endpoint that queued the job
+  const usage: UsageTarget = { apiKeyHash: job.apiKeyHash, endpoint: '/api/scraper/batch-scrape', method: 'POST' };
+  const result = await runBatchScrape(
+    job.urls.length + job.blockedUrls.length,
+    job.urls,
+    job.blockedUrls,
+    job.options,
+    usage,
+    progress
+  );
+  logger.info('Batch scraping job completed', { jobId: job.jobId, successful: result.successful, total: job.urls.length });
+  UsageService.getInstance().record({ ...usage, batchUrls: result.successful });
+
+  await notifyBatchCompleted(result, ScrapeJobService.getInstance().getWebhookTarget(job), job.jobId);
+  return result;
+});
+
 /**
  * Batch scrape multiple URLs and return markdown files
  */
@@ -159,8 +285,6 @@ export const batchScrapeController = async (
   req: Request,
   res: Response
 ): Promise<void> => {
-  const scrapers: IntelligentScraper[] = [];
-
   try {
     // Validate input
     const { error, value } = batchScrapeSchema.validate(req.body);
@@ -173,7 +297,7 @@ export const batchScrapeController = async (
       return;
     }
 
-    const { urls, options = {} } = value;
+    const { urls, async: runAsync, webhook, options = {} } = value;
 
     // SECURITY: Validate all URLs to prevent SSRF attacks
     const urlValidation = await validateUrls(urls);
@@ -200,118 +324,96 @@ export const batchScrapeController = async (
     }
 
     const validUrls = urlValidation.valid;
-    console.log(`🚀 Starting batch scraping for ${validUrls.length} URLs (${urlValidation.invalid.length} blocked)`);
-
-    // Create timeout wrapper
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        reject(new Error('Batch operation timed out'));
-      }, BATCH_TIMEOUT);
-    });
-
-    // Process URLs with concurrency limit
-    const results = await Promise.race([
-      processWithConcurrency(validUrls, options, scrapers, CONCURRENCY_LIMIT),
-      timeoutPromise
-    ]);
-
-    // Separate successful and failed results
-    const successfulResults = results.filter((r: any) => r.success);
-    const failedResults = results.filter((r: any) => !r.success);
 
-    // Generate response based on output format
-    if (options.outputFormat === 'markdown') {
-      // Create a combined markdown file
-      let combinedMarkdown = '# Batch Scraping Results\n\n';
-      combinedMarkdown += `**Generated:** ${new Date().toISOString()}\n\n`;
-      combinedMarkdown += `**Total URLs Requested:** ${urls.length}\n`;
-      combinedMarkdown += `**URLs Processed:** ${validUrls.length}\n`;
-      combinedMarkdown += `**Successful:** ${successfulResults.length}\n`;
-      combinedMarkdown += `**Failed:** ${failedResults.length}\n`;
-      combinedMarkdown += `**Blocked (Security):** ${urlValidation.invalid.length}\n\n`;
-      combinedMarkdown += '---\n\n';
-
-      successfulResults.forEach((result: any, index: number) => {
-        combinedMarkdown += `## ${index + 1}. ${result.data.title || 'Untitled'}\n\n`;
-        combinedMarkdown += `**URL:** ${result.url}\n\n`;
-        combinedMarkdown += `**Quality Score:** ${result.data.qualityScore}%\n\n`;
-        combinedMarkdown += `**Method:** ${result.data.method}\n\n`;
-        combinedMarkdown += `**Word Count:** ${result.data.wordCount}\n\n`;
-        if (result.data.description) {
-          combinedMarkdown += `**Description:** ${result.data.description}\n\n`;
-        }
-        combinedMarkdown += '### Content\n\n';
-        combinedMarkdown += result.data.markdown || '';
-        combinedMarkdown += '\n\n---\n\n';
-      });
-
-      if (failedResults.length > 0) {
-        combinedMarkdown += '## Failed URLs\n\n';
-        failedResults.forEach((result: any) => {
-          combinedMarkdown += `- **${result.url}**: ${result.error}\n`;
+    // SECURITY: Webhook targets get the same SSRF checks
+    if (webhook) {
+      const webhookValidation = await validateUrl(webhook.url);
+      if (!webhookValidation.valid) {
+        logSecurityEvent({
+          type: 'invalid_url',
+          ip: req.ip || 'unknown',
+          details: `Blocked webhook URL: ${webhook.url} - ${webhookValidation.reason}`,
+          path: req.path
+        });
+        res.status(400).json({
+          success: false,
+          error: 'URL Not Allowed',
+          message: `Webhook URL not allowed: ${webhookValidation.reason}`
         });
+        return;
       }
+    }
+    const notify: WebhookTarget = { apiKeyHash: (req as any).apiKeyHash, webhook };
 
-      // Save to file and return download link
-      const fileName = `batch-scrape-${Date.now()}.md`;
-      const exportsDir = path.join(process.cwd(), 'exports');
-      const filePath = path.join(exportsDir, fileName);
+    // Queue the batch and let the client poll /api/jobs/:jobId
+    if (runAsync) {
+      if (!isMongoDBConnected()) {
+        res.status(503).json({
+          success: false,
+          message: 'Async jobs require MongoDB. Please configure MONGODB_URI in your environment variables.',
+          error: 'MongoDB connection not available'
+        });
+        return;
+      }
 
-      await fs.mkdir(exportsDir, { recursive: true });
-      await fs.writeFile(filePath, combinedMarkdown, 'utf-8');
+      const job = await ScrapeJobService.getInstance().createJob({
+        type: 'batch-scrape',
+        urls: validUrls,
+        options,
+        blockedUrls: urlValidation.invalid,
+        notify
+      });
 
-      res.status(200).json({
+      res.status(202).json({
         success: true,
-        message: 'Batch scraping completed',
+        message: 'Batch scraping job queued',
         data: {
-          totalUrlsRequested: urls.length,
-          urlsProcessed: validUrls.length,
-          successful: successfulResults.length,
-          failed: failedResults.length,
+          jobId: job.jobId,
+          status: job.status,
+          statusUrl: `/api/jobs/${job.jobId}`,
+          urlsQueued: validUrls.length,
           blocked: urlValidation.invalid.length,
-          blockedUrls: urlValidation.invalid,
-          outputFormat: 'markdown',
-          downloadUrl: `/api/downloads/${fileName}`,
-          fileName: fileName,
-          results: successfulResults.map((r: any) => ({
-            url: r.url,
-            title: r.data.title,
-            qualityScore: r.data.qualityScore,
-            wordCount: r.data.wordCount
-          })),
-          errors: failedResults
-        },
-        timestamp: new Date().toISOString()
-      });
-    } else {
-      // Return JSON format
-      res.status(200).json({
-        success: true,
-        message: 'Batch scraping completed',
-        data: {
-          totalUrls: urls.length,
-          successful: successfulResults.length,
-          failed: failedResults.length,
-          outputFormat: 'json',
-          results: successfulResults,
-          errors: failedResults
+          blockedUrls: urlValidation.invalid
         },
         timestamp: new Date().toISOString()
       });
+      return;
     }
 
-    console.log(`✅ Batch scraping completed: ${successfulResults.length}/${urls.length} successful`);
+    logger.info('Starting batch scraping', { urls: validUrls.length, blocked: urlValidation.invalid.length });
+
+    // Create timeout wrapper
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      setTimeout(() => {
+        reject(new Error('Batch operation timed out'));
+      }, BATCH_TIMEOUT);
+    });
+
+    const usage = UsageService.targetFor(req);
+    const data = await Promise.race([
+      runBatchScrape(urls.length, validUrls, urlValidation.invalid, options, usage),
+      timeoutPromise
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: 'Batch scraping completed',
+      data,
+      timestamp: new Date().toISOString()
+    });
+
+    logger.info('Batch scraping completed', { successful: data.successful, total: urls.length });
+    UsageService.getInstance().record({ ...usage, batchUrls: data.successful });
+
+    await notifyBatchCompleted(data, notify);
 
   } catch (error: any) {
-    console.error('❌ Batch scraping failed:', error);
+    logger.error('Batch scraping failed', { error });
     res.status(500).json({
       success: false,
       error: 'Batch Scraping Failed',
       message: error.message,
       timestamp: new Date().toISOString()
     });
-  } finally {
-    // Cleanup all scrapers
-    await Promise.all(scrapers.map(scraper => scraper.cleanup()));
   }
 };
@@ -1,18 +1,85 @@
 import { Request, Response } from 'express';
 import Joi from 'joi';
 import { DomainCrawlerService } from '../services/domainCrawler';
-import { RawContent } from '../models/crawlerModels';
+import { CrawlSchedulerService } from '../services/crawlScheduler';
+import { CrawlAnalyticsService } from '../services/crawlAnalytics';
+import { RawContent, ICrawlSchedule } from '../models/crawlerModels';
 import { ExportService } from '../services/exportService';
+import { StructuredExtractor, StructuredRecord, toStructuredRecords } from '../services/structuredExtractor';
+import { UsageService } from '../services/usageService';
 import { ExportOptions } from '../services/exporters/baseExporter';
 import { isMongoDBConnected } from '../config/database';
+import { recordExport } from '../utils/metrics';
+import { logger } from '../utils/logger';
+import { validateUrl } from '../utils/urlValidator';
+import { requestWebhookSchema } from './webhookController';
+import { infiniteScrollSchema } from './scraperController';
+
+/**
+ * Joi schema for a full crawl configuration
+ */
+const crawlConfigSchema = () => {
+  const isProduction = process.env.NODE_ENV === 'production';
+  return Joi.object({
+    maxPages: Joi.number().integer().min(1).max(isProduction ? 200 : 10000).default(100),
+    maxDepth: Joi.number().integer().min(1).max(10).default(5),
+    respectRobots: Joi.boolean().default(true),
+    delay: Joi.number().integer().min(0).max(10000).default(1000),
+    concurrent: Joi.number().integer().min(1).max(10).default(3),
+    includePatterns: Joi.array().items(Joi.string()).default([]),
+    excludePatterns: Joi.array().items(Joi.string()).default([]),
+    userAgent: Joi.string().optional(),
+    timeout: Joi.number().integer().min(5000).max(120000).default(30000),
+    seedFromSitemaps: Joi.boolean().default(false),
+    followPagination: Joi.boolean().default(true),
+    infiniteScroll: infiniteScrollSchema.optional(),
+    authentication: Joi.object({
+      type: Joi.string().valid('none', 'basic', 'form', 'bearer', 'cookie').default('none'),
+      credentials: Joi.object({
+        username: Joi.string().optional(),
+        password: Joi.string().optional(),
+        token: Joi.string().optional(),
+        cookies: Joi.object().optional(),
+        loginUrl: Joi.string().uri().optional(),
+        usernameField: Joi.string().default('username'),
+        passwordField: Joi.string().default('password'),
+        submitSelector: Joi.string().default('input[type="submit"], button[type="submit"]'),
+        successIndicator: Joi.string().optional()
+      }).optional()
+    }).optional(),
+    extraction: Joi.object({
+      enableStructuredData: Joi.boolean().default(true),
+      customSelectors: Joi.object().optional(),
+      dataTypes: Joi.array().items(Joi.string()).optional(),
+      qualityThreshold: Joi.number().min(0).max(1).default(0.7),
+      schema: Joi.string().max(100).optional()
+    }).optional(),
+    // Scraping mode options (same as quick scraper)
+    forceMethod: Joi.string().valid('static', 'dynamic', 'stealth', 'adaptive', 'api').optional(),
+    enableApiScraping: Joi.boolean().optional().default(true),
+    enableDynamicScraping: Joi.boolean().optional().default(true),
+    enableStealthScraping: Joi.boolean().optional().default(true),
+    enableAdaptiveScraping: Joi.boolean().optional().default(true),
+    captchaSolver: Joi.string().valid('manual', '2captcha', 'anticaptcha', 'skip').optional().default('skip'),
+    captchaApiKey: Joi.string().optional().allow(''),
+    stealthLevel: Joi.string().valid('basic', 'advanced', 'maximum').optional().default('advanced'),
+    learningMode: Joi.boolean().optional().default(true)
+  });
+};
 
 export class CrawlerController {
   private crawlerService: DomainCrawlerService;
   private exportService: ExportService;
+  private schedulerService: CrawlSchedulerService;
+  private analyticsService: CrawlAnalyticsService;
+  private structuredExtractor: StructuredExtractor;
 
   constructor() {
-    this.crawlerService = new DomainCrawlerService();
+    this.crawlerService = DomainCrawlerService.getInstance();
     this.exportService = new ExportService();
+    this.schedulerService = CrawlSchedulerService.getInstance();
+    this.analyticsService = CrawlAnalyticsService.getInstance();
+    this.structuredExtractor = new StructuredExtractor();
   }
 
   /**
@@ -31,50 +98,10 @@ export class CrawlerController {
       }
 
       // Validate request
-      const isProduction = process.env.NODE_ENV === 'production';
       const schema = Joi.object({
         url: Joi.string().uri().required(),
-        config: Joi.object({
-          maxPages: Joi.number().integer().min(1).max(isProduction ? 200 : 10000).default(100),
-          maxDepth: Joi.number().integer().min(1).max(10).default(5),
-          respectRobots: Joi.boolean().default(true),
-          delay: Joi.number().integer().min(0).max(10000).default(1000),
-          concurrent: Joi.number().integer().min(1).max(10).default(3),
-          includePatterns: Joi.array().items(Joi.string()).default([]),
-          excludePatterns: Joi.array().items(Joi.string()).default([]),
-          userAgent: Joi.string().optional(),
-          timeout: Joi.number().integer().min(5000).max(120000).default(30000),
-          authentication: Joi.object({
-            type: Joi.string().valid('none', 'basic', 'form', 'bearer', 'cookie').default('none'),
-            credentials: Joi.object({
-              username: Joi.string().optional(),
-              password: Joi.string().optional(),
-              token: Joi.string().optional(),
-              cookies: Joi.object().optional(),
-              loginUrl: Joi.string().uri().optional(),
-              usernameField: Joi.string().default('username'),
-              passwordField: Joi.string().default('password'),
-              submitSelector: Joi.string().default('input[type="submit"], button[type="submit"]'),
-              successIndicator: Joi.string().optional()
-            }).optional()
-          }).optional(),
-          extraction: Joi.object({
-            enableStructuredData: Joi.boolean().default(true),
-            customSelectors: Joi.object().optional(),
-            dataTypes: Joi.array().items(Joi.string()).optional(),
-            qualityThreshold: Joi.number().min(0).max(1).default(0.7)
-          }).optional(),
-          // Scraping mode options (same as quick scraper)
-          forceMethod: Joi.string().valid('static', 'dynamic', 'stealth', 'adaptive', 'api').optional(),
-          enableApiScraping: Joi.boolean().optional().default(true),
-          enableDynamicScraping: Joi.boolean().optional().default(true),
-          enableStealthScraping: Joi.boolean().optional().default(true),
-          enableAdaptiveScraping: Joi.boolean().optional().default(true),
-          captchaSolver: Joi.string().valid('manual', '2captcha', 'anticaptcha', 'skip').optional().default('skip'),
-          captchaApiKey: Joi.string().optional().allow(''),
-          stealthLevel: Joi.string().valid('basic', 'advanced', 'maximum').optional().default('advanced'),
-          learningMode: Joi.boolean().optional().default(true)
-        }).default({})
+        config: crawlConfigSchema().default({}),
+        webhook: requestWebhookSchema.optional()
       });
 
       const { error, value } = schema.validate(req.body);
@@ -87,10 +114,16 @@ export class CrawlerController {
         return;
       }
 
-      const { url, config } = value;
+      const { url, config, webhook } = value;
+
+      if (webhook && !(await this.validateWebhookUrl(res, webhook.url))) return;
+      if (!(await this.resolveExtractionSchema(res, config, (req as any).apiKeyHash))) return;
 
       // Start crawl
-      const sessionId = await this.crawlerService.startDomainCrawl(url, config);
+      const sessionId = await this.crawlerService.startDomainCrawl(url, config, undefined, {
+        apiKeyHash: (req as any).apiKeyHash,
+        webhook
+      });
 
       res.status(201).json({
         success: true,
@@ -104,7 +137,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error starting domain crawl:', error);
+      logger.error('Error starting domain crawl', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to start domain crawl',
@@ -113,6 +146,90 @@ export class CrawlerController {
     }
   };
 
+  /**
+   * Start an incremental re-crawl of a previous session
+   */
+  recrawlSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isMongoDBConnected()) {
+        res.status(503).json({
+          success: false,
+          message: 'Domain crawler requires MongoDB. Please configure MONGODB_URI in your environment variables.',
+          error: 'MongoDB connection not available'
+        });
+        return;
+      }
+
+      const { sessionId } = req.params;
+
+      // Only limits can be overridden, the rest of the config comes from the parent session
+      const isProduction = process.env.NODE_ENV === 'production';
+      const schema = Joi.object({
+        config: Joi.object({
+          maxPages: Joi.number().integer().min(1).max(isProduction ? 200 : 10000).optional(),
+          maxDepth: Joi.number().integer().min(1).max(10).optional(),
+          delay: Joi.number().integer().min(0).max(10000).optional(),
+          concurrent: Joi.number().integer().min(1).max(10).optional(),
+          timeout: Joi.number().integer().min(5000).max(120000).optional()
+        }).default({}),
+        webhook: requestWebhookSchema.optional()
+      });
+
+      const { error, value } = schema.validate(req.body || {});
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const parent = await this.crawlerService.getSession(sessionId);
+      if (!parent) {
+        res.status(404).json({
+          success: false,
+          message: 'Session not found'
+        });
+        return;
+      }
+
+      if (parent.status === 'running' || parent.status === 'pending') {
+        res.status(409).json({
+          success: false,
+          message: 'Cannot re-crawl a session that is still running'
+        });
+        return;
+      }
+
+      if (value.webhook && !(await this.validateWebhookUrl(res, value.webhook.url))) return;
+
+      const newSessionId = await this.crawlerService.startRecrawl(sessionId, value.config, {
+        apiKeyHash: (req as any).apiKeyHash,
+        webhook: value.webhook
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Re-crawl started successfully',
+        data: {
+          sessionId: newSessionId,
+          parentSessionId: sessionId,
+          status: 'pending',
+          startUrl: parent.startUrl
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error starting re-crawl', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to start re-crawl',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
   /**
    * Get crawl session status
    */
@@ -148,6 +265,7 @@ export class CrawlerController {
             sessionId: session.sessionId,
             domain: session.domain,
             startUrl: session.startUrl,
+            parentSessionId: session.parentSessionId,
             status: session.status,
             config: session.config,
             stats: session.stats,
@@ -159,7 +277,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error getting crawl status:', error);
+      logger.error('Error getting crawl status', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to get crawl status',
@@ -190,7 +308,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error getting crawl progress:', error);
+      logger.error('Error getting crawl progress', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to get crawl progress',
@@ -199,6 +317,83 @@ export class CrawlerController {
     }
   };
 
+  /**
+   * Stream live crawl events (status, progress, per-URL results, discovered URLs) as Server-Sent Events
+   */
+  streamCrawlEvents = async (req: Request, res: Response): Promise<void> => {
+    let unsubscribe: (() => void) | null = null;
+
+    try {
+      const { sessionId } = req.params;
+
+      const session = await this.crawlerService.getSession(sessionId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          message: 'Session not found'
+        });
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no' // Disable proxy buffering (nginx)
+      });
+
+      const send = (event: string, data: any) => {
+        if (res.writableEnded) return;
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        (res as any).flush?.(); // Push through the compression middleware
+      };
+
+      // Subscribe before reading the current state so no event is missed in between
+      unsubscribe = this.crawlerService.subscribeToCrawl(sessionId, event => {
+        send(event.type, event.data);
+        if (event.type === 'status' && ['completed', 'failed', 'paused'].includes(event.data.status)) {
+          res.end();
+        }
+      });
+
+      const heartbeat = setInterval(() => {
+        if (res.writableEnded) return;
+        res.write(': heartbeat\n\n');
+        (res as any).flush?.();
+      }, 15000);
+
+      res.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe?.();
+      });
+
+      send('status', { status: session.status, stats: session.stats });
+
+      const progress = await this.crawlerService.getCrawlProgress(sessionId);
+      if (progress) {
+        send('progress', progress);
+      }
+
+      // Nothing more will happen for sessions that are not running in this process
+      if (!this.crawlerService.isCrawlInProgress(sessionId)) {
+        res.end();
+      }
+
+    } catch (error) {
+      logger.error('Error streaming crawl events', { error });
+      unsubscribe?.();
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to stream crawl events',
+          error: error instanceof Error ? error.message : String(error)
+        });
+      } else {
+        res.end();
+      }
+    }
+  };
+
   /**
    * Pause crawl session
    */
@@ -214,7 +409,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error pausing crawl:', error);
+      logger.error('Error pausing crawl', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to pause crawl',
@@ -224,12 +419,29 @@ export class CrawlerController {
   };
 
   /**
-   * Resume crawl session
+   * Resume a paused or failed crawl session from its existing queue
    */
   resumeCrawl = async (req: Request, res: Response): Promise<void> => {
     try {
       const { sessionId } = req.params;
 
+      const session = await this.crawlerService.getSession(sessionId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          message: 'Session not found'
+        });
+        return;
+      }
+
+      if (session.status !== 'paused' && session.status !== 'failed') {
+        res.status(409).json({
+          success: false,
+          message: `Cannot resume a ${session.status} session. Only paused or failed sessions can be resumed.`
+        });
+        return;
+      }
+
       await this.crawlerService.resumeCrawl(sessionId);
 
       res.json({
@@ -238,7 +450,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error resuming crawl:', error);
+      logger.error('Error resuming crawl', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to resume crawl',
@@ -262,7 +474,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error stopping crawl:', error);
+      logger.error('Error stopping crawl', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to stop crawl',
@@ -284,6 +496,7 @@ export class CrawlerController {
           sessionId: session.sessionId,
           domain: session.domain,
           startUrl: session.startUrl,
+          parentSessionId: session.parentSessionId,
           status: session.status,
           stats: session.stats,
           createdAt: session.createdAt,
@@ -292,7 +505,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error getting sessions:', error);
+      logger.error('Error getting sessions', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to get sessions',
@@ -316,7 +529,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error deleting session:', error);
+      logger.error('Error deleting session', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to delete session',
@@ -363,7 +576,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error getting extracted content:', error);
+      logger.error('Error getting extracted content', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to get extracted content',
@@ -398,7 +611,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error getting content item:', error);
+      logger.error('Error getting content item', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to get content item',
@@ -458,6 +671,8 @@ export class CrawlerController {
         return;
       }
 
+      const exportFormat = multiFormat === 'true' ? 'multi-format' : options.format;
+
       res.json({
         success: true,
         message: 'Export completed successfully',
@@ -466,12 +681,22 @@ export class CrawlerController {
           size: result.size,
           mimeType: result.mimeType,
           downloadUrl: result.downloadUrl,
-          format: multiFormat === 'true' ? 'multi-format' : options.format
+          format: exportFormat
         }
       });
 
+      UsageService.getInstance().record({ ...UsageService.targetFor(req), exports: 1 });
+      recordExport(exportFormat, result.size);
+
+      await this.crawlerService.notifyWebhooks(sessionId, 'export.ready', {
+        fileName: result.fileName,
+        size: result.size,
+        downloadUrl: result.downloadUrl,
+        format: exportFormat
+      });
+
     } catch (error) {
-      console.error('Error exporting session data:', error);
+      logger.error('Error exporting session data', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to export session data',
@@ -507,6 +732,7 @@ export class CrawlerController {
 
       // Group by schema type
       const groupedData: { [key: string]: any[] } = {};
+      const records: StructuredRecord[] = [];
       let totalItems = 0;
       let averageQuality = 0;
 
@@ -523,11 +749,13 @@ export class CrawlerController {
             schema: extractedData.schema,
             version: extractedData.version,
             fields: extractedData.fields,
+            items: extractedData.items,
             nestedStructures: extractedData.nestedStructures,
             qualityScore: extractedData.qualityScore,
             extractionMethod: extractedData.extractionMethod,
             extractedAt: extractedData.extractedAt
           });
+          records.push(...toStructuredRecords(item.url, extractedData));
 
           totalItems++;
           averageQuality += extractedData.qualityScore;
@@ -543,12 +771,14 @@ export class CrawlerController {
           totalItems,
           averageQuality: Math.round(averageQuality * 100) / 100,
           schemas: Object.keys(groupedData),
-          extractedData: groupedData
+          extractedData: groupedData,
+          recordCount: records.length,
+          records // One row per list item (or page)
         }
       });
 
     } catch (error) {
-      console.error('Error getting structured data:', error);
+      logger.error('Error getting structured data', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to get structured data',
@@ -585,6 +815,7 @@ export class CrawlerController {
         url: item.url,
         ...item.metadata.extractedData
       }));
+      const records = content.flatMap(item => toStructuredRecords(item.url, item.metadata.extractedData!));
 
       res.json({
         success: true,
@@ -592,12 +823,14 @@ export class CrawlerController {
           sessionId,
           schema,
           count: structuredData.length,
-          items: structuredData
+          items: structuredData,
+          recordCount: records.length,
+          records // One row per list item (or page)
         }
       });
 
     } catch (error) {
-      console.error('Error getting structured data by schema:', error);
+      logger.error('Error getting structured data by schema', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to get structured data by schema',
@@ -659,7 +892,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error testing authentication:', error);
+      logger.error('Error testing authentication', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to test authentication',
@@ -669,28 +902,47 @@ export class CrawlerController {
   };
 
   /**
-   * Get available extraction schemas
+   * Crawl analytics over the last days (timeRange=7d)
    */
-  getAvailableSchemas = async (req: Request, res: Response): Promise<void> => {
+  getAnalytics = async (req: Request, res: Response): Promise<void> => {
     try {
-      // This would come from the StructuredExtractor service
-      const schemas = [
-        'product', 'article', 'contact', 'event', 'job', 'generic'
-      ];
+      if (!isMongoDBConnected()) {
+        res.status(503).json({
+          success: false,
+          message: 'Crawl analytics require MongoDB. Please configure MONGODB_URI in your environment variables.',
+          error: 'MongoDB connection not available'
+        });
+        return;
+      }
+
+      const schema = Joi.object({
+        timeRange: Joi.string().pattern(/^([1-9]|[1-8][0-9]|90)d$/).default('7d')
+          .messages({ 'string.pattern.base': '"timeRange" must be a number of days between 1d and 90d' })
+      });
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const analytics = await this.analyticsService.getAnalytics(parseInt(value.timeRange, 10));
 
       res.json({
         success: true,
-        data: {
-          schemas,
-          count: schemas.length
-        }
+        data: analytics,
+        message: 'Analytics retrieved successfully'
       });
 
     } catch (error) {
-      console.error('Error getting available schemas:', error);
+      logger.error('Error getting crawl analytics', { error });
       res.status(500).json({
         success: false,
-        message: 'Failed to get available schemas',
+        message: 'Failed to get crawl analytics',
         error: error instanceof Error ? error.message : String(error)
       });
     }
@@ -712,7 +964,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error getting export history:', error);
+      logger.error('Error getting export history', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to get export history',
@@ -749,7 +1001,7 @@ export class CrawlerController {
       });
 
     } catch (error) {
-      console.error('Error cleaning up exports:', error);
+      logger.error('Error cleaning up exports', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to cleanup exports',
@@ -803,7 +1055,7 @@ export class CrawlerController {
       res.sendFile(filePath);
 
     } catch (error) {
-      console.error('Error downloading export:', error);
+      logger.error('Error downloading export', { error });
       res.status(500).json({
         success: false,
         message: 'Failed to download export',
@@ -811,4 +1063,335 @@ export class CrawlerController {
       });
     }
   };
-} 
\ No newline at end of file
+
+  /**
+   * List crawl schedules
+   */
+  getAllSchedules = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const schedules = await this.schedulerService.getAllSchedules((req as any).apiKeyHash);
+
+      res.json({
+        success: true,
+        data: schedules.map(schedule => this.formatSchedule(schedule))
+      });
+
+    } catch (error) {
+      logger.error('Error getting schedules', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get schedules',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Get a crawl schedule with its run history
+   */
+  getSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const { scheduleId } = req.params;
+      const schedule = await this.schedulerService.getSchedule(scheduleId, (req as any).apiKeyHash);
+      if (!schedule) {
+        res.status(404).json({
+          success: false,
+          message: 'Schedule not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...this.formatSchedule(schedule),
+          runs: await this.schedulerService.getRunHistory(schedule)
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error getting schedule', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get schedule',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Create a recurring crawl schedule
+   */
+  createSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const schema = Joi.object({
+        name: Joi.string().max(200).required(),
+        cronExpression: Joi.string().required(),
+        timezone: Joi.string().default('UTC'),
+        url: Joi.string().uri().required(),
+        config: crawlConfigSchema().default({}),
+        enabled: Joi.boolean().default(true)
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      if (!(await this.validateScheduleInput(res, value.url, value.cronExpression, value.timezone))) return;
+      if (!(await this.resolveExtractionSchema(res, value.config, (req as any).apiKeyHash))) return;
+
+      const schedule = await this.schedulerService.createSchedule({
+        name: value.name,
+        cronExpression: value.cronExpression,
+        timezone: value.timezone,
+        startUrl: value.url,
+        config: value.config,
+        enabled: value.enabled,
+        apiKeyHash: (req as any).apiKeyHash
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Crawl schedule created successfully',
+        data: this.formatSchedule(schedule)
+      });
+
+    } catch (error) {
+      logger.error('Error creating schedule', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create schedule',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Update a crawl schedule
+   */
+  updateSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const { scheduleId } = req.params;
+
+      const schema = Joi.object({
+        name: Joi.string().max(200).optional(),
+        cronExpression: Joi.string().optional(),
+        timezone: Joi.string().optional(),
+        url: Joi.string().uri().optional(),
+        config: crawlConfigSchema().optional(),
+        enabled: Joi.boolean().optional()
+      }).min(1);
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const existing = await this.schedulerService.getSchedule(scheduleId, (req as any).apiKeyHash);
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          message: 'Schedule not found'
+        });
+        return;
+      }
+
+      if (!(await this.validateScheduleInput(
+        res,
+        value.url ?? existing.startUrl,
+        value.cronExpression ?? existing.cronExpression,
+        value.timezone ?? existing.timezone
+      ))) return;
+      if (value.config && !(await this.resolveExtractionSchema(res, value.config, existing.apiKeyHash))) return;
+
+      const schedule = await this.schedulerService.updateSchedule(scheduleId, (req as any).apiKeyHash, {
+        name: value.name,
+        cronExpression: value.cronExpression,
+        timezone: value.timezone,
+        startUrl: value.url,
+        config: value.config,
+        enabled: value.enabled
+      });
+
+      res.json({
+        success: true,
+        message: 'Crawl schedule updated successfully',
+        data: schedule ? this.formatSchedule(schedule) : null
+      });
+
+    } catch (error) {
+      logger.error('Error updating schedule', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update schedule',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Delete a crawl schedule
+   */
+  deleteSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const { scheduleId } = req.params;
+      const deleted = await this.schedulerService.deleteSchedule(scheduleId, (req as any).apiKeyHash);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: 'Schedule not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Crawl schedule deleted successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error deleting schedule', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete schedule',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Respond with 503 when MongoDB is not available
+   */
+  private ensureMongoDB(res: Response): boolean {
+    if (isMongoDBConnected()) return true;
+
+    res.status(503).json({
+      success: false,
+      message: 'Crawl schedules require MongoDB. Please configure MONGODB_URI in your environment variables.',
+      error: 'MongoDB connection not available'
+    });
+    return false;
+  }
+
+  /**
+   * SECURITY: Validate a per-request webhook URL to prevent SSRF
+   */
+  private async validateWebhookUrl(res: Response, url: string): Promise<boolean> {
+    const urlValidation = await validateUrl(url);
+    if (urlValidation.valid) return true;
+
+    res.status(400).json({
+      success: false,
+      message: 'Invalid request data',
+      errors: [`URL not allowed: ${urlValidation.reason}`]
+    });
+    return false;
+  }
+
+  /**
+   * Check that the extraction schema named in a crawl config exists and pin it to its current version,
+   * so later schema updates do not change what a crawl (or its re-crawls) extracts.
+   * Custom schemas are looked up for the key the crawl runs as (for schedules, the one that created it).
+   */
+  private async resolveExtractionSchema(res: Response, config: any, apiKeyHash?: string): Promise<boolean> {
+    const reference = config.extraction?.schema;
+    if (!reference) return true;
+
+    const schema = await this.structuredExtractor.resolveSchema(reference, apiKeyHash);
+    if (!schema) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: [apiKeyHash
+          ? `Extraction schema "${reference}" not found`
+          : `Extraction schema "${reference}" not found (only built-in schemas can be used without an API key)`]
+      });
+      return false;
+    }
+
+    if (!this.structuredExtractor.isBuiltInSchema(schema.name)) {
+      config.extraction.schema = `${schema.name}@${schema.version}`;
+    }
+    return true;
+  }
+
+  /**
+   * Validate a schedule's start URL (SSRF) and cron expression
+   */
+  private async validateScheduleInput(res: Response, url: string, cronExpression: string, timezone: string): Promise<boolean> {
+    const urlValidation = await validateUrl(url);
+    if (!urlValidation.valid) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: [`URL not allowed: ${urlValidation.reason}`]
+      });
+      return false;
+    }
+
+    try {
+      CrawlSchedulerService.getNextRunAt(cronExpression, timezone);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: [`Invalid cron expression: ${error instanceof Error ? error.message : String(error)}`]
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Crawl config without the login credentials of its authentication settings
+   */
+  private redactCredentials(config: any) {
+    if (!config?.authentication?.credentials) return config;
+
+    const { credentials, ...authentication } = config.authentication;
+    return { ...config, authentication };
+  }
+
+  /**
+   * Shape a schedule for API responses (full run history is served by getSchedule, login credentials are never included)
+   */
+  private formatSchedule(schedule: ICrawlSchedule) {
+    return {
+      scheduleId: schedule.scheduleId,
+      name: schedule.name,
+      cronExpression: schedule.cronExpression,
+      timezone: schedule.timezone,
+      startUrl: schedule.startUrl,
+      config: this.redactCredentials(schedule.config),
+      enabled: schedule.enabled,
+      nextRunAt: schedule.nextRunAt,
+      lastRunAt: schedule.lastRunAt,
+      lastSessionId: schedule.lastSessionId,
+      lastRun: schedule.runHistory[schedule.runHistory.length - 1],
+      createdAt: schedule.createdAt,
+      updatedAt: schedule.updatedAt
+    };
+  }
+}
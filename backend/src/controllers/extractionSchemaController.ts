@@ -0,0 +1,493 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { ExtractionSchemaService } from '../services/extractionSchemaService';
+import { StructuredExtractor, ExtractionSchema } from '../services/structuredExtractor';
+import { UsageService } from '../services/usageService';
+import { IExtractionSchemaVersion, SCHEMA_FIELD_TYPES } from '../models/extractionSchemaModels';
+import { FIELD_TRANSFORM_TYPES } from '../utils/fieldTransforms';
+import { validateXPath } from '../utils/htmlXPath';
+import { IntelligentScraper } from '../utils/intelligentScraper';
+import { withBrowserSlot } from '../utils/concurrencyLimiter';
+import { validateUrl } from '../utils/urlValidator';
+import { logSecurityEvent } from '../middleware/requestLogger';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
+
+// Checked to compile here; extraction runs them under a time limit (utils/timeLimit)
+const regexSchema = Joi.string().max(200).custom((value, helpers) => {
+  try {
+    new RegExp(value);
+    return value;
+  } catch (error) {
+    return helpers.message({ custom: `invalid regular expression: ${error instanceof Error ? error.message : error}` });
+  }
+});
+
+const fieldTransformSchema = Joi.object({
+  type: Joi.string().valid(...FIELD_TRANSFORM_TYPES).required(),
+  pattern: regexSchema.when('type', { is: 'replace', then: Joi.required(), otherwise: Joi.forbidden() }),
+  replacement: Joi.string().max(500).allow('').when('type', { is: 'replace', otherwise: Joi.forbidden() }),
+  flags: Joi.string().pattern(/^[gimsuy]*$/).when('type', { is: 'replace', otherwise: Joi.forbidden() }),
+  separator: Joi.string().max(50).allow('').when('type', {
+    switch: [
+      { is: 'split', then: Joi.required() },
+      { is: 'join', then: Joi.optional() }
+    ],
+    otherwise: Joi.forbidden()
+  }),
+  locale: Joi.string().max(35).custom((value, helpers) => {
+    try {
+      new Intl.NumberFormat(value);
+      return value;
+    } catch {
+      return helpers.message({ custom: `unknown locale "${value}"` });
+    }
+  }).when('type', { is: 'parseNumber', otherwise: Joi.forbidden() }),
+  format: Joi.string().max(100).when('type', { is: 'parseDate', then: Joi.required(), otherwise: Joi.forbidden() }),
+  value: Joi.any().when('type', { is: 'default', then: Joi.required(), otherwise: Joi.forbidden() })
+});
+
+/**
+ * Joi schema for the fields of an extraction schema
+ */
+export const schemaFieldsSchema = Joi.object().pattern(
+  /^[A-Za-z_][A-Za-z0-9_-]{0,63}$/,
+  Joi.object({
+    type: Joi.string().valid(...SCHEMA_FIELD_TYPES).required(),
+    selector: Joi.string().max(500).optional(), // List schemas: omit to read the item element itself
+    xpath: Joi.string().max(500).custom((value, helpers) => {
+      const error = validateXPath(value);
+      return error ? helpers.message({ custom: `invalid XPath: ${error}` }) : value;
+    }).optional(),
+    attribute: Joi.string().max(100).optional(),
+    regex: regexSchema.optional(), // Without a selector: matched against the page text
+    transforms: Joi.array().items(fieldTransformSchema).max(20).optional(),
+    required: Joi.boolean().optional(),
+    multiple: Joi.boolean().optional()
+  }).oxor('selector', 'xpath')
+).min(1).max(100);
+
+// Schema names are referenced as "name" or "name@version"
+const schemaNameSchema = Joi.string().pattern(/^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/)
+  .messages({ 'string.pattern.base': '"name" may only contain letters, digits, "-" and "_" (up to 64 characters)' });
+
+// Schema test bench: a schema reference or an inline definition, run against a URL or raw HTML
+const testSchemaRequestSchema = Joi.object({
+  schema: Joi.alternatives().try(
+    Joi.string().max(100),
+    Joi.object({
+      name: Joi.string().max(64).default('inline'),
+      itemSelector: Joi.string().max(500).optional(),
+      fields: schemaFieldsSchema.required()
+    })
+  ).required(),
+  url: Joi.string().uri(),
+  html: Joi.string().max(2 * 1024 * 1024),
+  options: Joi.object({
+    userAgent: Joi.string().optional(),
+    timeout: Joi.number().min(1000).max(120000).optional(),
+    forceMethod: Joi.string().valid('static', 'dynamic', 'stealth', 'adaptive', 'api').optional()
+  }).default({})
+}).xor('url', 'html');
+
+export class ExtractionSchemaController {
+  private schemaService: ExtractionSchemaService;
+  private structuredExtractor: StructuredExtractor;
+
+  constructor() {
+    this.schemaService = ExtractionSchemaService.getInstance();
+    this.structuredExtractor = new StructuredExtractor();
+  }
+
+  /**
+   * List built-in schemas and the schemas of the calling API key
+   */
+  getAvailableSchemas = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schemas = await this.structuredExtractor.getAvailableSchemas((req as any).apiKeyHash);
+
+      res.json({
+        success: true,
+        data: {
+          schemas,
+          count: schemas.length
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error getting available schemas', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get available schemas',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Get a schema (latest version, or ?version=)
+   */
+  getSchema = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const { error, value } = Joi.object({
+        version: Joi.number().integer().min(1).optional()
+      }).validate(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const schema = await this.schemaService.getSchema(apiKeyHash, req.params.name, value.version);
+      if (!schema) {
+        res.status(404).json({
+          success: false,
+          message: 'Extraction schema not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: this.formatSchema(schema)
+      });
+
+    } catch (error) {
+      logger.error('Error getting extraction schema', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get extraction schema',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Version history of a schema, newest first
+   */
+  getSchemaVersions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const versions = await this.schemaService.getVersions(apiKeyHash, req.params.name);
+      if (versions.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Extraction schema not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: versions.map(version => this.formatSchema(version))
+      });
+
+    } catch (error) {
+      logger.error('Error getting extraction schema versions', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get extraction schema versions',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Create a schema for the calling API key (version 1)
+   */
+  createSchema = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const schema = Joi.object({
+        name: schemaNameSchema.required(),
+        description: Joi.string().max(500).optional(),
+        itemSelector: Joi.string().max(500).optional(),
+        fields: schemaFieldsSchema.required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      if (this.structuredExtractor.isBuiltInSchema(value.name)) {
+        res.status(409).json({
+          success: false,
+          message: `"${value.name}" is a built-in schema, choose another name`
+        });
+        return;
+      }
+
+      if (await this.schemaService.getSchema(apiKeyHash, value.name)) {
+        res.status(409).json({
+          success: false,
+          message: `Extraction schema "${value.name}" already exists. Update it to add a version.`
+        });
+        return;
+      }
+
+      const created = await this.schemaService.createSchema(apiKeyHash, value);
+
+      res.status(201).json({
+        success: true,
+        message: 'Extraction schema created successfully',
+        data: this.formatSchema(created)
+      });
+
+    } catch (error) {
+      // Duplicate key: the same schema was created by a concurrent request
+      if ((error as any)?.code === 11000) {
+        res.status(409).json({
+          success: false,
+          message: `Extraction schema "${req.body.name}" already exists. Update it to add a version.`
+        });
+        return;
+      }
+
+      logger.error('Error creating extraction schema', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create extraction schema',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Update a schema (stored as its next version)
+   */
+  updateSchema = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const schema = Joi.object({
+        description: Joi.string().max(500).allow('').optional(),
+        itemSelector: Joi.string().max(500).allow('').optional(),
+        fields: schemaFieldsSchema.optional()
+      }).min(1);
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const updated = await this.schemaService.updateSchema(apiKeyHash, req.params.name, value);
+      if (!updated) {
+        res.status(404).json({
+          success: false,
+          message: 'Extraction schema not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Extraction schema updated to version ${updated.version}`,
+        data: this.formatSchema(updated)
+      });
+
+    } catch (error) {
+      // Duplicate key: a concurrent update stored the same version first
+      if ((error as any)?.code === 11000) {
+        res.status(409).json({
+          success: false,
+          message: 'Extraction schema was updated by another request, retry with the latest version'
+        });
+        return;
+      }
+
+      logger.error('Error updating extraction schema', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update extraction schema',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Delete a schema (hidden from lists and new crawls, pinned versions keep resolving)
+   */
+  deleteSchema = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const deleted = await this.schemaService.deleteSchema(apiKeyHash, req.params.name);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: 'Extraction schema not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Extraction schema deleted successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error deleting extraction schema', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete extraction schema',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Try a schema on a page: matched elements, type conversions, missing required fields and the quality score
+   */
+  testSchema = async (req: Request, res: Response): Promise<void> => {
+    const intelligentScraper = new IntelligentScraper();
+
+    try {
+      const { error, value } = testSchemaRequestSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      let schema: ExtractionSchema | null;
+      if (typeof value.schema === 'string') {
+        schema = await this.structuredExtractor.resolveSchema(value.schema, (req as any).apiKeyHash);
+        if (!schema) {
+          res.status(404).json({
+            success: false,
+            message: 'Extraction schema not found'
+          });
+          return;
+        }
+      } else {
+        schema = {
+          name: value.schema.name,
+          version: 'draft',
+          itemSelector: value.schema.itemSelector,
+          fields: value.schema.fields
+        };
+      }
+
+      let html: string = value.html;
+      let url: string | undefined;
+      if (value.url) {
+        // SECURITY: Validate URL to prevent SSRF attacks
+        const urlValidation = await validateUrl(value.url);
+        if (!urlValidation.valid) {
+          logSecurityEvent({
+            type: 'invalid_url',
+            ip: req.ip || 'unknown',
+            details: `Blocked URL: ${value.url} - ${urlValidation.reason}`,
+            path: req.path
+          });
+          res.status(400).json({
+            success: false,
+            message: 'Invalid request data',
+            errors: [`URL not allowed: ${urlValidation.reason}`]
+          });
+          return;
+        }
+
+        // Fetched the same way /scrape does, so selectors see the HTML a scrape would
+        const usage = UsageService.targetFor(req);
+        const scrapedData = await withBrowserSlot(async () => {
+          return await intelligentScraper.scrape(urlValidation.sanitizedUrl || value.url, value.options);
+        }, usage);
+        UsageService.getInstance().record({ ...usage, scrapes: 1 });
+
+        if (!scrapedData.html) {
+          res.status(422).json({
+            success: false,
+            message: 'No HTML was captured from the URL',
+            error: `Scraped with ${scrapedData.method}, which returned no page HTML`
+          });
+          return;
+        }
+        html = scrapedData.html;
+        url = scrapedData.url;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...(url && { url }),
+          ...this.structuredExtractor.testSchema(html, schema, url)
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error testing extraction schema', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to test extraction schema',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      await intelligentScraper.cleanup();
+    }
+  };
+
+  /**
+   * Stored schemas need MongoDB and belong to an API key
+   */
+  private ensureAccess(req: Request, res: Response): string | null {
+    if (!isMongoDBConnected()) {
+      res.status(503).json({
+        success: false,
+        message: 'Extraction schemas require MongoDB. Please configure MONGODB_URI in your environment variables.',
+        error: 'MongoDB connection not available'
+      });
+      return null;
+    }
+
+    const apiKeyHash = (req as any).apiKeyHash as string | undefined;
+    if (!apiKeyHash) {
+      res.status(401).json({
+        success: false,
+        message: 'Extraction schemas are stored per API key. Include a valid key in the X-API-Key header.',
+        error: 'Authentication Required'
+      });
+      return null;
+    }
+
+    return apiKeyHash;
+  }
+
+  private formatSchema(schema: IExtractionSchemaVersion) {
+    return {
+      name: schema.name,
+      version: schema.version,
+      reference: `${schema.name}@${schema.version}`,
+      description: schema.description,
+      itemSelector: schema.itemSelector,
+      fields: schema.fields,
+      createdAt: schema.createdAt
+    };
+  }
+}
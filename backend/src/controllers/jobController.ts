@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { ScrapeJobService } from '../services/jobQueue';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Get the status, per-URL progress and (once finished) the result of an async job
+ */
+export const getJobController = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!isMongoDBConnected()) {
+      res.status(503).json({
+        success: false,
+        message: 'Async jobs require MongoDB. Please configure MONGODB_URI in your environment variables.',
+        error: 'MongoDB connection not available'
+      });
+      return;
+    }
+
+    // Jobs of other API keys are reported as missing
+    const job = await ScrapeJobService.getInstance().getJob(req.params.jobId, (req as any).apiKeyHash);
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: 'Job Not Found',
+        message: 'The job does not exist or has expired'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        jobId: job.jobId,
+        type: job.type,
+        status: job.status,
+        progress: job.progress,
+        blockedUrls: job.blockedUrls,
+        ...(job.status === 'completed' && { result: job.result }),
+        ...(job.error && { error: job.error }),
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+        expiresAt: job.expiresAt
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    logger.error('Error getting job', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get job',
+      message: error.message
+    });
+  }
+};
@@ -0,0 +1,491 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { MonitorService } from '../services/monitorService';
+import { IMonitor } from '../models/monitorModels';
+import { isMongoDBConnected } from '../config/database';
+import { validateUrl } from '../utils/urlValidator';
+import { logSecurityEvent } from '../middleware/requestLogger';
+import { logger } from '../utils/logger';
+
+const monitorOptionsSchema = Joi.object({
+  forceMethod: Joi.string().valid('static', 'dynamic', 'stealth', 'adaptive', 'api').optional(),
+  userAgent: Joi.string().optional(),
+  timeout: Joi.number().integer().min(5000).max(60000).optional()
+});
+
+export class MonitorController {
+  private monitorService: MonitorService;
+
+  constructor() {
+    this.monitorService = MonitorService.getInstance();
+  }
+
+  /**
+   * List monitors
+   */
+  getAllMonitors = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const monitors = await this.monitorService.getAllMonitors((req as any).apiKeyHash);
+
+      res.json({
+        success: true,
+        data: monitors.map(monitor => this.formatMonitor(monitor))
+      });
+
+    } catch (error) {
+      logger.error('Error getting monitors', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get monitors',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Get a monitor
+   */
+  getMonitor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const monitor = await this.monitorService.getMonitor(req.params.monitorId, (req as any).apiKeyHash);
+      if (!monitor) {
+        res.status(404).json({
+          success: false,
+          message: 'Monitor not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: this.formatMonitor(monitor)
+      });
+
+    } catch (error) {
+      logger.error('Error getting monitor', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get monitor',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Create a change-detection monitor
+   */
+  createMonitor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const schema = Joi.object({
+        name: Joi.string().max(200).required(),
+        url: Joi.string().uri().required(),
+        selector: Joi.string().max(500).optional(),
+        intervalMinutes: Joi.number().integer().min(5).max(60 * 24 * 7).default(60),
+        options: monitorOptionsSchema.default({}),
+        webhookUrl: Joi.string().uri().optional(),
+        webhookSecret: Joi.string().min(16).max(256).optional(),
+        enabled: Joi.boolean().default(true)
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      if (!(await this.validateUrls(req, res, value.url, value.webhookUrl))) return;
+
+      const monitor = await this.monitorService.createMonitor({
+        ...value,
+        apiKeyHash: (req as any).apiKeyHash
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Monitor created successfully',
+        data: this.formatMonitor(monitor, value)
+      });
+
+    } catch (error) {
+      logger.error('Error creating monitor', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create monitor',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Update a monitor
+   */
+  updateMonitor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const schema = Joi.object({
+        name: Joi.string().max(200).optional(),
+        url: Joi.string().uri().optional(),
+        selector: Joi.string().max(500).allow('').optional(),
+        intervalMinutes: Joi.number().integer().min(5).max(60 * 24 * 7).optional(),
+        options: monitorOptionsSchema.optional(),
+        webhookUrl: Joi.string().uri().allow('').optional(),
+        webhookSecret: Joi.string().min(16).max(256).optional(),
+        enabled: Joi.boolean().optional()
+      }).min(1);
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      if (!(await this.validateUrls(req, res, value.url, value.webhookUrl))) return;
+
+      const monitor = await this.monitorService.updateMonitor(req.params.monitorId, (req as any).apiKeyHash, value);
+      if (!monitor) {
+        res.status(404).json({
+          success: false,
+          message: 'Monitor not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Monitor updated successfully',
+        data: this.formatMonitor(monitor, value)
+      });
+
+    } catch (error) {
+      logger.error('Error updating monitor', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update monitor',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Delete a monitor and its versions
+   */
+  deleteMonitor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const deleted = await this.monitorService.deleteMonitor(req.params.monitorId, (req as any).apiKeyHash);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: 'Monitor not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Monitor deleted successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error deleting monitor', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete monitor',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Run a check immediately
+   */
+  checkMonitor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const monitor = await this.monitorService.getMonitor(req.params.monitorId, (req as any).apiKeyHash);
+      if (!monitor) {
+        res.status(404).json({
+          success: false,
+          message: 'Monitor not found'
+        });
+        return;
+      }
+
+      const result = await this.monitorService.checkMonitor(monitor);
+
+      res.json({
+        success: true,
+        message: result.changed ? 'Change detected' : 'Check completed',
+        data: {
+          changed: result.changed,
+          version: result.version.version,
+          previousVersion: result.previousVersion?.version,
+          diff: result.diff
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error checking monitor', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to check monitor',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Get version history
+   */
+  getVersions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const { monitorId } = req.params;
+      const { page = 1, limit = 50 } = req.query;
+
+      const monitor = await this.monitorService.getMonitor(monitorId, (req as any).apiKeyHash);
+      if (!monitor) {
+        res.status(404).json({
+          success: false,
+          message: 'Monitor not found'
+        });
+        return;
+      }
+
+      const pageSize = Math.min(Math.max(Number(limit) || 50, 1), 200);
+      const skip = (Math.max(Number(page) || 1, 1) - 1) * pageSize;
+      const versions = await this.monitorService.getVersions(monitorId, pageSize, skip);
+
+      res.json({
+        success: true,
+        data: {
+          monitorId,
+          versions: versions.map(version => ({
+            version: version.version,
+            contentHash: version.contentHash,
+            title: version.title,
+            diffStats: version.diffStats,
+            scrapeMethod: version.scrapeMethod,
+            detectedAt: version.createdAt
+          })),
+          pagination: {
+            page: Number(page),
+            limit: pageSize,
+            total: monitor.versionCount,
+            pages: Math.ceil(monitor.versionCount / pageSize)
+          }
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error getting monitor versions', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get monitor versions',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Get a single version with its markdown content
+   */
+  getVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const { monitorId } = req.params;
+      const versionNumber = parseInt(req.params.version, 10);
+      if (isNaN(versionNumber)) {
+        res.status(400).json({
+          success: false,
+          message: 'Version must be a number'
+        });
+        return;
+      }
+
+      const monitor = await this.monitorService.getMonitor(monitorId, (req as any).apiKeyHash);
+      if (!monitor) {
+        res.status(404).json({
+          success: false,
+          message: 'Monitor not found'
+        });
+        return;
+      }
+
+      const version = await this.monitorService.getVersion(monitorId, versionNumber);
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          message: 'Version not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          monitorId,
+          version: version.version,
+          contentHash: version.contentHash,
+          title: version.title,
+          markdownContent: version.markdownContent,
+          diffStats: version.diffStats,
+          scrapeMethod: version.scrapeMethod,
+          detectedAt: version.createdAt
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error getting monitor version', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get monitor version',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Diff any two versions (?from=1&to=3, defaults to the last change)
+   */
+  getDiff = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const { monitorId } = req.params;
+
+      const monitor = await this.monitorService.getMonitor(monitorId, (req as any).apiKeyHash);
+      if (!monitor) {
+        res.status(404).json({
+          success: false,
+          message: 'Monitor not found'
+        });
+        return;
+      }
+
+      const to = req.query.to ? parseInt(String(req.query.to), 10) : monitor.versionCount;
+      const from = req.query.from ? parseInt(String(req.query.from), 10) : to - 1;
+
+      if (isNaN(from) || isNaN(to) || from < 1 || to < 1) {
+        res.status(400).json({
+          success: false,
+          message: 'from and to must be version numbers (at least two versions are needed for a diff)'
+        });
+        return;
+      }
+
+      const diff = await this.monitorService.diffVersions(monitorId, from, to);
+      if (!diff) {
+        res.status(404).json({
+          success: false,
+          message: 'Version not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          monitorId,
+          from,
+          to,
+          ...diff
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error diffing monitor versions', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to diff monitor versions',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Respond with 503 when MongoDB is not available
+   */
+  private ensureMongoDB(res: Response): boolean {
+    if (isMongoDBConnected()) return true;
+
+    res.status(503).json({
+      success: false,
+      message: 'Monitors require MongoDB. Please configure MONGODB_URI in your environment variables.',
+      error: 'MongoDB connection not available'
+    });
+    return false;
+  }
+
+  /**
+   * SECURITY: Validate the monitored URL and webhook URL to prevent SSRF
+   */
+  private async validateUrls(req: Request, res: Response, ...urls: (string | undefined)[]): Promise<boolean> {
+    for (const url of urls) {
+      if (!url) continue;
+
+      const urlValidation = await validateUrl(url);
+      if (!urlValidation.valid) {
+        logSecurityEvent({
+          type: 'invalid_url',
+          ip: req.ip || 'unknown',
+          details: `Blocked URL: ${url} - ${urlValidation.reason}`,
+          path: req.path
+        });
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: [`URL not allowed: ${urlValidation.reason}`]
+        });
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Shape a monitor for API responses, with the webhook secret only
+   * when the request set a webhook URL and let the secret be generated
+   */
+  private formatMonitor(monitor: IMonitor, request?: { webhookUrl?: string; webhookSecret?: string }) {
+    return {
+      monitorId: monitor.monitorId,
+      name: monitor.name,
+      url: monitor.url,
+      selector: monitor.selector,
+      intervalMinutes: monitor.intervalMinutes,
+      options: monitor.options,
+      webhookUrl: monitor.webhookUrl,
+      ...(request?.webhookUrl && !request.webhookSecret && { webhookSecret: monitor.webhookSecret }),
+      enabled: monitor.enabled,
+      nextCheckAt: monitor.nextCheckAt,
+      lastCheckedAt: monitor.lastCheckedAt,
+      lastChangedAt: monitor.lastChangedAt,
+      lastStatus: monitor.lastStatus,
+      lastError: monitor.lastError,
+      versionCount: monitor.versionCount,
+      createdAt: monitor.createdAt,
+      updatedAt: monitor.updatedAt
+    };
+  }
+}
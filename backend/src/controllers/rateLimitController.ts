@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { ApiKeyService } from '../services/apiKeyService';
+import { ApiKey } from '../models/apiKeyModels';
+import { getRateLimitState, resetRateLimits, RateLimitSubject } from '../middleware/rateLimiter';
+import { getRateLimitStoreType } from '../utils/rateLimitStore';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
+
+const CATEGORIES = ['general', 'scrape', 'batch', 'crawler'];
+
+// Exactly one client: an IP, a stored key by id, or a key by its first 12 characters (env keys too)
+const subjectSchema = {
+  ip: Joi.string().ip(),
+  keyId: Joi.string(),
+  keyPrefix: Joi.string().min(12)
+};
+
+export class RateLimitController {
+  private apiKeyService: ApiKeyService;
+
+  constructor() {
+    this.apiKeyService = ApiKeyService.getInstance();
+  }
+
+  /**
+   * Current consumption of a key or IP
+   */
+  getRateLimits = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schema = Joi.object(subjectSchema).xor('ip', 'keyId', 'keyPrefix');
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const subject = await this.resolveSubject(res, value);
+      if (!subject) return;
+
+      const limits = await getRateLimitState(subject);
+
+      res.json({
+        success: true,
+        data: {
+          store: getRateLimitStoreType(),
+          tier: subject.tier,
+          ...(subject.key && { keyId: subject.key.keyId }),
+          limits
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error getting rate limits', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get rate limits',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Clear the consumption and blocks of a key or IP
+   */
+  resetRateLimits = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        ...subjectSchema,
+        category: Joi.string().valid(...CATEGORIES).optional()
+      }).xor('ip', 'keyId', 'keyPrefix');
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const subject = await this.resolveSubject(res, value);
+      if (!subject) return;
+
+      const reset = await resetRateLimits(subject, value.category ? [value.category] : undefined);
+
+      res.json({
+        success: true,
+        message: reset.length > 0 ? 'Rate limits reset successfully' : 'No consumption to reset',
+        data: { reset }
+      });
+
+    } catch (error) {
+      logger.error('Error resetting rate limits', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to reset rate limits',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Find the tier (and own limits) of the client the query points to
+   */
+  private async resolveSubject(
+    res: Response,
+    query: { ip?: string; keyId?: string; keyPrefix?: string }
+  ): Promise<RateLimitSubject | null> {
+    if (query.ip) {
+      return { tier: 'anonymous', id: query.ip };
+    }
+
+    if (query.keyId) {
+      if (!isMongoDBConnected()) {
+        res.status(503).json({
+          success: false,
+          message: 'API key management requires MongoDB. Please configure MONGODB_URI in your environment variables.',
+          error: 'MongoDB connection not available'
+        });
+        return null;
+      }
+
+      const key = await this.apiKeyService.getKey(query.keyId);
+      if (!key) {
+        res.status(404).json({
+          success: false,
+          message: 'API key not found'
+        });
+        return null;
+      }
+      return { tier: key.tier, id: key.keyPrefix, key };
+    }
+
+    const keyPrefix = (query.keyPrefix as string).slice(0, 12);
+    const key = isMongoDBConnected() ? await ApiKey.findOne({ keyPrefix }) : null;
+    if (key) {
+      return { tier: key.tier, id: keyPrefix, key };
+    }
+
+    // Env keys: the tier is part of the key
+    return { tier: keyPrefix.startsWith('scx_premium_') ? 'premium' : 'authenticated', id: keyPrefix };
+  }
+}
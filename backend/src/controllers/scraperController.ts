@@ -1,13 +1,23 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
-import axios from 'axios';
+import path from 'path';
+import fs from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
 import { StaticScraper } from '../utils/staticScraper';
 import { RobotsChecker } from '../utils/robotsChecker';
 import { IntelligentScraper } from '../utils/intelligentScraper';
-import { ContentExtractorService } from '../services/contentExtractor';
 import { validateUrl } from '../utils/urlValidator';
 import { logSecurityEvent } from '../middleware/requestLogger';
 import { withBrowserSlot, getConcurrencyStats } from '../utils/concurrencyLimiter';
+import { IntelligentScrapedData } from '../utils/intelligentScraper';
+import { DynamicScraper } from '../utils/dynamicScraper';
+import { PaginationDetector, PaginationLink } from '../services/paginationDetector';
+import { ScrapeJobService } from '../services/jobQueue';
+import { UsageService, UsageTarget } from '../services/usageService';
+import { StructuredExtractor } from '../services/structuredExtractor';
+import { requestWebhookSchema } from './webhookController';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
 
 // Validation schemas
 const urlSchema = Joi.object({
@@ -18,11 +28,44 @@ const urlSchema = Joi.object({
   userAgent: Joi.string().optional().default('ScrapperX-Bot')
 });
 
+// Browser actions run in order before the page is captured
+const browserActionSchema = Joi.object({
+  type: Joi.string().valid('click', 'type', 'press', 'scroll-to-bottom', 'wait', 'select', 'hover').required(),
+  selector: Joi.string().max(500).when('type', {
+    is: Joi.valid('click', 'type', 'select', 'hover'),
+    then: Joi.required()
+  }),
+  text: Joi.string().max(5000).allow('').when('type', { is: 'type', then: Joi.required() }),
+  key: Joi.string().max(50).when('type', { is: 'press', then: Joi.required() }),
+  value: Joi.alternatives().try(
+    Joi.string(),
+    Joi.array().items(Joi.string()).min(1)
+  ).when('type', { is: 'select', then: Joi.required() }),
+  duration: Joi.number().integer().min(0).max(30000).optional(),
+  maxScrolls: Joi.number().integer().min(1).max(50).optional(),
+  timeout: Joi.number().integer().min(100).max(30000).optional(),
+  optional: Joi.boolean().optional()
+});
+
+/**
+ * Joi schema for infinite scroll options (scrapes and crawls):
+ * keep loading feed-style listings until they stop growing
+ */
+export const infiniteScrollSchema = Joi.object({
+  loadMoreSelector: Joi.string().max(500).optional(),
+  itemSelector: Joi.string().max(500).optional(),
+  maxIterations: Joi.number().integer().min(1).max(50).optional().default(10),
+  maxItems: Joi.number().integer().min(1).max(10000).optional(),
+  idleTimeout: Joi.number().integer().min(250).max(10000).optional()
+});
+
 const scrapeSchema = Joi.object({
   url: Joi.string().uri().required().messages({
     'string.uri': 'Please provide a valid URL',
     'any.required': 'URL is required'
   }),
+  async: Joi.boolean().optional().default(false), // Return a jobId right away and poll /api/jobs/:jobId
+  webhook: requestWebhookSchema.when('async', { is: true, then: Joi.optional(), otherwise: Joi.forbidden() }),
   options: Joi.object({
     userAgent: Joi.string().optional(),
     timeout: Joi.number().min(1000).max(120000).optional(),
@@ -37,10 +80,113 @@ const scrapeSchema = Joi.object({
     captchaSolver: Joi.string().valid('manual', '2captcha', 'anticaptcha', 'skip').optional().default('skip'),
     captchaApiKey: Joi.string().optional().allow(''),
     stealthLevel: Joi.string().valid('basic', 'advanced', 'maximum').optional().default('advanced'),
-    learningMode: Joi.boolean().optional().default(true)
+    learningMode: Joi.boolean().optional().default(true),
+    // Page interaction needs a browser, which the static and stealth methods do not drive
+    actions: Joi.array().items(browserActionSchema).max(25).optional()
+      .when('forceMethod', { is: Joi.valid('static', 'stealth'), then: Joi.forbidden() })
+      .messages({ 'any.unknown': '{{#label}} cannot be combined with forceMethod "static" or "stealth"' }),
+    infiniteScroll: infiniteScrollSchema.optional()
+      .when('forceMethod', { is: Joi.valid('static', 'stealth'), then: Joi.forbidden() })
+      .messages({ 'any.unknown': '{{#label}} cannot be combined with forceMethod "static" or "stealth"' }),
+    followPagination: Joi.boolean().optional().default(false),
+    maxPaginationPages: Joi.number().integer().min(2).max(20).optional().default(5),
+    extractionSchema: Joi.string().max(100).optional() // Built-in or stored schema ("name" or "name@version")
+  }).optional()
+});
+
+const captureSchema = Joi.object({
+  url: Joi.string().uri().required().messages({
+    'string.uri': 'Please provide a valid URL',
+    'any.required': 'URL is required'
+  }),
+  format: Joi.string().valid('png', 'jpeg', 'pdf').optional().default('png'),
+  mode: Joi.string().valid('viewport', 'fullPage', 'element').optional().default('viewport'),
+  selector: Joi.string().max(500).when('mode', { is: 'element', then: Joi.required() }),
+  quality: Joi.number().integer().min(1).max(100).optional(),
+  viewport: Joi.object({
+    width: Joi.number().integer().min(320).max(3840).required(),
+    height: Joi.number().integer().min(240).max(2160).required()
+  }).optional(),
+  userAgent: Joi.string().optional(),
+  timeout: Joi.number().min(1000).max(60000).optional(),
+  waitForSelector: Joi.string().max(500).optional(),
+  actions: Joi.array().items(browserActionSchema).max(25).optional(),
+  pdf: Joi.object({
+    pageFormat: Joi.string().valid('A4', 'A3', 'Letter', 'Legal', 'Tabloid').optional(),
+    landscape: Joi.boolean().optional(),
+    printBackground: Joi.boolean().optional()
   }).optional()
 });
 
+/**
+ * Follow next-page links from the first page and scrape each one
+ */
+const scrapePaginatedPages = async (
+  intelligentScraper: IntelligentScraper,
+  firstPage: IntelligentScrapedData,
+  options: any,
+  maxPages: number,
+  usage: UsageTarget
+): Promise<{ pages: IntelligentScrapedData[]; links: PaginationLink[] }> => {
+  const paginationDetector = new PaginationDetector();
+  const domain = new URL(firstPage.url).hostname;
+  const learnedSelectors = await paginationDetector.getLearnedSelectors(domain);
+
+  const pages: IntelligentScrapedData[] = [firstPage];
+  const links: PaginationLink[] = [];
+  const seen = new Set([firstPage.url]);
+
+  while (pages.length < maxPages) {
+    const current = pages[pages.length - 1];
+    if (!current.html) break;
+
+    const next = paginationDetector.detectNextPage(current.html, current.url, learnedSelectors);
+    if (!next || seen.has(next.url)) break;
+    seen.add(next.url);
+
+    // SECURITY: Next-page links come from the scraped page, validate them too
+    const urlValidation = await validateUrl(next.url);
+    if (!urlValidation.valid) break;
+
+    await paginationDetector.recordPattern(domain, next, current.url);
+    links.push(next);
+
+    logger.debug('Following pagination', { url: next.url, method: next.method });
+    const page = await withBrowserSlot(async () => {
+      return await intelligentScraper.scrape(next.url, options);
+    }, usage);
+    pages.push(page);
+  }
+
+  return { pages, links };
+};
+
+/**
+ * Merge paginated pages into a single result
+ */
+const mergeScrapedPages = (pages: IntelligentScrapedData[]) => {
+  const uniqueBy = <T>(items: T[], key: (item: T) => string): T[] => {
+    const seen = new Set<string>();
+    return items.filter(item => {
+      const value = key(item);
+      if (seen.has(value)) return false;
+      seen.add(value);
+      return true;
+    });
+  };
+
+  const markdownParts = pages.map(page => page.markdownContent).filter(Boolean);
+
+  return {
+    content: pages.map(page => page.content).join('\n\n'),
+    markdownContent: markdownParts.length > 0 ? markdownParts.join('\n\n---\n\n') : undefined,
+    links: uniqueBy(pages.flatMap(page => page.links), link => link.href),
+    images: uniqueBy(pages.flatMap(page => page.images), image => image.src),
+    headings: pages.flatMap(page => page.headings),
+    wordCount: pages.reduce((sum, page) => sum + page.wordCount, 0)
+  };
+};
+
 export const checkRobotsController = async (
   req: Request,
   res: Response,
@@ -74,7 +220,7 @@ export const checkRobotsController = async (
     });
 
   } catch (error: any) {
-    console.error('Error checking robots.txt:', error);
+    logger.error('Error checking robots.txt', { error });
     res.status(500).json({
       success: false,
       error: 'Failed to check robots.txt',
@@ -101,7 +247,7 @@ export const getAdaptiveStatsController = async (
       timestamp: new Date().toISOString()
     });
   } catch (error: any) {
-    console.error('Error getting adaptive stats:', error);
+    logger.error('Error getting adaptive stats', { error });
     res.status(500).json({
       success: false,
       error: 'Failed to get adaptive stats',
@@ -142,7 +288,7 @@ export const getSuccessRatesController = async (
       timestamp: new Date().toISOString()
     });
   } catch (error: any) {
-    console.error('Error getting success rates:', error);
+    logger.error('Error getting success rates', { error });
     res.status(500).json({
       success: false,
       error: 'Failed to get success rates',
@@ -179,7 +325,7 @@ export const clearAdaptiveProfileController = async (
       timestamp: new Date().toISOString()
     });
   } catch (error: any) {
-    console.error('Error clearing adaptive profile:', error);
+    logger.error('Error clearing adaptive profile', { error });
     res.status(500).json({
       success: false,
       error: 'Failed to clear adaptive profile',
@@ -204,7 +350,7 @@ export const exportAdaptiveProfilesController = async (
     res.setHeader('Content-Disposition', 'attachment; filename="adaptive-profiles.json"');
     res.status(200).send(profiles);
   } catch (error: any) {
-    console.error('Error exporting adaptive profiles:', error);
+    logger.error('Error exporting adaptive profiles', { error });
     res.status(500).json({
       success: false,
       error: 'Failed to export adaptive profiles',
@@ -241,7 +387,7 @@ export const importAdaptiveProfilesController = async (
       timestamp: new Date().toISOString()
     });
   } catch (error: any) {
-    console.error('Error importing adaptive profiles:', error);
+    logger.error('Error importing adaptive profiles', { error });
     res.status(500).json({
       success: false,
       error: 'Failed to import adaptive profiles',
@@ -252,6 +398,156 @@ export const importAdaptiveProfilesController = async (
   }
 };
 
+/**
+ * Run the intelligent scraping pipeline for one URL and build the response data
+ * Shared by the synchronous endpoint and async jobs
+ */
+const runIntelligentScrape = async (
+  intelligentScraper: IntelligentScraper,
+  url: string,
+  requestOptions: any,
+  usage: UsageTarget
+) => {
+  const { followPagination, maxPaginationPages, extractionSchema, ...options } = requestOptions;
+
+  // Wrap in concurrency limiter to prevent too many browsers running
+  const scrapedData = await withBrowserSlot(async () => {
+    return await intelligentScraper.scrape(url, options);
+  }, usage);
+
+  // Markdown is converted from the HTML the winning strategy captured (no second fetch)
+  let markdownContent = scrapedData.markdownContent;
+
+  // Follow next-page links and merge all pages into one result
+  let merged: ReturnType<typeof mergeScrapedPages> | undefined;
+  let pagination: any;
+  if (followPagination) {
+    const { pages, links } = await scrapePaginatedPages(
+      intelligentScraper,
+      scrapedData,
+      options,
+      maxPaginationPages,
+      usage
+    );
+    merged = mergeScrapedPages(pages);
+    markdownContent = merged.markdownContent;
+    pagination = {
+      pagesScraped: pages.length,
+      urls: pages.map(page => page.url),
+      detectedBy: links.map(link => ({ url: link.url, method: link.method, selector: link.selector }))
+    };
+  }
+
+  // Extract the fields of the requested schema from the first page
+  let structuredData: any;
+  if (extractionSchema && scrapedData.html) {
+    const structuredExtractor = new StructuredExtractor();
+    const schema = await structuredExtractor.resolveSchema(extractionSchema, usage.apiKeyHash);
+    if (!schema) throw new Error(`Extraction schema "${extractionSchema}" not found`);
+    structuredData = await structuredExtractor.extractStructuredData(
+      {
+        htmlContent: scrapedData.html,
+        textContent: scrapedData.content,
+        url: scrapedData.url,
+        structuredData: scrapedData.structuredData
+      },
+      schema
+    );
+  }
+
+  logger.info('Intelligent scraping completed', {
+    url: scrapedData.url,
+    strategy: scrapedData.strategy.method,
+    qualityScore: scrapedData.qualityScore
+  });
+
+  return {
+    // Core scraped content
+    url: scrapedData.url,
+    title: scrapedData.title,
+    description: scrapedData.description,
+    content: merged ? merged.content : scrapedData.content,
+    markdownContent, // Clean Firecrawl-style markdown
+    links: merged ? merged.links : scrapedData.links,
+    images: merged ? merged.images : scrapedData.images,
+    headings: merged ? merged.headings : scrapedData.headings,
+    metadata: scrapedData.metadata,
+    wordCount: merged ? merged.wordCount : scrapedData.wordCount,
+    scrapedAt: scrapedData.scrapedAt,
+    method: scrapedData.method,
+
+    // Enhanced intelligent scraping data
+    strategy: scrapedData.strategy,
+    qualityScore: scrapedData.qualityScore,
+    completenessScore: scrapedData.completenessScore,
+    performanceMetrics: scrapedData.performanceMetrics,
+
+    // Robots compliance (logged but not enforced)
+    robotsCompliance: {
+      isAllowed: scrapedData.robotsInfo.isAllowed,
+      crawlDelay: scrapedData.robotsInfo.crawlDelay,
+      robotsUrl: scrapedData.robotsInfo.robotsUrl,
+      policy: scrapedData.robotsInfo.isAllowed ? 'ALLOWED' : 'BLOCKED',
+      enforced: options.respectRobots || false
+    },
+
+    // Additional content if available
+    ...(scrapedData.additionalContent && {
+      additionalContent: scrapedData.additionalContent
+    }),
+
+    // Per-step results of browser actions, if any were requested
+    ...(scrapedData.actionResults && {
+      actionResults: scrapedData.actionResults
+    }),
+
+    // Pages merged into this result when followPagination is set
+    ...(pagination && { pagination }),
+
+    // JSON-LD, Microdata and RDFa entities published by the page (schema.org types)
+    ...(scrapedData.structuredData && scrapedData.structuredData.length > 0 && {
+      schemaOrg: scrapedData.structuredData
+    }),
+
+    // Fields of the requested extraction schema
+    ...(structuredData && { structuredData }),
+
+    // Scroll cycles run when infinite scroll was requested
+    ...(scrapedData.infiniteScroll && {
+      infiniteScroll: scrapedData.infiniteScroll
+    }),
+
+    // API data if available
+    ...(scrapedData.apiData && {
+      apiData: {
+        endpointsFound: scrapedData.apiData.endpoints.length,
+        dataPointsExtracted: scrapedData.apiData.totalDataPoints,
+        structuredContent: scrapedData.apiData.structuredContent
+      }
+    })
+  };
+};
+
+// Async /scrape jobs run the same pipeline as the synchronous endpoint
+ScrapeJobService.getInstance().registerHandler('scrape', async (job, progress) => {
+  const intelligentScraper = new IntelligentScraper();
+
+  try {
+    await progress.urlStarted(0);
+    // Billed to the endpoint that queued the job
+    const usage: UsageTarget = { apiKeyHash: job.apiKeyHash, endpoint: '/api/scraper/scrape', method: 'POST' };
+    const data = await runIntelligentScrape(intelligentScraper, job.urls[0], job.options, usage);
+    await progress.urlFinished(0);
+    UsageService.getInstance().record({ ...usage, scrapes: data.pagination?.pagesScraped || 1 });
+    return data;
+  } catch (error: any) {
+    await progress.urlFinished(0, error.message);
+    throw error;
+  } finally {
+    await intelligentScraper.cleanup();
+  }
+});
+
 export const scrapeIntelligentController = async (
   req: Request,
   res: Response,
@@ -271,7 +567,7 @@ export const scrapeIntelligentController = async (
       return;
     }
 
-    const { url, options = {} } = value;
+    const { url, async: runAsync, webhook, options: requestOptions = {} } = value;
 
     // SECURITY: Validate URL to prevent SSRF attacks
     const urlValidation = await validateUrl(url);
@@ -291,95 +587,92 @@ export const scrapeIntelligentController = async (
     }
 
     const sanitizedUrl = urlValidation.sanitizedUrl || url;
-    console.log(`🚀 Starting intelligent scraping for: ${sanitizedUrl}`);
-    console.log(`⚙️ Options:`, options);
-    console.log(`📊 Concurrency: ${JSON.stringify(getConcurrencyStats())}`);
-
-    // Wrap in concurrency limiter to prevent too many browsers running
-    const scrapedData = await withBrowserSlot(async () => {
-      return await intelligentScraper.scrape(sanitizedUrl, options);
-    });
 
-    // Extract clean markdown content (Firecrawl-style)
-    let markdownContent: string | undefined;
-    try {
-      const htmlResponse = await axios.get(url, {
-        headers: {
-          'User-Agent': options.userAgent || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
-        },
-        timeout: 15000
-      });
+    // Check the extraction schema up front and pin stored schemas to their current version
+    if (requestOptions.extractionSchema) {
+      const structuredExtractor = new StructuredExtractor();
+      const schema = await structuredExtractor.resolveSchema(requestOptions.extractionSchema, (req as any).apiKeyHash);
+      if (!schema) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          details: `Extraction schema "${requestOptions.extractionSchema}" not found`
+        });
+        return;
+      }
+      if (!structuredExtractor.isBuiltInSchema(schema.name)) {
+        requestOptions.extractionSchema = `${schema.name}@${schema.version}`;
+      }
+    }
 
-      const contentExtractor = new ContentExtractorService();
-      const extractedContent = await contentExtractor.extractContent(htmlResponse.data, url, new URL(url).hostname);
-      markdownContent = extractedContent.markdownContent;
+    // Queue the scrape and let the client poll /api/jobs/:jobId
+    if (runAsync) {
+      if (!isMongoDBConnected()) {
+        res.status(503).json({
+          success: false,
+          message: 'Async jobs require MongoDB. Please configure MONGODB_URI in your environment variables.',
+          error: 'MongoDB connection not available'
+        });
+        return;
+      }
 
-      if (!markdownContent || markdownContent.length === 0) {
-        markdownContent = undefined;
+      // SECURITY: Webhook targets get the same SSRF checks
+      if (webhook) {
+        const webhookValidation = await validateUrl(webhook.url);
+        if (!webhookValidation.valid) {
+          logSecurityEvent({
+            type: 'invalid_url',
+            ip: req.ip || 'unknown',
+            details: `Blocked webhook URL: ${webhook.url} - ${webhookValidation.reason}`,
+            path: req.path
+          });
+          res.status(400).json({
+            success: false,
+            error: 'URL Not Allowed',
+            message: `Webhook URL not allowed: ${webhookValidation.reason}`
+          });
+          return;
+        }
       }
-    } catch (markdownError) {
-      console.error('Failed to extract markdown content:', markdownError);
-      markdownContent = undefined;
-    }
 
-    // Prepare response with comprehensive data
-    const response = {
-      success: true,
-      data: {
-        // Core scraped content
-        url: scrapedData.url,
-        title: scrapedData.title,
-        description: scrapedData.description,
-        content: scrapedData.content,
-        markdownContent, // Clean Firecrawl-style markdown
-        links: scrapedData.links,
-        images: scrapedData.images,
-        headings: scrapedData.headings,
-        metadata: scrapedData.metadata,
-        wordCount: scrapedData.wordCount,
-        scrapedAt: scrapedData.scrapedAt,
-        method: scrapedData.method,
-
-        // Enhanced intelligent scraping data
-        strategy: scrapedData.strategy,
-        qualityScore: scrapedData.qualityScore,
-        completenessScore: scrapedData.completenessScore,
-        performanceMetrics: scrapedData.performanceMetrics,
-
-        // Robots compliance (logged but not enforced)
-        robotsCompliance: {
-          isAllowed: scrapedData.robotsInfo.isAllowed,
-          crawlDelay: scrapedData.robotsInfo.crawlDelay,
-          robotsUrl: scrapedData.robotsInfo.robotsUrl,
-          policy: scrapedData.robotsInfo.isAllowed ? 'ALLOWED' : 'BLOCKED',
-          enforced: options.respectRobots || false
+      const job = await ScrapeJobService.getInstance().createJob({
+        type: 'scrape',
+        urls: [sanitizedUrl],
+        options: requestOptions,
+        notify: { apiKeyHash: (req as any).apiKeyHash, webhook }
+      });
+
+      res.status(202).json({
+        success: true,
+        message: 'Scrape job queued',
+        data: {
+          jobId: job.jobId,
+          status: job.status,
+          statusUrl: `/api/jobs/${job.jobId}`
         },
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
 
-        // Additional content if available
-        ...(scrapedData.additionalContent && {
-          additionalContent: scrapedData.additionalContent
-        }),
-
-        // API data if available
-        ...(scrapedData.apiData && {
-          apiData: {
-            endpointsFound: scrapedData.apiData.endpoints.length,
-            dataPointsExtracted: scrapedData.apiData.totalDataPoints,
-            structuredContent: scrapedData.apiData.structuredContent
-          }
-        })
-      },
-      timestamp: new Date().toISOString()
-    };
+    logger.debug('Scrape request accepted', {
+      url: sanitizedUrl,
+      options: Object.keys(requestOptions), // Names only, values can hold credentials
+      concurrency: getConcurrencyStats()
+    });
 
-    console.log(`✅ Intelligent scraping completed successfully`);
-    console.log(`📊 Strategy: ${scrapedData.strategy.method}, Quality: ${scrapedData.qualityScore}%`);
+    const usage = UsageService.targetFor(req);
+    const data = await runIntelligentScrape(intelligentScraper, sanitizedUrl, requestOptions, usage);
+    UsageService.getInstance().record({ ...usage, scrapes: data.pagination?.pagesScraped || 1 });
 
-    res.status(200).json(response);
+    res.status(200).json({
+      success: true,
+      data,
+      timestamp: new Date().toISOString()
+    });
 
   } catch (error: any) {
-    console.error('❌ Intelligent scraping failed:', error);
+    logger.error('Intelligent scraping failed', { error });
     res.status(500).json({
       success: false,
       error: 'Intelligent Scraping Failed',
@@ -431,10 +724,12 @@ export const scrapeStaticController = async (
 
     // Perform static scraping
     const scraper = new StaticScraper();
-    const scrapedData = await scraper.scrape(url, {
+    // The raw HTML is only used internally, keep it out of the response
+    const { html, ...scrapedData } = await scraper.scrape(url, {
       userAgent: options.userAgent,
       timeout: options.timeout
     });
+    UsageService.getInstance().record({ ...UsageService.targetFor(req), scrapes: 1 });
 
     // Add robots info to response
     const response = {
@@ -453,7 +748,7 @@ export const scrapeStaticController = async (
     res.status(200).json(response);
 
   } catch (error: any) {
-    console.error('Error scraping website:', error);
+    logger.error('Error scraping website', { error });
     res.status(500).json({
       success: false,
       error: 'Scraping Failed',
@@ -461,4 +756,96 @@ export const scrapeStaticController = async (
       timestamp: new Date().toISOString()
     });
   }
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Capture a screenshot or PDF of a page and save it to the exports directory
+ */
+export const captureController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const dynamicScraper = new DynamicScraper();
+
+  try {
+    // Validate input
+    const { error, value } = captureSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        details: error.details[0]?.message || 'Validation failed'
+      });
+      return;
+    }
+
+    const { url, ...options } = value;
+
+    // SECURITY: Validate URL to prevent SSRF attacks
+    const urlValidation = await validateUrl(url);
+    if (!urlValidation.valid) {
+      logSecurityEvent({
+        type: 'invalid_url',
+        ip: req.ip || 'unknown',
+        details: `Blocked URL: ${url} - ${urlValidation.reason}`,
+        path: req.path
+      });
+      res.status(400).json({
+        success: false,
+        error: 'URL Not Allowed',
+        message: urlValidation.reason
+      });
+      return;
+    }
+
+    const sanitizedUrl = urlValidation.sanitizedUrl || url;
+    logger.debug('Capturing page', { url: sanitizedUrl, format: options.format, mode: options.format === 'pdf' ? 'print' : options.mode });
+
+    // Wrap in concurrency limiter to prevent too many browsers running
+    const capture = await withBrowserSlot(async () => {
+      return await dynamicScraper.capture(sanitizedUrl, options);
+    }, UsageService.targetFor(req));
+
+    // Save to file and return download link
+    const extension = options.format === 'jpeg' ? 'jpg' : options.format;
+    const fileName = `capture-${uuidv4()}.${extension}`;
+    const exportsDir = path.join(process.cwd(), 'exports');
+    const filePath = path.join(exportsDir, fileName);
+
+    await fs.mkdir(exportsDir, { recursive: true });
+    await fs.writeFile(filePath, capture.buffer);
+
+    logger.info('Capture saved', { fileName, sizeBytes: capture.buffer.length });
+    UsageService.getInstance().record({ ...UsageService.targetFor(req), scrapes: 1 });
+
+    res.status(200).json({
+      success: true,
+      message: 'Capture completed',
+      data: {
+        url: sanitizedUrl,
+        finalUrl: capture.finalUrl,
+        title: capture.title,
+        format: options.format,
+        mode: options.format === 'pdf' ? undefined : options.mode,
+        contentType: capture.contentType,
+        sizeBytes: capture.buffer.length,
+        downloadUrl: `/api/downloads/${fileName}`,
+        fileName,
+        ...(capture.actionResults && { actionResults: capture.actionResults })
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    logger.error('Capture failed', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Capture Failed',
+      message: error.message,
+      timestamp: new Date().toISOString()
+    });
+  } finally {
+    await dynamicScraper.close();
+  }
+};
@@ -0,0 +1,111 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { UsageService, UsageFilters } from '../services/usageService';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
+
+const usageFiltersSchema = Joi.object({
+  from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  endpoint: Joi.string().max(500).optional(),
+  method: Joi.string().valid('GET', 'POST', 'PUT', 'PATCH', 'DELETE').insensitive().optional()
+}).messages({
+  'string.pattern.base': '{{#label}} must be a date in YYYY-MM-DD format'
+});
+
+export class UsageController {
+  private usageService: UsageService;
+
+  constructor() {
+    this.usageService = UsageService.getInstance();
+  }
+
+  /**
+   * Usage of the calling API key
+   */
+  getUsage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const apiKeyHash = (req as any).apiKeyHash as string | undefined;
+      if (!apiKeyHash) {
+        res.status(401).json({
+          success: false,
+          message: 'Usage is metered per API key. Include a valid key in the X-API-Key header.',
+          error: 'Authentication Required'
+        });
+        return;
+      }
+
+      const filters = this.validateFilters(req, res);
+      if (!filters) return;
+
+      const usage = await this.usageService.getUsage(apiKeyHash, filters);
+
+      res.json({
+        success: true,
+        data: usage
+      });
+
+    } catch (error) {
+      logger.error('Error getting usage', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get usage',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Usage of every API key (admin)
+   */
+  getAllUsage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.ensureMongoDB(res)) return;
+
+      const filters = this.validateFilters(req, res);
+      if (!filters) return;
+
+      const usage = await this.usageService.getAllUsage(filters);
+
+      res.json({
+        success: true,
+        data: usage
+      });
+
+    } catch (error) {
+      logger.error('Error getting usage of all keys', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get usage',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  private validateFilters(req: Request, res: Response): UsageFilters | null {
+    const { error, value } = usageFiltersSchema.validate(req.query);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.details.map(d => d.message)
+      });
+      return null;
+    }
+
+    return value;
+  }
+
+  private ensureMongoDB(res: Response): boolean {
+    if (isMongoDBConnected()) return true;
+
+    res.status(503).json({
+      success: false,
+      message: 'Usage reports require MongoDB. Please configure MONGODB_URI in your environment variables.',
+      error: 'MongoDB connection not available'
+    });
+    return false;
+  }
+}
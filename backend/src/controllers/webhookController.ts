@@ -0,0 +1,405 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { WebhookService } from '../services/webhookService';
+import { IWebhook, IWebhookDelivery, WEBHOOK_EVENTS } from '../models/webhookModels';
+import { isMongoDBConnected } from '../config/database';
+import { validateUrl } from '../utils/urlValidator';
+import { logSecurityEvent } from '../middleware/requestLogger';
+import { logger } from '../utils/logger';
+
+/**
+ * Joi schema for a webhook passed with a single request (crawl, batch or async job)
+ */
+export const requestWebhookSchema = Joi.object({
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+  secret: Joi.string().min(16).max(256).required(),
+  events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).optional()
+});
+
+export class WebhookController {
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.webhookService = WebhookService.getInstance();
+  }
+
+  /**
+   * List the webhooks of the calling API key
+   */
+  getAllWebhooks = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const webhooks = await this.webhookService.getWebhooks(apiKeyHash);
+
+      res.json({
+        success: true,
+        data: webhooks.map(webhook => this.formatWebhook(webhook))
+      });
+
+    } catch (error) {
+      logger.error('Error getting webhooks', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get webhooks',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Get a webhook
+   */
+  getWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const webhook = await this.webhookService.getWebhook(req.params.webhookId, apiKeyHash);
+      if (!webhook) {
+        res.status(404).json({
+          success: false,
+          message: 'Webhook not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: this.formatWebhook(webhook)
+      });
+
+    } catch (error) {
+      logger.error('Error getting webhook', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get webhook',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Register a webhook for the calling API key
+   */
+  createWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const schema = Joi.object({
+        url: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+        events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).default([...WEBHOOK_EVENTS]),
+        description: Joi.string().max(500).optional(),
+        secret: Joi.string().min(16).max(256).optional(),
+        enabled: Joi.boolean().default(true)
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      if (!(await this.validateWebhookUrl(req, res, value.url))) return;
+
+      const { webhook, secret } = await this.webhookService.createWebhook(apiKeyHash, value);
+
+      res.status(201).json({
+        success: true,
+        message: 'Webhook created successfully. Store the secret, it is not shown again.',
+        data: {
+          ...this.formatWebhook(webhook),
+          secret
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error creating webhook', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create webhook',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Update a webhook
+   */
+  updateWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const schema = Joi.object({
+        url: Joi.string().uri({ scheme: ['http', 'https'] }).optional(),
+        events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).optional(),
+        description: Joi.string().max(500).allow('').optional(),
+        enabled: Joi.boolean().optional()
+      }).min(1);
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      if (value.url && !(await this.validateWebhookUrl(req, res, value.url))) return;
+
+      const webhook = await this.webhookService.updateWebhook(req.params.webhookId, apiKeyHash, value);
+      if (!webhook) {
+        res.status(404).json({
+          success: false,
+          message: 'Webhook not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Webhook updated successfully',
+        data: this.formatWebhook(webhook)
+      });
+
+    } catch (error) {
+      logger.error('Error updating webhook', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update webhook',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Delete a webhook
+   */
+  deleteWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const deleted = await this.webhookService.deleteWebhook(req.params.webhookId, apiKeyHash);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: 'Webhook not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Webhook deleted successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error deleting webhook', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete webhook',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Delivery log of the calling API key
+   */
+  getDeliveries = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const schema = Joi.object({
+        webhookId: Joi.string().optional(),
+        event: Joi.string().valid(...WEBHOOK_EVENTS).optional(),
+        status: Joi.string().valid('pending', 'delivered', 'failed').optional(),
+        limit: Joi.number().integer().min(1).max(200).default(50)
+      });
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const deliveries = await this.webhookService.getDeliveries(apiKeyHash, value);
+
+      res.json({
+        success: true,
+        data: deliveries.map(delivery => this.formatDelivery(delivery))
+      });
+
+    } catch (error) {
+      logger.error('Error getting webhook deliveries', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get webhook deliveries',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Get a delivery including its payload
+   */
+  getDelivery = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const delivery = await this.webhookService.getDelivery(req.params.deliveryId, apiKeyHash);
+      if (!delivery) {
+        res.status(404).json({
+          success: false,
+          message: 'Delivery not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...this.formatDelivery(delivery),
+          payload: delivery.payload
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error getting webhook delivery', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get webhook delivery',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Send a delivery again
+   */
+  replayDelivery = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const apiKeyHash = this.ensureAccess(req, res);
+      if (!apiKeyHash) return;
+
+      const delivery = await this.webhookService.replayDelivery(req.params.deliveryId, apiKeyHash);
+      if (!delivery) {
+        res.status(404).json({
+          success: false,
+          message: 'Delivery not found'
+        });
+        return;
+      }
+
+      res.status(202).json({
+        success: true,
+        message: 'Delivery replay queued',
+        data: this.formatDelivery(delivery)
+      });
+
+    } catch (error) {
+      logger.error('Error replaying webhook delivery', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to replay webhook delivery',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  /**
+   * Webhooks are registered per API key and stored in MongoDB
+   */
+  private ensureAccess(req: Request, res: Response): string | null {
+    if (!isMongoDBConnected()) {
+      res.status(503).json({
+        success: false,
+        message: 'Webhooks require MongoDB. Please configure MONGODB_URI in your environment variables.',
+        error: 'MongoDB connection not available'
+      });
+      return null;
+    }
+
+    const apiKeyHash = (req as any).apiKeyHash as string | undefined;
+    if (!apiKeyHash) {
+      res.status(401).json({
+        success: false,
+        message: 'Webhooks are registered per API key. Include a valid key in the X-API-Key header.',
+        error: 'Authentication Required'
+      });
+      return null;
+    }
+
+    return apiKeyHash;
+  }
+
+  /**
+   * SECURITY: Validate the webhook URL to prevent SSRF
+   */
+  private async validateWebhookUrl(req: Request, res: Response, url: string): Promise<boolean> {
+    const urlValidation = await validateUrl(url);
+    if (urlValidation.valid) return true;
+
+    logSecurityEvent({
+      type: 'invalid_url',
+      ip: req.ip || 'unknown',
+      details: `Blocked webhook URL: ${url} - ${urlValidation.reason}`,
+      path: req.path
+    });
+    res.status(400).json({
+      success: false,
+      message: 'Invalid request data',
+      errors: [`URL not allowed: ${urlValidation.reason}`]
+    });
+    return false;
+  }
+
+  /**
+   * Shape a webhook for API responses (never includes the secret)
+   */
+  private formatWebhook(webhook: IWebhook) {
+    return {
+      webhookId: webhook.webhookId,
+      url: webhook.url,
+      events: webhook.events,
+      description: webhook.description,
+      enabled: webhook.enabled,
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt
+    };
+  }
+
+  private formatDelivery(delivery: IWebhookDelivery) {
+    return {
+      deliveryId: delivery.deliveryId,
+      webhookId: delivery.webhookId,
+      url: delivery.url,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      lastError: delivery.lastError,
+      nextAttemptAt: delivery.nextAttemptAt,
+      lastAttemptAt: delivery.lastAttemptAt,
+      deliveredAt: delivery.deliveredAt,
+      replayOf: delivery.replayOf,
+      createdAt: delivery.createdAt
+    };
+  }
+}
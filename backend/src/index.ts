@@ -5,16 +5,33 @@ import compression from 'compression';
 import dotenv from 'dotenv';
 import path from 'path';
 import fs from 'fs/promises';
-import { connectDB } from './config/database';
+import { connectDB, isMongoDBConnected } from './config/database';
 import { errorHandler } from './middleware/errorHandler';
 import { rateLimiter } from './middleware/rateLimiter';
+import { requireScope } from './middleware/apiKeyAuth';
 import { requestLogger } from './middleware/requestLogger';
+import { logger } from './utils/logger';
 import { sanitizeFilename } from './utils/urlValidator';
+import { closeRateLimitStore } from './utils/rateLimitStore';
+import { CrawlSchedulerService } from './services/crawlScheduler';
+import { DomainCrawlerService } from './services/domainCrawler';
+import { MonitorService } from './services/monitorService';
+import { BrowserPoolService } from './services/browserPool';
+import { ScrapeJobService } from './services/jobQueue';
+import { WebhookService } from './services/webhookService';
+import { UsageService } from './services/usageService';
 
 // Import routes
 import scraperRoutes from './routes/scraperRoutes';
 import healthRoutes from './routes/healthRoutes';
 import crawlerRoutes from './routes/crawlerRoutes';
+import monitorRoutes from './routes/monitorRoutes';
+import jobRoutes from './routes/jobRoutes';
+import webhookRoutes from './routes/webhookRoutes';
+import adminRoutes from './routes/adminRoutes';
+import usageRoutes from './routes/usageRoutes';
+import metricsRoutes from './routes/metricsRoutes';
+import extractRoutes from './routes/extractRoutes';
 
 // Load environment variables
 dotenv.config();
@@ -32,17 +49,29 @@ async function initializeDirectories() {
     await fs.mkdir(exportsDir, { recursive: true });
     await fs.mkdir(logsDir, { recursive: true });
 
-    console.log('📁 Directories initialized');
+    logger.debug('Directories initialized');
   } catch (error) {
-    console.error('❌ Failed to create directories:', error);
+    logger.error('Failed to create directories', { error });
   }
 }
 
 // Database connection (optional for basic functionality)
 if (process.env.MONGODB_URI) {
-  connectDB().catch(console.error);
+  connectDB()
+    .then(() => {
+      if (!isMongoDBConnected()) return;
+
+      // Async jobs queued before a restart run again, interrupted ones are marked failed
+      ScrapeJobService.getInstance().recoverJobs();
+
+      // Sessions left running by a previous process (e.g. pm2 restart)
+      const policy = process.env.CRAWL_RECOVERY_POLICY === 'fail' ? 'fail' : 'resume';
+      const maxAttempts = parseInt(process.env.CRAWL_RECOVERY_MAX_ATTEMPTS || '3', 10);
+      return DomainCrawlerService.getInstance().recoverInterruptedCrawls(policy, maxAttempts);
+    })
+    .catch(error => logger.error('Startup recovery failed', { error }));
 } else {
-  console.log('📦 MongoDB connection skipped (no MONGODB_URI provided)');
+  logger.info('MongoDB connection skipped (no MONGODB_URI provided)');
 }
 
 // ============================
@@ -97,12 +126,13 @@ app.use(cors({
     }
 
     // In production, allow but log warning
-    console.warn(`⚠️ CORS: Request from unknown origin: ${origin}`);
+    logger.warn('CORS request from unknown origin', { origin });
     return callback(null, true);
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key', 'X-Request-Id'],
+  exposedHeaders: ['X-Request-Id']
 }));
 
 // 6. Body parsing middleware with size limits
@@ -123,6 +153,9 @@ app.use('/api/', rateLimiter);
 // Health check (no rate limiting or auth)
 app.use('/health', healthRoutes);
 
+// Prometheus metrics (no rate limiting, optional METRICS_TOKEN)
+app.use('/metrics', metricsRoutes);
+
 // SECURE Download route for exported files
 app.get('/api/downloads/:fileName', async (req, res) => {
   try {
@@ -138,13 +171,13 @@ app.get('/api/downloads/:fileName', async (req, res) => {
     try {
       sanitizedFileName = sanitizeFilename(fileName);
     } catch (error) {
-      console.warn('🚨 Path traversal attempt blocked:', fileName);
+      logger.warn('Path traversal attempt blocked', { fileName });
       res.status(400).json({ success: false, message: 'Invalid filename' });
       return;
     }
 
     // Only allow specific extensions
-    const allowedExtensions = ['.md', '.json', '.csv', '.zip'];
+    const allowedExtensions = ['.md', '.json', '.csv', '.zip', '.png', '.jpg', '.pdf'];
     const ext = path.extname(sanitizedFileName).toLowerCase();
     if (!allowedExtensions.includes(ext)) {
       res.status(400).json({ success: false, message: 'File type not allowed' });
@@ -157,7 +190,7 @@ app.get('/api/downloads/:fileName', async (req, res) => {
     const exportsDir = path.resolve(process.cwd(), 'exports');
     const resolvedPath = path.resolve(filePath);
     if (!resolvedPath.startsWith(exportsDir)) {
-      console.warn('🚨 Path escape attempt blocked:', fileName);
+      logger.warn('Path escape attempt blocked', { fileName });
       res.status(400).json({ success: false, message: 'Invalid file path' });
       return;
     }
@@ -175,7 +208,10 @@ app.get('/api/downloads/:fileName', async (req, res) => {
       '.json': 'application/json',
       '.csv': 'text/csv',
       '.md': 'text/markdown',
-      '.zip': 'application/zip'
+      '.zip': 'application/zip',
+      '.png': 'image/png',
+      '.jpg': 'image/jpeg',
+      '.pdf': 'application/pdf'
     };
 
     const mimeType = mimeTypes[ext] || 'application/octet-stream';
@@ -185,7 +221,7 @@ app.get('/api/downloads/:fileName', async (req, res) => {
     res.sendFile(resolvedPath);
 
   } catch (error) {
-    console.error('Error downloading export:', error);
+    logger.error('Error downloading export', { error });
     res.status(500).json({
       success: false,
       message: 'Failed to download file',
@@ -196,7 +232,13 @@ app.get('/api/downloads/:fileName', async (req, res) => {
 
 // API routes
 app.use('/api/scraper', scraperRoutes);
-app.use('/api/crawler', crawlerRoutes);
+app.use('/api/crawler', requireScope('crawler'), crawlerRoutes);
+app.use('/api/monitors', requireScope('crawler'), monitorRoutes);
+app.use('/api/extract', extractRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/usage', usageRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
@@ -230,27 +272,38 @@ async function cleanupOldExports() {
       if (now - stats.mtimeMs > maxAge) {
         await fs.unlink(filePath);
         deletedCount++;
-        console.log(`🗑️ Deleted old export: ${file}`);
+        logger.debug('Deleted old export', { file });
       }
     }
 
     if (deletedCount > 0) {
-      console.log(`✅ Cleanup completed: ${deletedCount} old files deleted`);
+      logger.info('Export cleanup completed', { deletedCount });
     }
   } catch (error) {
-    console.error('❌ Cleanup error:', error);
+    logger.error('Export cleanup failed', { error });
   }
 }
 
 // Graceful shutdown handler
 function setupGracefulShutdown() {
   const shutdown = async (signal: string) => {
-    console.log(`\n📴 Received ${signal}. Starting graceful shutdown...`);
+    logger.info('Starting graceful shutdown', { signal });
+
+    // Stop launching scheduled crawls, monitor checks and webhook retries
+    CrawlSchedulerService.getInstance().stop();
+    MonitorService.getInstance().stop();
+    WebhookService.getInstance().stop();
 
     // Give existing requests time to complete
     await new Promise(resolve => setTimeout(resolve, 5000));
 
-    console.log('👋 Shutdown complete');
+    // Write usage counted by those requests
+    await UsageService.getInstance().stop();
+
+    await BrowserPoolService.getInstance().shutdown();
+    await closeRateLimitStore();
+
+    logger.info('Shutdown complete');
     process.exit(0);
   };
 
@@ -263,13 +316,12 @@ function setupGracefulShutdown() {
 // ============================
 
 app.listen(PORT, '0.0.0.0', async () => {
-  console.log(`\n🚀 ScrapperX Backend Server`);
-  console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
-  console.log(`📊 Environment: ${isProduction ? 'PRODUCTION' : 'development'}`);
-  console.log(`🌐 Listening on: http://0.0.0.0:${PORT}`);
-  console.log(`🔗 Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:3000'}`);
-  console.log(`🔐 API Key Required: ${process.env.REQUIRE_API_KEY === 'true' ? 'YES' : 'NO'}`);
-  console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+  logger.info('ScrapperX backend server started', {
+    environment: isProduction ? 'production' : 'development',
+    url: `http://0.0.0.0:${PORT}`,
+    frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+    requireApiKey: process.env.REQUIRE_API_KEY === 'true'
+  });
 
   // Initialize directories
   await initializeDirectories();
@@ -280,6 +332,14 @@ app.listen(PORT, '0.0.0.0', async () => {
   // Schedule cleanup every 24 hours
   setInterval(cleanupOldExports, 24 * 60 * 60 * 1000);
 
+  // Start scheduled crawls (waits for MongoDB, catches up on missed runs), change monitors, webhook retries and usage metering
+  if (process.env.MONGODB_URI) {
+    CrawlSchedulerService.getInstance().start();
+    MonitorService.getInstance().start();
+    WebhookService.getInstance().start();
+    UsageService.getInstance().start();
+  }
+
   // Setup graceful shutdown
   setupGracefulShutdown();
 });
@@ -2,22 +2,29 @@
  * Simple API Key Authentication Middleware
  * 
  * This provides basic protection for your API in production.
- * Set REQUIRE_API_KEY=true and API_KEYS=key1,key2,key3 in your .env
+ * Set REQUIRE_API_KEY=true and API_KEYS=key1,key2,key3 in your .env,
+ * or issue keys stored in MongoDB through the admin API (/api/admin/keys).
+ * Keys in ADMIN_API_KEYS can use the admin API.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
-
-// Configuration from environment
-const REQUIRE_API_KEY = process.env.REQUIRE_API_KEY === 'true';
-const API_KEYS = new Set(
-    (process.env.API_KEYS || '').split(',').filter(Boolean)
-);
-
-// Track failed attempts for rate limiting
-const failedAttempts = new Map<string, { count: number; lastAttempt: number }>();
-const MAX_FAILED_ATTEMPTS = 5;
-const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
+import { ApiKeyService } from '../services/apiKeyService';
+import { IApiKey, ApiKeyScope, ApiKeyTier, API_KEY_SCOPES } from '../models/apiKeyModels';
+import { logger } from '../utils/logger';
+
+// Read at runtime so keys loaded by dotenv are picked up
+const getEnvKeys = (name: string): Set<string> => {
+    return new Set((process.env[name] || '').split(',').map(k => k.trim()).filter(Boolean));
+};
+
+export interface ApiKeyResolution {
+    valid: boolean;
+    tier?: ApiKeyTier;
+    scopes?: ApiKeyScope[];
+    key?: IApiKey; // Set for keys stored in MongoDB
+    rejection?: string; // Why a known key was refused (revoked or expired)
+}
 
 /**
  * Generate a secure API key
@@ -27,145 +34,114 @@ export function generateApiKey(): string {
 }
 
 /**
- * Check if IP is locked out due to too many failed attempts
+ * Stable identifier for an API key (the key itself is never stored)
  */
-function isLockedOut(ip: string): boolean {
-    const record = failedAttempts.get(ip);
-    if (!record) return false;
-
-    const timeSinceLastAttempt = Date.now() - record.lastAttempt;
-
-    // Reset if lockout period has passed
-    if (timeSinceLastAttempt > LOCKOUT_DURATION) {
-        failedAttempts.delete(ip);
-        return false;
-    }
-
-    return record.count >= MAX_FAILED_ATTEMPTS;
+export function hashApiKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
 }
 
 /**
- * Record a failed authentication attempt
+ * Look up an API key in the env lists, then in MongoDB
+ * Env keys have every scope except admin (unless listed in ADMIN_API_KEYS)
  */
-function recordFailedAttempt(ip: string): void {
-    const record = failedAttempts.get(ip);
-
-    if (record) {
-        record.count++;
-        record.lastAttempt = Date.now();
-    } else {
-        failedAttempts.set(ip, { count: 1, lastAttempt: Date.now() });
-    }
-}
+export async function resolveApiKey(apiKey: string | null | undefined): Promise<ApiKeyResolution> {
+    if (!apiKey) return { valid: false };
 
-/**
- * Clear failed attempts for an IP
- */
-function clearFailedAttempts(ip: string): void {
-    failedAttempts.delete(ip);
-}
+    const tier: ApiKeyTier = apiKey.startsWith('scx_premium_') ? 'premium' : 'authenticated';
 
-/**
- * API Key Authentication Middleware
- * 
- * Checks for API key in:
- * 1. X-API-Key header
- * 2. Authorization: Bearer <key> header
- * 3. ?api_key=<key> query parameter
- */
-export function apiKeyAuth(req: Request, res: Response, next: NextFunction): void {
-    // Skip authentication if not required
-    if (!REQUIRE_API_KEY) {
-        return next();
+    if (getEnvKeys('ADMIN_API_KEYS').has(apiKey)) {
+        return { valid: true, tier, scopes: [...API_KEY_SCOPES] };
     }
 
-    const ip = req.ip || req.socket.remoteAddress || 'unknown';
-
-    // Check for lockout
-    if (isLockedOut(ip)) {
-        res.status(429).json({
-            success: false,
-            error: 'Too Many Failed Attempts',
-            message: 'Your IP has been temporarily locked due to too many failed authentication attempts. Please try again later.',
-            retryAfter: Math.ceil(LOCKOUT_DURATION / 1000)
-        });
-        return;
+    if (getEnvKeys('API_KEYS').has(apiKey)) {
+        return { valid: true, tier, scopes: API_KEY_SCOPES.filter(scope => scope !== 'admin') };
     }
 
-    // Extract API key from various sources
-    let apiKey: string | undefined;
+    try {
+        const apiKeyService = ApiKeyService.getInstance();
+        const key = await apiKeyService.findByHash(hashApiKey(apiKey));
+        if (!key) return { valid: false };
 
-    // 1. X-API-Key header
-    apiKey = req.headers['x-api-key'] as string;
+        const rejection = apiKeyService.getRejectionReason(key);
+        if (rejection) return { valid: false, rejection };
 
-    // 2. Authorization: Bearer <key>
-    if (!apiKey) {
-        const authHeader = req.headers.authorization;
-        if (authHeader?.startsWith('Bearer ')) {
-            apiKey = authHeader.slice(7);
-        }
+        return { valid: true, tier: key.tier, scopes: key.scopes, key };
+    } catch (error) {
+        logger.error('API key lookup failed', { error });
+        return { valid: false };
     }
+}
 
-    // 3. Query parameter (less secure, but convenient for testing)
-    if (!apiKey && req.query.api_key) {
-        apiKey = req.query.api_key as string;
+/**
+ * Extract the API key from the X-API-Key header, Authorization: Bearer header or api_key query parameter
+ */
+export function extractApiKey(req: Request): string | null {
+    const headerKey = req.headers['x-api-key'];
+    if (headerKey && typeof headerKey === 'string') {
+        return headerKey;
     }
 
-    // Validate API key
-    if (!apiKey) {
-        recordFailedAttempt(ip);
-        res.status(401).json({
-            success: false,
-            error: 'Authentication Required',
-            message: 'API key is required. Include it in the X-API-Key header, Authorization: Bearer header, or api_key query parameter.'
-        });
-        return;
+    const authHeader = req.headers.authorization;
+    if (authHeader?.startsWith('Bearer ')) {
+        return authHeader.slice(7);
     }
 
-    if (!API_KEYS.has(apiKey)) {
-        recordFailedAttempt(ip);
-        res.status(401).json({
-            success: false,
-            error: 'Invalid API Key',
-            message: 'The provided API key is not valid.'
-        });
-        return;
+    if (req.query.api_key && typeof req.query.api_key === 'string') {
+        return req.query.api_key;
     }
 
-    // Valid API key - clear failed attempts and continue
-    clearFailedAttempts(ip);
-
-    // Add API key identifier to request for logging
-    (req as any).apiKeyId = apiKey.slice(0, 8) + '...';
-
-    next();
+    return null;
 }
 
 /**
  * Optional authentication - allows both authenticated and unauthenticated requests
  * but marks the request with authentication status
  */
-export function optionalApiKeyAuth(req: Request, res: Response, next: NextFunction): void {
-    // Extract API key from various sources
-    let apiKey: string | undefined;
-    apiKey = req.headers['x-api-key'] as string;
-
-    if (!apiKey) {
-        const authHeader = req.headers.authorization;
-        if (authHeader?.startsWith('Bearer ')) {
-            apiKey = authHeader.slice(7);
-        }
-    }
-
-    if (!apiKey && req.query.api_key) {
-        apiKey = req.query.api_key as string;
-    }
+export async function optionalApiKeyAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const apiKey = extractApiKey(req);
+    const resolution = await resolveApiKey(apiKey);
 
     // Mark request with authentication status
-    (req as any).isAuthenticated = apiKey ? API_KEYS.has(apiKey) : false;
-    (req as any).apiKeyId = apiKey && API_KEYS.has(apiKey) ? apiKey.slice(0, 8) + '...' : undefined;
+    (req as any).isAuthenticated = resolution.valid;
+    (req as any).apiKeyId = apiKey && resolution.valid ? apiKey.slice(0, 8) + '...' : undefined;
 
     next();
 }
 
-export default { apiKeyAuth, optionalApiKeyAuth, generateApiKey };
+/**
+ * Restrict a route to keys with a scope
+ * Runs after the rate limiter, which resolves the key. Anonymous requests are left
+ * to the rate limiters (free tier) unless REQUIRE_API_KEY=true, and the admin scope
+ * always needs a key.
+ */
+export function requireScope(scope: ApiKeyScope) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const scopes = (req as any).apiKeyScopes as ApiKeyScope[] | undefined;
+
+        if (!scopes) {
+            if (scope !== 'admin' && process.env.REQUIRE_API_KEY !== 'true') return next();
+
+            res.status(401).json({
+                success: false,
+                error: 'Authentication Required',
+                message: scope === 'admin'
+                    ? 'This endpoint requires an API key with the admin scope.'
+                    : 'API key is required. Include it in the X-API-Key header, Authorization: Bearer header, or api_key query parameter.'
+            });
+            return;
+        }
+
+        if (!scopes.includes(scope)) {
+            res.status(403).json({
+                success: false,
+                error: 'Insufficient Scope',
+                message: `This API key does not have the "${scope}" scope.`
+            });
+            return;
+        }
+
+        next();
+    };
+}
+
+export default { optionalApiKeyAuth, requireScope, resolveApiKey, extractApiKey, generateApiKey, hashApiKey };
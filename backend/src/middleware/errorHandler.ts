@@ -1,4 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { redactUrl } from './requestLogger';
 
 export interface CustomError extends Error {
   statusCode?: number;
@@ -15,10 +17,7 @@ export const errorHandler = (
   let error = { ...err };
   error.message = err.message;
 
-  // Log to console for dev
-  if (process.env.NODE_ENV === 'development') {
-    console.error('🚨 Error:', err);
-  }
+  logger.error('Unhandled error', { method: req.method, path: redactUrl(req.originalUrl), error: err });
 
   // Mongoose bad ObjectId
   if (err.name === 'CastError') {
@@ -55,6 +54,7 @@ export const errorHandler = (
     ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
     timestamp: new Date().toISOString(),
     path: req.originalUrl,
-    method: req.method
+    method: req.method,
+    requestId: (req as any).requestId
   });
 }; 
\ No newline at end of file
@@ -6,28 +6,23 @@
  * - API key users: Full access (20 requests/min) - for real usage
  * - Premium API key users: 10x higher limits - for heavy usage
  * 
- * Premium keys start with 'scx_premium_' prefix.
+ * Premium keys start with 'scx_premium_' prefix (env keys) or have the
+ * premium tier (keys stored in MongoDB, which can also override limits).
  * 
  * This prevents abuse while still allowing people to try the API.
  */
 
-import { RateLimiterMemory } from 'rate-limiter-flexible';
+import { RateLimiterAbstract } from 'rate-limiter-flexible';
 import { Request, Response, NextFunction } from 'express';
+import { hashApiKey, extractApiKey, resolveApiKey, ApiKeyResolution } from './apiKeyAuth';
+import { ApiKeyService } from '../services/apiKeyService';
+import { IApiKey, RateLimitCategory } from '../models/apiKeyModels';
+import { createLimiter } from '../utils/rateLimitStore';
+import { recordRateLimitRejection } from '../utils/metrics';
 
 // Check production at runtime (NOT at module load time!)
 const isProduction = (): boolean => process.env.NODE_ENV === 'production';
 
-// Get valid API keys from environment (also runtime)
-const getApiKeys = (): Set<string> => {
-  const keys = process.env.API_KEYS || '';
-  return new Set(keys.split(',').filter(k => k.trim().length > 0));
-};
-
-// Check if key is premium (starts with scx_premium_)
-const isPremiumKey = (key: string | null): boolean => {
-  return key?.startsWith('scx_premium_') || false;
-};
-
 // ============================================
 // 🎯 RATE LIMIT CONFIGURATION
 // ============================================
@@ -66,24 +61,25 @@ const PREMIUM_LIMITS = {
 // ============================================
 // Rate Limiters (Lazy initialization)
 // ============================================
-// These are created on first use to ensure NODE_ENV is loaded
-
-let _anonymousLimiter: RateLimiterMemory | null = null;
-let _authenticatedLimiter: RateLimiterMemory | null = null;
-let _premiumLimiter: RateLimiterMemory | null = null;
-let _anonymousScrapeLimiter: RateLimiterMemory | null = null;
-let _authenticatedScrapeLimiter: RateLimiterMemory | null = null;
-let _premiumScrapeLimiter: RateLimiterMemory | null = null;
-let _anonymousBatchLimiter: RateLimiterMemory | null = null;
-let _authenticatedBatchLimiter: RateLimiterMemory | null = null;
-let _premiumBatchLimiter: RateLimiterMemory | null = null;
-let _authenticatedCrawlerLimiter: RateLimiterMemory | null = null;
-let _premiumCrawlerLimiter: RateLimiterMemory | null = null;
-
-const getAnonymousLimiter = (): RateLimiterMemory => {
+// These are created on first use to ensure NODE_ENV (and RATE_LIMIT_STORE) is loaded
+
+let _anonymousLimiter: RateLimiterAbstract | null = null;
+let _authenticatedLimiter: RateLimiterAbstract | null = null;
+let _premiumLimiter: RateLimiterAbstract | null = null;
+let _anonymousScrapeLimiter: RateLimiterAbstract | null = null;
+let _authenticatedScrapeLimiter: RateLimiterAbstract | null = null;
+let _premiumScrapeLimiter: RateLimiterAbstract | null = null;
+let _anonymousBatchLimiter: RateLimiterAbstract | null = null;
+let _authenticatedBatchLimiter: RateLimiterAbstract | null = null;
+let _premiumBatchLimiter: RateLimiterAbstract | null = null;
+let _authenticatedCrawlerLimiter: RateLimiterAbstract | null = null;
+let _premiumCrawlerLimiter: RateLimiterAbstract | null = null;
+
+const getAnonymousLimiter = (): RateLimiterAbstract => {
   if (!_anonymousLimiter) {
     const isProd = isProduction();
-    _anonymousLimiter = new RateLimiterMemory({
+    _anonymousLimiter = createLimiter({
+      keyPrefix: 'anonymous_general',
       points: isProd ? FREE_LIMITS.general.prod : FREE_LIMITS.general.dev,
       duration: isProd ? 3600 : 60,
       blockDuration: isProd ? 3600 : 60,
@@ -92,10 +88,11 @@ const getAnonymousLimiter = (): RateLimiterMemory => {
   return _anonymousLimiter;
 };
 
-const getAuthenticatedLimiter = (): RateLimiterMemory => {
+const getAuthenticatedLimiter = (): RateLimiterAbstract => {
   if (!_authenticatedLimiter) {
     const isProd = isProduction();
-    _authenticatedLimiter = new RateLimiterMemory({
+    _authenticatedLimiter = createLimiter({
+      keyPrefix: 'authenticated_general',
       points: isProd ? API_KEY_LIMITS.general.prod : API_KEY_LIMITS.general.dev,
       duration: 60,
       blockDuration: 60,
@@ -104,10 +101,11 @@ const getAuthenticatedLimiter = (): RateLimiterMemory => {
   return _authenticatedLimiter;
 };
 
-const getPremiumLimiter = (): RateLimiterMemory => {
+const getPremiumLimiter = (): RateLimiterAbstract => {
   if (!_premiumLimiter) {
     const isProd = isProduction();
-    _premiumLimiter = new RateLimiterMemory({
+    _premiumLimiter = createLimiter({
+      keyPrefix: 'premium_general',
       points: isProd ? PREMIUM_LIMITS.general.prod : PREMIUM_LIMITS.general.dev,
       duration: 60,
       blockDuration: 60,
@@ -116,10 +114,11 @@ const getPremiumLimiter = (): RateLimiterMemory => {
   return _premiumLimiter;
 };
 
-const getAnonymousScrapeLimiter = (): RateLimiterMemory => {
+const getAnonymousScrapeLimiter = (): RateLimiterAbstract => {
   if (!_anonymousScrapeLimiter) {
     const isProd = isProduction();
-    _anonymousScrapeLimiter = new RateLimiterMemory({
+    _anonymousScrapeLimiter = createLimiter({
+      keyPrefix: 'anonymous_scrape',
       points: isProd ? FREE_LIMITS.scrape.prod : FREE_LIMITS.scrape.dev,
       duration: isProd ? 3600 : 60,
       blockDuration: isProd ? 3600 : 60,
@@ -128,10 +127,11 @@ const getAnonymousScrapeLimiter = (): RateLimiterMemory => {
   return _anonymousScrapeLimiter;
 };
 
-const getAuthenticatedScrapeLimiter = (): RateLimiterMemory => {
+const getAuthenticatedScrapeLimiter = (): RateLimiterAbstract => {
   if (!_authenticatedScrapeLimiter) {
     const isProd = isProduction();
-    _authenticatedScrapeLimiter = new RateLimiterMemory({
+    _authenticatedScrapeLimiter = createLimiter({
+      keyPrefix: 'authenticated_scrape',
       points: isProd ? API_KEY_LIMITS.scrape.prod : API_KEY_LIMITS.scrape.dev,
       duration: 60,
       blockDuration: 120,
@@ -140,10 +140,11 @@ const getAuthenticatedScrapeLimiter = (): RateLimiterMemory => {
   return _authenticatedScrapeLimiter;
 };
 
-const getPremiumScrapeLimiter = (): RateLimiterMemory => {
+const getPremiumScrapeLimiter = (): RateLimiterAbstract => {
   if (!_premiumScrapeLimiter) {
     const isProd = isProduction();
-    _premiumScrapeLimiter = new RateLimiterMemory({
+    _premiumScrapeLimiter = createLimiter({
+      keyPrefix: 'premium_scrape',
       points: isProd ? PREMIUM_LIMITS.scrape.prod : PREMIUM_LIMITS.scrape.dev,
       duration: 60,
       blockDuration: 60,
@@ -152,10 +153,11 @@ const getPremiumScrapeLimiter = (): RateLimiterMemory => {
   return _premiumScrapeLimiter;
 };
 
-const getAnonymousBatchLimiter = (): RateLimiterMemory => {
+const getAnonymousBatchLimiter = (): RateLimiterAbstract => {
   if (!_anonymousBatchLimiter) {
     const isProd = isProduction();
-    _anonymousBatchLimiter = new RateLimiterMemory({
+    _anonymousBatchLimiter = createLimiter({
+      keyPrefix: 'anonymous_batch',
       points: isProd ? FREE_LIMITS.batch.prod : FREE_LIMITS.batch.dev,
       duration: isProd ? 3600 : 300,
       blockDuration: isProd ? 3600 : 300,
@@ -164,10 +166,11 @@ const getAnonymousBatchLimiter = (): RateLimiterMemory => {
   return _anonymousBatchLimiter;
 };
 
-const getAuthenticatedBatchLimiter = (): RateLimiterMemory => {
+const getAuthenticatedBatchLimiter = (): RateLimiterAbstract => {
   if (!_authenticatedBatchLimiter) {
     const isProd = isProduction();
-    _authenticatedBatchLimiter = new RateLimiterMemory({
+    _authenticatedBatchLimiter = createLimiter({
+      keyPrefix: 'authenticated_batch',
       points: isProd ? API_KEY_LIMITS.batch.prod : API_KEY_LIMITS.batch.dev,
       duration: 300,
       blockDuration: 300,
@@ -176,10 +179,11 @@ const getAuthenticatedBatchLimiter = (): RateLimiterMemory => {
   return _authenticatedBatchLimiter;
 };
 
-const getPremiumBatchLimiter = (): RateLimiterMemory => {
+const getPremiumBatchLimiter = (): RateLimiterAbstract => {
   if (!_premiumBatchLimiter) {
     const isProd = isProduction();
-    _premiumBatchLimiter = new RateLimiterMemory({
+    _premiumBatchLimiter = createLimiter({
+      keyPrefix: 'premium_batch',
       points: isProd ? PREMIUM_LIMITS.batch.prod : PREMIUM_LIMITS.batch.dev,
       duration: 300,
       blockDuration: 300,
@@ -188,10 +192,11 @@ const getPremiumBatchLimiter = (): RateLimiterMemory => {
   return _premiumBatchLimiter;
 };
 
-const getAuthenticatedCrawlerLimiter = (): RateLimiterMemory => {
+const getAuthenticatedCrawlerLimiter = (): RateLimiterAbstract => {
   if (!_authenticatedCrawlerLimiter) {
     const isProd = isProduction();
-    _authenticatedCrawlerLimiter = new RateLimiterMemory({
+    _authenticatedCrawlerLimiter = createLimiter({
+      keyPrefix: 'authenticated_crawler',
       points: isProd ? API_KEY_LIMITS.crawler.prod : API_KEY_LIMITS.crawler.dev,
       duration: 300,
       blockDuration: 600,
@@ -200,10 +205,11 @@ const getAuthenticatedCrawlerLimiter = (): RateLimiterMemory => {
   return _authenticatedCrawlerLimiter;
 };
 
-const getPremiumCrawlerLimiter = (): RateLimiterMemory => {
+const getPremiumCrawlerLimiter = (): RateLimiterAbstract => {
   if (!_premiumCrawlerLimiter) {
     const isProd = isProduction();
-    _premiumCrawlerLimiter = new RateLimiterMemory({
+    _premiumCrawlerLimiter = createLimiter({
+      keyPrefix: 'premium_crawler',
       points: isProd ? PREMIUM_LIMITS.crawler.prod : PREMIUM_LIMITS.crawler.dev,
       duration: 300,
       blockDuration: 300,
@@ -212,42 +218,149 @@ const getPremiumCrawlerLimiter = (): RateLimiterMemory => {
   return _premiumCrawlerLimiter;
 };
 
-// ============================================
-// Helper Functions
-// ============================================
+// ---- Per-key limits (keys stored in MongoDB) ----
+// Same windows as the tier limiters, one limiter per distinct number of points
 
-function extractApiKey(req: Request): string | null {
-  const headerKey = req.headers['x-api-key'];
-  if (headerKey && typeof headerKey === 'string') {
-    return headerKey;
-  }
+const LIMIT_WINDOWS: Record<RateLimitCategory, { duration: number; blockDuration: number }> = {
+  general: { duration: 60, blockDuration: 60 },
+  scrape: { duration: 60, blockDuration: 120 },
+  batch: { duration: 300, blockDuration: 300 },
+  crawler: { duration: 300, blockDuration: 600 },
+};
 
-  const authHeader = req.headers.authorization;
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.slice(7);
+const _keyLimiters = new Map<string, RateLimiterAbstract>();
+
+const getKeyLimiter = (category: RateLimitCategory, key?: IApiKey): RateLimiterAbstract | null => {
+  const points = key?.rateLimits?.[category];
+  if (!points) return null;
+
+  const cacheKey = `${category}:${points}`;
+  let limiter = _keyLimiters.get(cacheKey);
+  if (!limiter) {
+    limiter = createLimiter({
+      keyPrefix: `key_${category}_${points}`,
+      points,
+      ...LIMIT_WINDOWS[category],
+    });
+    _keyLimiters.set(cacheKey, limiter);
   }
+  return limiter;
+};
 
-  if (req.query.api_key && typeof req.query.api_key === 'string') {
-    return req.query.api_key;
+const describeKeyLimit = (category: RateLimitCategory, client: ClientIdentity): string | undefined => {
+  const points = client.resolution.key?.rateLimits?.[category];
+  if (!points) return undefined;
+
+  const minutes = LIMIT_WINDOWS[category].duration / 60;
+  return `${points} requests per ${minutes === 1 ? 'minute' : `${minutes} minutes`}`;
+};
+
+/**
+ * Limiter that applies to a client (limits of a stored key override its tier)
+ */
+const getLimiter = (category: RateLimitCategory, tier: ClientTier, key?: IApiKey): RateLimiterAbstract => {
+  const keyLimiter = getKeyLimiter(category, key);
+  if (keyLimiter) return keyLimiter;
+
+  switch (category) {
+    case 'general':
+      return tier === 'premium' ? getPremiumLimiter()
+        : tier === 'authenticated' ? getAuthenticatedLimiter()
+          : getAnonymousLimiter();
+    case 'scrape':
+      return tier === 'premium' ? getPremiumScrapeLimiter()
+        : tier === 'authenticated' ? getAuthenticatedScrapeLimiter()
+          : getAnonymousScrapeLimiter();
+    case 'batch':
+      return tier === 'premium' ? getPremiumBatchLimiter()
+        : tier === 'authenticated' ? getAuthenticatedBatchLimiter()
+          : getAnonymousBatchLimiter();
+    case 'crawler':
+      // Anonymous crawls (development only) count against the authenticated limits
+      return tier === 'premium' ? getPremiumCrawlerLimiter() : getAuthenticatedCrawlerLimiter();
   }
+};
 
-  return null;
-}
+// ============================================
+// Helper Functions
+// ============================================
 
-function isValidApiKey(key: string | null): boolean {
-  if (!key) return false;
-  const validKeys = getApiKeys();
-  return validKeys.has(key);
+type ClientTier = 'anonymous' | 'authenticated' | 'premium';
+
+interface ClientIdentity {
+  apiKey: string | null;
+  tier: ClientTier;
+  resolution: ApiKeyResolution;
 }
 
 function getClientId(req: Request): string {
   return req.ip || req.socket.remoteAddress || 'unknown';
 }
 
-function getUserTier(apiKey: string | null, isValid: boolean): 'anonymous' | 'authenticated' | 'premium' {
-  if (!isValid) return 'anonymous';
-  if (isPremiumKey(apiKey)) return 'premium';
-  return 'authenticated';
+/**
+ * Key the limiters count under: the IP for anonymous clients, the start of the API key otherwise
+ */
+function getLimiterKey(tier: ClientTier, id: string): string {
+  return tier === 'anonymous' ? `anon:${id}` : `${tier}:${id.slice(0, 12)}`;
+}
+
+function getRequestLimiterKey(req: Request, client: ClientIdentity): string {
+  return getLimiterKey(client.tier, client.tier === 'anonymous' ? getClientId(req) : client.apiKey as string);
+}
+
+/**
+ * Resolve the caller once per request (the global limiter runs first, route limiters reuse it)
+ */
+async function identifyClient(req: Request): Promise<ClientIdentity> {
+  const cached = (req as any).clientIdentity as ClientIdentity | undefined;
+  if (cached) return cached;
+
+  const apiKey = extractApiKey(req);
+  const resolution = await resolveApiKey(apiKey);
+  const client: ClientIdentity = {
+    apiKey,
+    tier: resolution.valid ? resolution.tier || 'authenticated' : 'anonymous',
+    resolution
+  };
+
+  (req as any).clientIdentity = client;
+  (req as any).isAuthenticated = resolution.valid;
+  (req as any).clientType = client.tier;
+  (req as any).isPremium = client.tier === 'premium';
+  (req as any).apiKeyHash = resolution.valid && apiKey ? hashApiKey(apiKey) : undefined; // Owner of webhooks, jobs and crawls
+  (req as any).apiKeyScopes = resolution.scopes;
+  (req as any).apiKeyId = resolution.key?.keyId;
+
+  return client;
+}
+
+/**
+ * Revoked and expired keys get an explicit error instead of falling back to anonymous limits
+ */
+function rejectRefusedKey(client: ClientIdentity, res: Response): boolean {
+  if (!client.resolution.rejection) return false;
+
+  res.status(401).json({
+    success: false,
+    error: 'Invalid API Key',
+    message: client.resolution.rejection
+  });
+  return true;
+}
+
+function rejectOverQuota(client: ClientIdentity, res: Response): boolean {
+  const key = client.resolution.key;
+  if (!key || !ApiKeyService.getInstance().isQuotaExceeded(key)) return false;
+
+  res.status(429).json({
+    success: false,
+    error: 'Quota Exceeded',
+    message: `Monthly quota of ${key.monthlyPageQuota} pages reached. It resets at the start of next month.`,
+    quota: key.monthlyPageQuota,
+    used: key.usage.pages,
+    period: key.usage.period
+  });
+  return true;
 }
 
 // ============================================
@@ -259,23 +372,19 @@ export const rateLimiter = async (
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const apiKey = extractApiKey(req);
-  const isAuthenticated = isValidApiKey(apiKey);
-  const tier = getUserTier(apiKey, isAuthenticated);
-  const clientId = tier === 'anonymous' ? `anon:${getClientId(req)}` : `${tier}:${apiKey?.slice(0, 12)}`;
-  const isProd = isProduction();
+  const client = await identifyClient(req);
+  if (rejectRefusedKey(client, res)) return;
 
-  (req as any).isAuthenticated = isAuthenticated;
-  (req as any).clientType = tier;
-  (req as any).isPremium = tier === 'premium';
+  const { tier } = client;
+  const clientId = getRequestLimiterKey(req, client);
+  const isProd = isProduction();
 
   try {
-    const limiter = tier === 'premium' ? getPremiumLimiter()
-      : tier === 'authenticated' ? getAuthenticatedLimiter()
-        : getAnonymousLimiter();
+    const limiter = getLimiter('general', tier, client.resolution.key);
     await limiter.consume(clientId);
     next();
   } catch (rejRes: any) {
+    recordRateLimitRejection(tier, 'general');
     const secs = Math.round(rejRes.msBeforeNext / 1000) || 1;
     res.set('Retry-After', String(secs));
     res.status(429).json({
@@ -286,11 +395,11 @@ export const rateLimiter = async (
         : `Rate limit exceeded. Try again in ${secs} seconds.`,
       retryAfter: secs,
       tier: tier,
-      limit: tier === 'premium'
+      limit: describeKeyLimit('general', client) || (tier === 'premium'
         ? (isProd ? '1000 requests per minute' : '10000 requests per minute')
         : tier === 'authenticated'
           ? (isProd ? '100 requests per minute' : '1000 requests per minute')
-          : (isProd ? '5 requests per hour' : '50 requests per minute'),
+          : (isProd ? '5 requests per hour' : '50 requests per minute')),
       getApiKey: tier === 'anonymous' ? 'Contact admin or visit /docs for API key information' : undefined,
     });
   }
@@ -301,22 +410,21 @@ export const scrapeRateLimiter = async (
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const apiKey = extractApiKey(req);
-  const isAuthenticated = isValidApiKey(apiKey);
-  const tier = getUserTier(apiKey, isAuthenticated);
-  const clientId = tier === 'anonymous' ? `anon:${getClientId(req)}` : `${tier}:${apiKey?.slice(0, 12)}`;
+  const client = await identifyClient(req);
+  if (rejectRefusedKey(client, res)) return;
+
+  const { tier } = client;
+  const clientId = getRequestLimiterKey(req, client);
   const isProd = isProduction();
 
-  (req as any).isAuthenticated = isAuthenticated;
-  (req as any).clientType = tier;
+  if (rejectOverQuota(client, res)) return;
 
   try {
-    const limiter = tier === 'premium' ? getPremiumScrapeLimiter()
-      : tier === 'authenticated' ? getAuthenticatedScrapeLimiter()
-        : getAnonymousScrapeLimiter();
+    const limiter = getLimiter('scrape', tier, client.resolution.key);
     await limiter.consume(clientId);
     next();
   } catch (rejRes: any) {
+    recordRateLimitRejection(tier, 'scrape');
     const secs = Math.round(rejRes.msBeforeNext / 1000) || 1;
     res.set('Retry-After', String(secs));
     res.status(429).json({
@@ -327,11 +435,11 @@ export const scrapeRateLimiter = async (
         : `Too many scraping requests. Try again in ${secs} seconds.`,
       retryAfter: secs,
       tier: tier,
-      limit: tier === 'premium'
+      limit: describeKeyLimit('scrape', client) || (tier === 'premium'
         ? (isProd ? '200 requests per minute' : '1000 requests per minute')
         : tier === 'authenticated'
           ? (isProd ? '20 requests per minute' : '100 requests per minute')
-          : (isProd ? '3 requests per hour' : '50 requests per minute')
+          : (isProd ? '3 requests per hour' : '50 requests per minute'))
     });
   }
 };
@@ -341,22 +449,21 @@ export const batchScrapeRateLimiter = async (
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const apiKey = extractApiKey(req);
-  const isAuthenticated = isValidApiKey(apiKey);
-  const tier = getUserTier(apiKey, isAuthenticated);
-  const clientId = tier === 'anonymous' ? `anon:${getClientId(req)}` : `${tier}:${apiKey?.slice(0, 12)}`;
+  const client = await identifyClient(req);
+  if (rejectRefusedKey(client, res)) return;
+
+  const { tier } = client;
+  const clientId = getRequestLimiterKey(req, client);
   const isProd = isProduction();
 
-  (req as any).isAuthenticated = isAuthenticated;
-  (req as any).clientType = tier;
+  if (rejectOverQuota(client, res)) return;
 
   try {
-    const limiter = tier === 'premium' ? getPremiumBatchLimiter()
-      : tier === 'authenticated' ? getAuthenticatedBatchLimiter()
-        : getAnonymousBatchLimiter();
+    const limiter = getLimiter('batch', tier, client.resolution.key);
     await limiter.consume(clientId);
     next();
   } catch (rejRes: any) {
+    recordRateLimitRejection(tier, 'batch');
     const secs = Math.round(rejRes.msBeforeNext / 1000) || 1;
     res.set('Retry-After', String(secs));
     res.status(429).json({
@@ -367,11 +474,11 @@ export const batchScrapeRateLimiter = async (
         : `Too many batch scraping requests. Try again in ${secs} seconds.`,
       retryAfter: secs,
       tier: tier,
-      limit: tier === 'premium'
+      limit: describeKeyLimit('batch', client) || (tier === 'premium'
         ? (isProd ? '50 requests per 5 minutes (10 URLs each)' : '500 requests per 5 minutes')
         : tier === 'authenticated'
           ? (isProd ? '5 requests per 5 minutes (10 URLs each)' : '50 requests per 5 minutes')
-          : (isProd ? '1 request per hour (10 URLs max)' : '20 requests per 5 minutes')
+          : (isProd ? '1 request per hour (10 URLs max)' : '20 requests per 5 minutes'))
     });
   }
 };
@@ -381,14 +488,14 @@ export const crawlerRateLimiter = async (
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const apiKey = extractApiKey(req);
-  const isAuthenticated = isValidApiKey(apiKey);
-  const tier = getUserTier(apiKey, isAuthenticated);
-  const clientId = tier === 'anonymous' ? `anon:${getClientId(req)}` : `${tier}:${apiKey?.slice(0, 12)}`;
+  const client = await identifyClient(req);
+  if (rejectRefusedKey(client, res)) return;
+
+  const { tier } = client;
+  const clientId = getRequestLimiterKey(req, client);
   const isProd = isProduction();
 
-  (req as any).isAuthenticated = isAuthenticated;
-  (req as any).clientType = tier;
+  if (rejectOverQuota(client, res)) return;
 
   // In production, crawler requires authentication
   if (isProd && tier === 'anonymous') {
@@ -402,10 +509,11 @@ export const crawlerRateLimiter = async (
   }
 
   try {
-    const limiter = tier === 'premium' ? getPremiumCrawlerLimiter() : getAuthenticatedCrawlerLimiter();
+    const limiter = getLimiter('crawler', tier, client.resolution.key);
     await limiter.consume(clientId);
     next();
   } catch (rejRes: any) {
+    recordRateLimitRejection(tier, 'crawler');
     const secs = Math.round(rejRes.msBeforeNext / 1000) || 1;
     res.set('Retry-After', String(secs));
     res.status(429).json({
@@ -414,12 +522,64 @@ export const crawlerRateLimiter = async (
       message: `Too many crawler requests. Try again in ${secs} seconds.`,
       retryAfter: secs,
       tier: tier,
-      limit: tier === 'premium'
+      limit: describeKeyLimit('crawler', client) || (tier === 'premium'
         ? (isProd ? '30 requests per 5 minutes (200 pages each)' : '200 requests per 5 minutes')
-        : (isProd ? '3 requests per 5 minutes (200 pages max)' : '20 requests per 5 minutes')
+        : (isProd ? '3 requests per 5 minutes (200 pages max)' : '20 requests per 5 minutes'))
     });
   }
 };
 
+// ============================================
+// Inspection (admin API)
+// ============================================
+
+/**
+ * Client whose consumption is inspected or reset
+ */
+export interface RateLimitSubject {
+  tier: ClientTier;
+  id: string; // IP address of an anonymous client, API key (or its first 12 characters) otherwise
+  key?: IApiKey; // Stored key, its own limits apply
+}
+
+const RATE_LIMIT_CATEGORIES = Object.keys(LIMIT_WINDOWS) as RateLimitCategory[];
+
+/**
+ * Points consumed by a client in the current window of every limiter that applies to it
+ */
+export async function getRateLimitState(subject: RateLimitSubject) {
+  const limiterKey = getLimiterKey(subject.tier, subject.id);
+
+  return Promise.all(RATE_LIMIT_CATEGORIES.map(async category => {
+    const limiter = getLimiter(category, subject.tier, subject.key);
+    const res = await limiter.get(limiterKey);
+
+    return {
+      category,
+      points: limiter.points,
+      duration: limiter.duration,
+      consumed: res ? res.consumedPoints : 0,
+      remaining: res ? res.remainingPoints : limiter.points,
+      resetInSeconds: res ? Math.ceil(res.msBeforeNext / 1000) : 0,
+      blocked: res ? res.consumedPoints > limiter.points : false
+    };
+  }));
+}
+
+/**
+ * Clear the consumption (and blocks) of a client, returns the categories that had any
+ */
+export async function resetRateLimits(
+  subject: RateLimitSubject,
+  categories: RateLimitCategory[] = RATE_LIMIT_CATEGORIES
+): Promise<RateLimitCategory[]> {
+  const limiterKey = getLimiterKey(subject.tier, subject.id);
+
+  const deleted = await Promise.all(categories.map(category =>
+    getLimiter(category, subject.tier, subject.key).delete(limiterKey)
+  ));
+  return categories.filter((_, index) => deleted[index]);
+}
+
 // Keep old export names for compatibility
 export { rateLimiter as generalRateLimiter };
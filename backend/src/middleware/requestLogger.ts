@@ -6,51 +6,33 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import fs from 'fs';
-import path from 'path';
-
-// Log to file in production
-const LOG_TO_FILE = process.env.NODE_ENV === 'production';
-const LOG_FILE = path.join(process.cwd(), 'logs', 'requests.log');
-
-// Ensure logs directory exists
-if (LOG_TO_FILE) {
-    const logsDir = path.dirname(LOG_FILE);
-    if (!fs.existsSync(logsDir)) {
-        fs.mkdirSync(logsDir, { recursive: true });
-    }
-}
+import { v4 as uuidv4 } from 'uuid';
+import { UsageService } from '../services/usageService';
+import { recordHttpRequest } from '../utils/metrics';
+import { logger, runWithLogContext } from '../utils/logger';
 
-interface RequestLogEntry {
-    timestamp: string;
-    method: string;
-    path: string;
-    ip: string;
-    userAgent: string;
-    statusCode?: number;
-    duration?: number;
-    apiKeyId?: string;
-    error?: string;
-}
+// Incoming IDs are kept when they look like IDs (a proxy or the client may set them)
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// EventSource cannot send headers, so event streams pass the API key in the query string
+const API_KEY_PARAM = /([?&]api_key=)[^&#]*/gi;
 
 /**
- * Format log entry as JSON line
+ * URL with the API key query parameter masked, for logging
  */
-function formatLogEntry(entry: RequestLogEntry): string {
-    return JSON.stringify(entry);
+export function redactUrl(url: string): string {
+    return url.replace(API_KEY_PARAM, '$1[REDACTED]');
 }
 
 /**
- * Write log entry to file
+ * Request ID from the X-Request-Id header, or a new one
  */
-function writeToFile(entry: string): void {
-    if (!LOG_TO_FILE) return;
-
-    fs.appendFile(LOG_FILE, entry + '\n', (err) => {
-        if (err) {
-            console.error('Failed to write to log file:', err);
-        }
-    });
+function getRequestId(req: Request): string {
+    const incoming = req.headers['x-request-id'];
+    if (typeof incoming === 'string' && VALID_REQUEST_ID.test(incoming)) {
+        return incoming;
+    }
+    return uuidv4();
 }
 
 /**
@@ -71,55 +53,55 @@ function getClientIP(req: Request): string {
 
 /**
  * Request logging middleware
+ *
+ * Assigns the request ID (echoed in the X-Request-Id response header) and runs
+ * the rest of the request in a log context, so every line it logs carries it.
  */
 export function requestLogger(req: Request, res: Response, next: NextFunction): void {
     const startTime = Date.now();
+    const requestId = getRequestId(req);
+    const log = logger.child({ requestId });
+
+    (req as any).requestId = requestId;
+    res.setHeader('X-Request-Id', requestId);
 
-    const logEntry: RequestLogEntry = {
-        timestamp: new Date().toISOString(),
-        method: req.method,
-        path: req.originalUrl,
-        ip: getClientIP(req),
-        userAgent: req.headers['user-agent'] || 'unknown',
-        apiKeyId: (req as any).apiKeyId
-    };
+    const ip = getClientIP(req);
+    const userAgent = req.headers['user-agent'] || 'unknown';
 
     // Log request details on response finish
     res.on('finish', () => {
-        logEntry.statusCode = res.statusCode;
-        logEntry.duration = Date.now() - startTime;
-
-        const logString = formatLogEntry(logEntry);
-
-        // Console output (color-coded by status)
-        if (process.env.NODE_ENV !== 'production') {
-            const statusColor = res.statusCode >= 500 ? '\x1b[31m' : // Red for server errors
-                res.statusCode >= 400 ? '\x1b[33m' : // Yellow for client errors
-                    res.statusCode >= 300 ? '\x1b[36m' : // Cyan for redirects
-                        '\x1b[32m'; // Green for success
-            const reset = '\x1b[0m';
-
-            console.log(
-                `${statusColor}${req.method} ${req.originalUrl}${reset}`,
-                `${res.statusCode}`,
-                `${logEntry.duration}ms`,
-                `[${logEntry.ip}]`
-            );
+        const duration = Date.now() - startTime;
+
+        // Count the request against the API key and in the metrics (route pattern, not the concrete URL)
+        const usageTarget = UsageService.targetFor(req);
+        UsageService.getInstance().record({ ...usageTarget, requests: 1 });
+        recordHttpRequest(req.method, usageTarget.endpoint, res.statusCode, duration);
+
+        const fields = {
+            method: req.method,
+            path: redactUrl(req.originalUrl),
+            status: res.statusCode,
+            duration,
+            ip,
+            userAgent,
+            apiKeyId: (req as any).apiKeyId // Set by the rate limiter after this middleware ran
+        };
+
+        if (res.statusCode >= 500) {
+            log.error('Request completed', fields);
+        } else if (res.statusCode >= 400) {
+            log.warn('Request completed', fields);
+        } else {
+            log.info('Request completed', fields);
         }
-
-        // Write to file in production
-        writeToFile(logString);
     });
 
     // Log errors
     res.on('error', (error) => {
-        logEntry.error = error.message;
-        const logString = formatLogEntry(logEntry);
-        writeToFile(logString);
-        console.error('Request error:', error);
+        log.error('Request error', { method: req.method, path: redactUrl(req.originalUrl), ip, error });
     });
 
-    next();
+    runWithLogContext({ requestId }, next);
 }
 
 /**
@@ -131,23 +113,13 @@ export function logSecurityEvent(event: {
     details: string;
     path?: string;
 }): void {
-    const entry = {
-        timestamp: new Date().toISOString(),
-        type: 'SECURITY',
+    logger.warn('Security event', {
+        type: 'security',
         event: event.type,
         ip: event.ip,
         details: event.details,
         path: event.path
-    };
-
-    console.warn('🚨 Security Event:', JSON.stringify(entry));
-
-    if (LOG_TO_FILE) {
-        const securityLogFile = path.join(process.cwd(), 'logs', 'security.log');
-        fs.appendFile(securityLogFile, JSON.stringify(entry) + '\n', (err) => {
-            if (err) console.error('Failed to write security log:', err);
-        });
-    }
+    });
 }
 
-export default { requestLogger, logSecurityEvent };
+export default { requestLogger, logSecurityEvent, redactUrl };
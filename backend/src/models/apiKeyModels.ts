@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const API_KEY_SCOPES = ['scrape', 'batch', 'crawler', 'export', 'admin'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+export type ApiKeyTier = 'authenticated' | 'premium';
+export type RateLimitCategory = 'general' | 'scrape' | 'batch' | 'crawler';
+
+// API key issued through the admin API (only the SHA-256 hash of the key is stored)
+export interface IApiKey extends Document {
+  keyId: string;
+  keyHash: string;
+  keyPrefix: string; // Start of the key, to recognise it in listings
+  owner: string;
+  label?: string;
+  scopes: ApiKeyScope[];
+  tier: ApiKeyTier;
+  rateLimits?: Partial<Record<RateLimitCategory, number>>; // Requests per window, overrides the tier limits
+  monthlyPageQuota?: number; // Unlimited when unset
+  usage: {
+    period: string; // Month the count belongs to (YYYY-MM)
+    pages: number;
+  };
+  expiresAt?: Date;
+  revoked: boolean;
+  revokedAt?: Date;
+  rotatedAt?: Date;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>({
+  keyId: { type: String, required: true, unique: true, index: true },
+  keyHash: { type: String, required: true, unique: true, index: true },
+  keyPrefix: { type: String, required: true },
+  owner: { type: String, required: true },
+  label: { type: String },
+  scopes: [{ type: String, enum: API_KEY_SCOPES }],
+  tier: {
+    type: String,
+    enum: ['authenticated', 'premium'],
+    default: 'authenticated'
+  },
+  rateLimits: {
+    general: { type: Number },
+    scrape: { type: Number },
+    batch: { type: Number },
+    crawler: { type: Number }
+  },
+  monthlyPageQuota: { type: Number },
+  usage: {
+    period: { type: String, default: '' },
+    pages: { type: Number, default: 0 }
+  },
+  expiresAt: { type: Date },
+  revoked: { type: Boolean, default: false },
+  revokedAt: { type: Date },
+  rotatedAt: { type: Date },
+  lastUsedAt: { type: Date }
+}, {
+  timestamps: true,
+  collection: 'apikeys'
+});
+
+// Performance indexes for API keys
+apiKeySchema.index({ owner: 1, createdAt: -1 }); // Admin listing by owner
+
+// Export models
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
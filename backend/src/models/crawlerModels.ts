@@ -1,11 +1,17 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { IRequestWebhook, requestWebhookSchema } from './webhookModels';
+import { StructuredEntity } from '../utils/structuredDataParser';
 
 // Crawl Session Model
 export interface ICrawlSession extends Document {
   sessionId: string;
   domain: string;
   startUrl: string;
+  parentSessionId?: string; // Set when this session is an incremental re-crawl
+  apiKeyHash?: string; // API key that started the crawl (its registered webhooks get the events)
+  webhook?: IRequestWebhook; // Webhook passed with the crawl request
   status: 'pending' | 'running' | 'paused' | 'completed' | 'failed';
+  recoveryAttempts: number; // Automatic resumes after a server restart (reset by a manual resume)
   config: {
     maxPages: number;
     maxDepth: number;
@@ -14,6 +20,15 @@ export interface ICrawlSession extends Document {
     concurrent: number;
     includePatterns: string[];
     excludePatterns: string[];
+    seedFromSitemaps?: boolean;
+    followPagination?: boolean;
+    infiniteScroll?: {
+      loadMoreSelector?: string;
+      itemSelector?: string;
+      maxIterations?: number;
+      maxItems?: number;
+      idleTimeout?: number;
+    };
     authentication?: {
       type: 'none' | 'basic' | 'form' | 'bearer' | 'cookie';
       credentials?: {
@@ -50,6 +65,11 @@ export interface ICrawlSession extends Document {
     processedUrls: number;
     failedUrls: number;
     extractedItems: number;
+    // Re-crawl change tracking (relative to the parent session)
+    newUrls: number;
+    changedUrls: number;
+    unchangedUrls: number;
+    removedUrls: number;
     startTime: Date;
     endTime?: Date;
     estimatedCompletion?: Date;
@@ -62,12 +82,16 @@ const crawlSessionSchema = new Schema<ICrawlSession>({
   sessionId: { type: String, required: true, unique: true, index: true },
   domain: { type: String, required: true, index: true },
   startUrl: { type: String, required: true },
+  parentSessionId: { type: String, index: true },
+  apiKeyHash: { type: String },
+  webhook: { type: requestWebhookSchema },
   status: { 
     type: String, 
     enum: ['pending', 'running', 'paused', 'completed', 'failed'],
     default: 'pending',
     index: true
   },
+  recoveryAttempts: { type: Number, default: 0 },
   config: {
     maxPages: { type: Number, default: 100 },
     maxDepth: { type: Number, default: 5 },
@@ -76,6 +100,15 @@ const crawlSessionSchema = new Schema<ICrawlSession>({
     concurrent: { type: Number, default: 3 },
     includePatterns: [{ type: String }],
     excludePatterns: [{ type: String }],
+    seedFromSitemaps: { type: Boolean, default: false },
+    followPagination: { type: Boolean, default: true },
+    infiniteScroll: {
+      loadMoreSelector: { type: String },
+      itemSelector: { type: String },
+      maxIterations: { type: Number },
+      maxItems: { type: Number },
+      idleTimeout: { type: Number }
+    },
     authentication: {
       type: { 
         type: String, 
@@ -127,6 +160,10 @@ const crawlSessionSchema = new Schema<ICrawlSession>({
     processedUrls: { type: Number, default: 0 },
     failedUrls: { type: Number, default: 0 },
     extractedItems: { type: Number, default: 0 },
+    newUrls: { type: Number, default: 0 },
+    changedUrls: { type: Number, default: 0 },
+    unchangedUrls: { type: Number, default: 0 },
+    removedUrls: { type: Number, default: 0 },
     startTime: { type: Date, default: Date.now },
     endTime: { type: Date },
     estimatedCompletion: { type: Date },
@@ -150,6 +187,7 @@ export interface IUrlQueue extends Document {
   depth: number;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   parentUrl?: string;
+  isPagination?: boolean; // Next page of a listing, crawled regardless of depth
   attempts: number;
   lastError?: string;
   discoveredAt: Date;
@@ -168,6 +206,7 @@ const urlQueueSchema = new Schema<IUrlQueue>({
     index: true
   },
   parentUrl: { type: String },
+  isPagination: { type: Boolean, default: false },
   attempts: { type: Number, default: 0 },
   lastError: { type: String },
   discoveredAt: { type: Date, default: Date.now },
@@ -199,15 +238,21 @@ export interface IRawContent extends Document {
     charset: string;
     language?: string;
     lastModified?: Date;
-    structuredData?: any;
+    etag?: string;
+    scrollCycles?: number; // Infinite scroll / "load more" cycles run before capture
+    responseTime?: number; // ms until the page loaded
+    contentLength?: number; // Bytes of the HTML as captured
+    structuredData?: StructuredEntity[]; // JSON-LD, Microdata and RDFa entities of the page
     // Phase 3: Structured extraction fields
     extractedData?: {
       schema: string;
       version: string;
       fields: { [key: string]: any };
+      items?: Array<{ fields: { [key: string]: any }; qualityScore: number }>; // Records of a list schema
       nestedStructures: any[];
       qualityScore: number;
       extractionMethod: 'pattern' | 'selector' | 'heuristic';
+      structuredDataSource?: 'json-ld' | 'microdata' | 'rdfa';
       extractedAt: Date;
     };
   };
@@ -248,17 +293,24 @@ const rawContentSchema = new Schema<IRawContent>({
     charset: { type: String, required: true },
     language: { type: String },
     lastModified: { type: Date },
+    etag: { type: String },
+    scrollCycles: { type: Number },
+    responseTime: { type: Number },
+    contentLength: { type: Number },
+    structuredData: { type: [Schema.Types.Mixed], default: undefined },
     // Phase 3: Structured extraction fields
     extractedData: {
       schema: { type: String },
       version: { type: String },
       fields: { type: Schema.Types.Mixed },
+      items: { type: [{ _id: false, fields: Schema.Types.Mixed, qualityScore: Number }], default: undefined },
       nestedStructures: [{ type: Schema.Types.Mixed }],
       qualityScore: { type: Number, min: 0, max: 1 },
       extractionMethod: {
         type: String,
         enum: ['pattern', 'selector', 'heuristic']
       },
+      structuredDataSource: { type: String, enum: ['json-ld', 'microdata', 'rdfa'] },
       extractedAt: { type: Date }
     }
   },
@@ -351,8 +403,66 @@ crawlPatternSchema.index({ domain: 1, patternType: 1, confidence: -1 }); // Main
 crawlPatternSchema.index({ lastUsed: -1 }); // For cleanup of unused patterns
 crawlPatternSchema.index({ successRate: -1, usageCount: -1 }); // For pattern quality queries
 
+// Crawl Schedule Model (recurring crawls)
+export interface ICrawlScheduleRun {
+  scheduledFor: Date;
+  startedAt: Date;
+  status: 'started' | 'skipped' | 'failed';
+  sessionId?: string;
+  error?: string;
+}
+
+export interface ICrawlSchedule extends Document {
+  scheduleId: string;
+  name: string;
+  cronExpression: string;
+  timezone: string;
+  startUrl: string;
+  config: ICrawlSession['config'];
+  enabled: boolean;
+  apiKeyHash?: string; // API key that created the schedule (its runs are started as that key)
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastSessionId?: string;
+  runHistory: ICrawlScheduleRun[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const crawlScheduleSchema = new Schema<ICrawlSchedule>({
+  scheduleId: { type: String, required: true, unique: true, index: true },
+  name: { type: String, required: true },
+  cronExpression: { type: String, required: true },
+  timezone: { type: String, default: 'UTC' },
+  startUrl: { type: String, required: true },
+  config: { type: Schema.Types.Mixed, required: true },
+  enabled: { type: Boolean, default: true },
+  apiKeyHash: { type: String },
+  nextRunAt: { type: Date },
+  lastRunAt: { type: Date },
+  lastSessionId: { type: String },
+  runHistory: [{
+    scheduledFor: { type: Date, required: true },
+    startedAt: { type: Date, required: true },
+    status: {
+      type: String,
+      enum: ['started', 'skipped', 'failed'],
+      required: true
+    },
+    sessionId: { type: String },
+    error: { type: String }
+  }]
+}, {
+  timestamps: true,
+  collection: 'crawlschedules'
+});
+
+// Performance indexes for schedules
+crawlScheduleSchema.index({ enabled: 1, nextRunAt: 1 }); // For finding due schedules
+
 // Export models
 export const CrawlSession = mongoose.model<ICrawlSession>('CrawlSession', crawlSessionSchema);
 export const UrlQueue = mongoose.model<IUrlQueue>('UrlQueue', urlQueueSchema);
 export const RawContent = mongoose.model<IRawContent>('RawContent', rawContentSchema);
-export const CrawlPattern = mongoose.model<ICrawlPattern>('CrawlPattern', crawlPatternSchema); 
\ No newline at end of file
+export const CrawlPattern = mongoose.model<ICrawlPattern>('CrawlPattern', crawlPatternSchema);
+export const CrawlSchedule = mongoose.model<ICrawlSchedule>('CrawlSchedule', crawlScheduleSchema);
\ No newline at end of file
@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { FieldTransform } from '../utils/fieldTransforms';
+
+export const SCHEMA_FIELD_TYPES = ['text', 'number', 'date', 'url', 'email', 'phone', 'currency', 'array', 'object'] as const;
+
+export type SchemaFieldType = typeof SCHEMA_FIELD_TYPES[number];
+
+export interface ISchemaField {
+  type: SchemaFieldType;
+  selector?: string;
+  xpath?: string;
+  attribute?: string;
+  regex?: string;
+  transforms?: FieldTransform[];
+  required?: boolean;
+  multiple?: boolean;
+}
+
+// Extraction schema defined by an API key, one document per version (updates add a version)
+export interface IExtractionSchemaVersion extends Document {
+  schemaId: string;
+  apiKeyHash: string;
+  name: string;
+  version: number;
+  description?: string;
+  itemSelector?: string; // List mode: one record per matching element, field selectors relative to it
+  fields: Record<string, ISchemaField>;
+  deletedAt?: Date; // Deleted schemas are hidden, but crawls pinned to a version keep resolving it
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const extractionSchemaVersionSchema = new Schema<IExtractionSchemaVersion>({
+  schemaId: { type: String, required: true, unique: true, index: true },
+  apiKeyHash: { type: String, required: true },
+  name: { type: String, required: true },
+  version: { type: Number, required: true, min: 1 },
+  description: { type: String },
+  itemSelector: { type: String },
+  fields: { type: Schema.Types.Mixed, required: true }, // Field names are user-defined
+  deletedAt: { type: Date }
+}, {
+  timestamps: true,
+  collection: 'extractionschemas',
+  minimize: false
+});
+
+// Performance indexes for extraction schemas
+extractionSchemaVersionSchema.index({ apiKeyHash: 1, name: 1, version: -1 }, { unique: true }); // Latest version first
+
+// Export models
+export const ExtractionSchemaVersion = mongoose.model<IExtractionSchemaVersion>('ExtractionSchema', extractionSchemaVersionSchema);
@@ -0,0 +1,94 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IRequestWebhook, requestWebhookSchema } from './webhookModels';
+
+export type ScrapeJobType = 'scrape' | 'batch-scrape';
+export type ScrapeJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Asynchronous scrape job (expires automatically via the TTL index on expiresAt)
+export interface IScrapeJob extends Document {
+  jobId: string;
+  type: ScrapeJobType;
+  status: ScrapeJobStatus;
+  urls: string[];
+  options: any; // Validated request options, kept so queued jobs can run after a restart
+  blockedUrls: Array<{
+    url: string;
+    reason: string;
+  }>;
+  progress: {
+    total: number;
+    completed: number;
+    failed: number;
+    items: Array<{
+      url: string;
+      status: 'pending' | 'running' | 'completed' | 'failed';
+      error?: string;
+      completedAt?: Date;
+    }>;
+  };
+  result?: any;
+  error?: string;
+  apiKeyHash?: string; // API key that queued the job (its registered webhooks get the events)
+  webhook?: IRequestWebhook; // Webhook passed with the request
+  requestId?: string; // X-Request-Id of the request that queued the job (its logs carry it too)
+  startedAt?: Date;
+  completedAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scrapeJobSchema = new Schema<IScrapeJob>({
+  jobId: { type: String, required: true, unique: true, index: true },
+  type: {
+    type: String,
+    enum: ['scrape', 'batch-scrape'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued'
+  },
+  urls: [{ type: String }],
+  options: { type: Schema.Types.Mixed, default: {} },
+  blockedUrls: [{
+    _id: false,
+    url: { type: String },
+    reason: { type: String }
+  }],
+  progress: {
+    total: { type: Number, default: 0 },
+    completed: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    items: [{
+      _id: false,
+      url: { type: String, required: true },
+      status: {
+        type: String,
+        enum: ['pending', 'running', 'completed', 'failed'],
+        default: 'pending'
+      },
+      error: { type: String },
+      completedAt: { type: Date }
+    }]
+  },
+  result: { type: Schema.Types.Mixed },
+  error: { type: String },
+  apiKeyHash: { type: String },
+  webhook: { type: requestWebhookSchema },
+  requestId: { type: String },
+  startedAt: { type: Date },
+  completedAt: { type: Date },
+  expiresAt: { type: Date, required: true }
+}, {
+  timestamps: true,
+  collection: 'scrapejobs'
+});
+
+// Performance indexes for jobs
+scrapeJobSchema.index({ status: 1, createdAt: 1 }); // For requeueing after a restart
+scrapeJobSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL cleanup
+
+// Export models
+export const ScrapeJob = mongoose.model<IScrapeJob>('ScrapeJob', scrapeJobSchema);
@@ -0,0 +1,105 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Change Monitor Model
+export interface IMonitor extends Document {
+  monitorId: string;
+  apiKeyHash?: string; // API key that created the monitor (its registered webhooks get the changes)
+  name: string;
+  url: string;
+  selector?: string; // Only watch this CSS-selected region of the page
+  intervalMinutes: number;
+  options: {
+    forceMethod?: 'static' | 'dynamic' | 'stealth' | 'adaptive' | 'api';
+    userAgent?: string;
+    timeout?: number;
+  };
+  webhookUrl?: string;
+  webhookSecret?: string; // Signs change notifications, never returned by default queries
+  enabled: boolean;
+  nextCheckAt?: Date;
+  lastCheckedAt?: Date;
+  lastChangedAt?: Date;
+  lastStatus?: 'unchanged' | 'changed' | 'error';
+  lastError?: string;
+  versionCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const monitorSchema = new Schema<IMonitor>({
+  monitorId: { type: String, required: true, unique: true, index: true },
+  apiKeyHash: { type: String },
+  name: { type: String, required: true },
+  url: { type: String, required: true },
+  selector: { type: String },
+  intervalMinutes: { type: Number, required: true, min: 1 },
+  options: {
+    forceMethod: {
+      type: String,
+      enum: ['static', 'dynamic', 'stealth', 'adaptive', 'api']
+    },
+    userAgent: { type: String },
+    timeout: { type: Number }
+  },
+  webhookUrl: { type: String },
+  webhookSecret: { type: String, select: false },
+  enabled: { type: Boolean, default: true },
+  nextCheckAt: { type: Date },
+  lastCheckedAt: { type: Date },
+  lastChangedAt: { type: Date },
+  lastStatus: {
+    type: String,
+    enum: ['unchanged', 'changed', 'error']
+  },
+  lastError: { type: String },
+  versionCount: { type: Number, default: 0 }
+}, {
+  timestamps: true,
+  collection: 'monitors'
+});
+
+// Performance indexes for monitors
+monitorSchema.index({ enabled: 1, nextCheckAt: 1 }); // For finding due monitors
+monitorSchema.index({ apiKeyHash: 1, createdAt: -1 }); // For listing the monitors of a key
+
+// Monitor Version Model (one document per detected change)
+export interface IMonitorVersion extends Document {
+  monitorId: string;
+  version: number;
+  contentHash: string;
+  title?: string;
+  markdownContent: string;
+  diffStats?: {
+    linesAdded: number;
+    linesRemoved: number;
+    wordsAdded: number;
+    wordsRemoved: number;
+  };
+  scrapeMethod?: string;
+  createdAt: Date;
+}
+
+const monitorVersionSchema = new Schema<IMonitorVersion>({
+  monitorId: { type: String, required: true, index: true },
+  version: { type: Number, required: true },
+  contentHash: { type: String, required: true },
+  title: { type: String },
+  markdownContent: { type: String, required: true },
+  diffStats: {
+    linesAdded: { type: Number },
+    linesRemoved: { type: Number },
+    wordsAdded: { type: Number },
+    wordsRemoved: { type: Number }
+  },
+  scrapeMethod: { type: String }
+}, {
+  timestamps: true,
+  collection: 'monitorversions'
+});
+
+// Performance indexes for versions
+monitorVersionSchema.index({ monitorId: 1, version: -1 }, { unique: true }); // History and latest version lookups
+
+// Export models
+export const Monitor = mongoose.model<IMonitor>('Monitor', monitorSchema);
+export const MonitorVersion = mongoose.model<IMonitorVersion>('MonitorVersion', monitorVersionSchema);
@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const USAGE_METRICS = ['requests', 'scrapes', 'batchUrls', 'crawledPages', 'exports', 'browserSeconds'] as const;
+
+export type UsageMetric = typeof USAGE_METRICS[number];
+export type UsageCounters = Record<UsageMetric, number>;
+
+// Usage of one API key on one endpoint for one day (UTC), counters are only ever incremented
+export interface IUsageRecord extends Document, UsageCounters {
+  apiKeyHash?: string; // Unset for anonymous usage
+  date: string; // YYYY-MM-DD
+  endpoint: string; // Route pattern, e.g. /api/crawler/session/:sessionId/export
+  method: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const usageRecordSchema = new Schema<IUsageRecord>({
+  apiKeyHash: { type: String },
+  date: { type: String, required: true },
+  endpoint: { type: String, required: true },
+  method: { type: String, required: true },
+  requests: { type: Number, default: 0 },
+  scrapes: { type: Number, default: 0 },
+  batchUrls: { type: Number, default: 0 },
+  crawledPages: { type: Number, default: 0 },
+  exports: { type: Number, default: 0 },
+  browserSeconds: { type: Number, default: 0 }
+}, {
+  timestamps: true,
+  collection: 'usage'
+});
+
+// Performance indexes for usage
+usageRecordSchema.index({ apiKeyHash: 1, date: 1, endpoint: 1, method: 1 }, { unique: true }); // One bucket per key/day/endpoint
+usageRecordSchema.index({ date: 1 }); // Admin reports over all keys
+
+// Export models
+export const UsageRecord = mongoose.model<IUsageRecord>('UsageRecord', usageRecordSchema);
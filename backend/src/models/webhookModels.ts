@@ -0,0 +1,113 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const WEBHOOK_EVENTS = [
+  'crawl.started',
+  'crawl.page_extracted',
+  'crawl.completed',
+  'crawl.failed',
+  'batch.completed',
+  'job.completed',
+  'job.failed',
+  'export.ready',
+  'monitor.changed'
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Webhook passed with a single request (crawl, batch or async job)
+export interface IRequestWebhook {
+  url: string;
+  secret: string;
+  events?: WebhookEvent[]; // All events when omitted
+}
+
+// Embedded in crawl sessions and jobs, the secret is never returned by default queries
+export const requestWebhookSchema = new Schema<IRequestWebhook>({
+  url: { type: String, required: true },
+  secret: { type: String, required: true, select: false },
+  events: [{ type: String, enum: WEBHOOK_EVENTS }]
+}, { _id: false });
+
+// Webhook registered for an API key (receives events of everything started with that key)
+export interface IWebhook extends Document {
+  webhookId: string;
+  apiKeyHash: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  description?: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookSchema = new Schema<IWebhook>({
+  webhookId: { type: String, required: true, unique: true, index: true },
+  apiKeyHash: { type: String, required: true, index: true },
+  url: { type: String, required: true },
+  secret: { type: String, required: true, select: false },
+  events: [{ type: String, enum: WEBHOOK_EVENTS }],
+  description: { type: String },
+  enabled: { type: Boolean, default: true }
+}, {
+  timestamps: true,
+  collection: 'webhooks'
+});
+
+// Performance indexes for webhooks
+webhookSchema.index({ apiKeyHash: 1, enabled: 1, events: 1 }); // For finding subscribers of an event
+
+// Webhook Delivery Model (one document per event sent to one URL, kept 7 days)
+export interface IWebhookDelivery extends Document {
+  deliveryId: string;
+  webhookId?: string; // Unset for per-request webhooks
+  apiKeyHash?: string;
+  url: string;
+  secret: string;
+  event: WebhookEvent;
+  payload: any;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastAttemptAt?: Date;
+  responseStatus?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  replayOf?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>({
+  deliveryId: { type: String, required: true, unique: true, index: true },
+  webhookId: { type: String, index: true },
+  apiKeyHash: { type: String, index: true },
+  url: { type: String, required: true },
+  secret: { type: String, required: true, select: false },
+  event: { type: String, enum: WEBHOOK_EVENTS, required: true },
+  payload: { type: Schema.Types.Mixed, required: true },
+  status: {
+    type: String,
+    enum: ['pending', 'delivered', 'failed'],
+    default: 'pending'
+  },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date },
+  lastAttemptAt: { type: Date },
+  responseStatus: { type: Number },
+  lastError: { type: String },
+  deliveredAt: { type: Date },
+  replayOf: { type: String }
+}, {
+  timestamps: true,
+  collection: 'webhookdeliveries'
+});
+
+// Performance indexes for deliveries
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 }); // For finding due retries
+webhookDeliverySchema.index({ apiKeyHash: 1, createdAt: -1 }); // Delivery log
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 }); // TTL cleanup
+
+// Export models
+export const Webhook = mongoose.model<IWebhook>('Webhook', webhookSchema);
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
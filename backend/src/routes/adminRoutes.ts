@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/apiKeyController';
+import { UsageController } from '../controllers/usageController';
+import { RateLimitController } from '../controllers/rateLimitController';
+import { requireScope } from '../middleware/apiKeyAuth';
+
+const router = Router();
+const apiKeyController = new ApiKeyController();
+const usageController = new UsageController();
+const rateLimitController = new RateLimitController();
+
+// Every admin route needs a key with the admin scope
+router.use(requireScope('admin'));
+
+// API key management routes
+router.get('/keys', apiKeyController.getAllKeys);
+router.post('/keys', apiKeyController.createKey);
+router.get('/keys/:keyId', apiKeyController.getKey);
+router.put('/keys/:keyId', apiKeyController.updateKey);
+router.post('/keys/:keyId/rotate', apiKeyController.rotateKey);
+router.post('/keys/:keyId/revoke', apiKeyController.revokeKey);
+
+// Usage of all API keys
+router.get('/usage', usageController.getAllUsage);
+
+// Rate limit consumption of a key or IP (?ip=, ?keyId= or ?keyPrefix=)
+router.get('/rate-limits', rateLimitController.getRateLimits);
+router.delete('/rate-limits', rateLimitController.resetRateLimits);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ExtractionSchemaController } from '../controllers/extractionSchemaController';
+import { scrapeRateLimiter } from '../middleware/rateLimiter';
+import { requireScope } from '../middleware/apiKeyAuth';
+
+const router = Router();
+const extractionSchemaController = new ExtractionSchemaController();
+
+// Fetching a URL counts as a scrape, testing against raw HTML does not
+const whenFetchingUrl = (middleware: (req: Request, res: Response, next: NextFunction) => any) =>
+  (req: Request, res: Response, next: NextFunction) => (req.body?.url ? middleware(req, res, next) : next());
+
+// Schema test bench (iterate on selectors without starting a crawl)
+router.post('/test', whenFetchingUrl(scrapeRateLimiter), whenFetchingUrl(requireScope('scrape')), extractionSchemaController.testSchema);
+
+export default router;
@@ -3,6 +3,8 @@ import { readFileSync, existsSync, statSync } from 'fs';
 import { join } from 'path';
 import { isMongoDBConnected } from '../config/database';
 import { getConcurrencyStats } from '../utils/concurrencyLimiter';
+import { ScrapeJobService } from '../services/jobQueue';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
@@ -14,7 +16,7 @@ try {
   );
   version = packageJson.version;
 } catch (error) {
-  console.error('Could not read version from package.json');
+  logger.error('Could not read version from package.json', { error });
 }
 
 const isProduction = process.env.NODE_ENV === 'production';
@@ -80,7 +82,8 @@ router.get('/', (req: Request, res: Response) => {
     services: {
       mongodb: mongoConnected ? 'connected' : 'not configured',
       crawler: mongoConnected ? 'available' : 'requires MongoDB',
-      browsers: getConcurrencyStats()
+      browsers: getConcurrencyStats(),
+      jobs: ScrapeJobService.getInstance().getStats()
     },
 
     // Storage info
@@ -113,7 +116,11 @@ router.get('/', (req: Request, res: Response) => {
       docs: '/docs',
       quickScrape: '/api/scraper/scrape',
       batchScrape: '/api/scraper/batch-scrape',
+      capture: '/api/scraper/capture',
       crawler: mongoConnected ? '/api/crawler/start-domain-crawl' : null,
+      jobs: mongoConnected ? '/api/jobs/:jobId' : null,
+      webhooks: mongoConnected ? '/api/webhooks' : null,
+      usage: mongoConnected ? '/api/usage' : null,
       downloads: '/api/downloads/:filename'
     }
   });
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getJobController } from '../controllers/jobController';
+
+const router = Router();
+
+// Poll an async scrape or batch-scrape job
+router.get('/:jobId', getJobController);
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router, Request, Response } from 'express';
+import { metricsRegistry } from '../utils/metrics';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Prometheus scrape endpoint (no rate limiting; set METRICS_TOKEN to require Authorization: Bearer <token>)
+router.get('/', async (req: Request, res: Response) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    res.status(401).json({ success: false, message: 'Metrics token is required' });
+    return;
+  }
+
+  try {
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.end(await metricsRegistry.metrics());
+  } catch (error) {
+    logger.error('Error collecting metrics', { error });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to collect metrics',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { MonitorController } from '../controllers/monitorController';
+import { crawlerRateLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+const monitorController = new MonitorController();
+
+// Monitor management routes
+router.get('/', monitorController.getAllMonitors);
+router.post('/', crawlerRateLimiter, monitorController.createMonitor);
+router.get('/:monitorId', monitorController.getMonitor);
+router.put('/:monitorId', monitorController.updateMonitor);
+router.delete('/:monitorId', monitorController.deleteMonitor);
+router.post('/:monitorId/check', crawlerRateLimiter, monitorController.checkMonitor);
+
+// Version history and diff routes
+router.get('/:monitorId/versions', monitorController.getVersions);
+router.get('/:monitorId/versions/:version', monitorController.getVersion);
+router.get('/:monitorId/diff', monitorController.getDiff);
+
+export default router;
@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import { scrapeRateLimiter, batchScrapeRateLimiter } from '../middleware/rateLimiter';
+import { requireScope } from '../middleware/apiKeyAuth';
 import { 
   checkRobotsController, 
   scrapeStaticController,
   scrapeIntelligentController,
+  captureController,
   getAdaptiveStatsController,
   getSuccessRatesController,
   clearAdaptiveProfileController,
@@ -18,13 +20,16 @@ const router = Router();
 router.post('/check-robots', checkRobotsController);
 
 // Intelligent scraping endpoint (new default)
-router.post('/scrape', scrapeRateLimiter, scrapeIntelligentController);
+router.post('/scrape', scrapeRateLimiter, requireScope('scrape'), scrapeIntelligentController);
+
+// Screenshot / PDF capture endpoint (saved to exports for download)
+router.post('/capture', scrapeRateLimiter, requireScope('scrape'), captureController);
 
 // Batch scraping endpoint (scrape multiple URLs at once)
-router.post('/batch-scrape', batchScrapeRateLimiter, batchScrapeController);
+router.post('/batch-scrape', batchScrapeRateLimiter, requireScope('batch'), batchScrapeController);
 
 // Static scraping endpoint (legacy/fallback)
-router.post('/scrape-static', scrapeRateLimiter, scrapeStaticController);
+router.post('/scrape-static', scrapeRateLimiter, requireScope('scrape'), scrapeStaticController);
 
 // Adaptive scraping analytics and management
 router.get('/adaptive/stats', getAdaptiveStatsController);
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { UsageController } from '../controllers/usageController';
+
+const router = Router();
+const usageController = new UsageController();
+
+// Usage of the calling API key
+router.get('/', usageController.getUsage);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhookController';
+
+const router = Router();
+const webhookController = new WebhookController();
+
+// Delivery log and replay routes (before /:webhookId)
+router.get('/deliveries', webhookController.getDeliveries);
+router.get('/deliveries/:deliveryId', webhookController.getDelivery);
+router.post('/deliveries/:deliveryId/replay', webhookController.replayDelivery);
+
+// Webhook management routes
+router.get('/', webhookController.getAllWebhooks);
+router.post('/', webhookController.createWebhook);
+router.get('/:webhookId', webhookController.getWebhook);
+router.put('/:webhookId', webhookController.updateWebhook);
+router.delete('/:webhookId', webhookController.deleteWebhook);
+
+export default router;
@@ -0,0 +1,242 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { ApiKey, IApiKey, ApiKeyScope, ApiKeyTier, RateLimitCategory } from '../models/apiKeyModels';
+import { Webhook, WebhookDelivery } from '../models/webhookModels';
+import { CrawlSession, CrawlSchedule } from '../models/crawlerModels';
+import { ScrapeJob } from '../models/jobModels';
+import { UsageRecord } from '../models/usageModels';
+import { ExtractionSchemaVersion } from '../models/extractionSchemaModels';
+import { Monitor } from '../models/monitorModels';
+import { generateApiKey, hashApiKey } from '../middleware/apiKeyAuth';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
+
+export interface ApiKeyInput {
+  owner: string;
+  label?: string;
+  scopes: ApiKeyScope[];
+  tier?: ApiKeyTier;
+  rateLimits?: Partial<Record<RateLimitCategory, number>>;
+  monthlyPageQuota?: number | null;
+  expiresAt?: Date | null;
+}
+
+export interface ApiKeyFilters {
+  owner?: string;
+  includeRevoked?: boolean;
+}
+
+/**
+ * API keys stored in MongoDB
+ *
+ * Keys are looked up on every request, so lookups are cached for a short time
+ * (including misses). Changes made through this service clear the cache right
+ * away; other processes pick them up within CACHE_TTL.
+ */
+export class ApiKeyService {
+  private static instance: ApiKeyService;
+  private cache: Map<string, { key: IApiKey | null; expiresAt: number }> = new Map();
+  private readonly CACHE_TTL = 30 * 1000;
+  private readonly MAX_CACHE_SIZE = 10000;
+
+  public static getInstance(): ApiKeyService {
+    if (!ApiKeyService.instance) {
+      ApiKeyService.instance = new ApiKeyService();
+    }
+    return ApiKeyService.instance;
+  }
+
+  /**
+   * Month that page quotas are counted against (YYYY-MM, UTC)
+   */
+  static currentPeriod(): string {
+    return new Date().toISOString().slice(0, 7);
+  }
+
+  /**
+   * Find the stored key for a hash, null when it doesn't exist (or MongoDB is not connected)
+   */
+  async findByHash(keyHash: string): Promise<IApiKey | null> {
+    if (!isMongoDBConnected()) return null;
+
+    const cached = this.cache.get(keyHash);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.key;
+    }
+
+    const key = await ApiKey.findOne({ keyHash });
+    if (this.cache.size >= this.MAX_CACHE_SIZE) {
+      this.cache.clear();
+    }
+    this.cache.set(keyHash, { key, expiresAt: Date.now() + this.CACHE_TTL });
+
+    // Refreshed at most once per CACHE_TTL
+    if (key) {
+      ApiKey.updateOne({ keyHash }, { $set: { lastUsedAt: new Date() } })
+        .catch(error => logger.warn('Failed to update last use of API key', { keyId: key.keyId, error }));
+    }
+
+    return key;
+  }
+
+  /**
+   * Why a stored key can't be used, null if it can
+   */
+  getRejectionReason(key: IApiKey): string | null {
+    if (key.revoked) return 'This API key has been revoked.';
+    if (key.expiresAt && key.expiresAt.getTime() <= Date.now()) return 'This API key has expired.';
+    return null;
+  }
+
+  isQuotaExceeded(key: IApiKey): boolean {
+    if (!key.monthlyPageQuota) return false;
+    return key.usage?.period === ApiKeyService.currentPeriod() && key.usage.pages >= key.monthlyPageQuota;
+  }
+
+  /**
+   * Count pages against the monthly quota of a key
+   * Best effort: env keys and unknown hashes are ignored, errors are only logged
+   */
+  async recordPages(keyHash: string | undefined, pages: number): Promise<void> {
+    if (!keyHash || pages <= 0 || !isMongoDBConnected()) return;
+
+    const period = ApiKeyService.currentPeriod();
+
+    try {
+      const result = await ApiKey.updateOne(
+        { keyHash, 'usage.period': period },
+        { $inc: { 'usage.pages': pages } }
+      );
+
+      // First pages of a new month
+      if (result.matchedCount === 0) {
+        await ApiKey.updateOne(
+          { keyHash, 'usage.period': { $ne: period } },
+          { $set: { usage: { period, pages } } }
+        );
+      }
+
+      const cached = this.cache.get(keyHash)?.key;
+      if (cached) {
+        cached.usage = cached.usage?.period === period
+          ? { period, pages: cached.usage.pages + pages }
+          : { period, pages };
+      }
+    } catch (error) {
+      logger.warn('Failed to record API key usage', { error });
+    }
+  }
+
+  /**
+   * Issue a new key (the plain key is only returned here)
+   */
+  async createKey(input: ApiKeyInput): Promise<{ key: IApiKey; apiKey: string }> {
+    const apiKey = generateApiKey();
+
+    const key = await ApiKey.create({
+      keyId: uuidv4(),
+      keyHash: hashApiKey(apiKey),
+      keyPrefix: apiKey.slice(0, 12),
+      owner: input.owner,
+      label: input.label,
+      scopes: input.scopes,
+      tier: input.tier || 'authenticated',
+      rateLimits: input.rateLimits,
+      monthlyPageQuota: input.monthlyPageQuota ?? undefined,
+      usage: { period: ApiKeyService.currentPeriod(), pages: 0 },
+      expiresAt: input.expiresAt ?? undefined
+    });
+
+    logger.info('Created API key', { keyId: key.keyId, owner: key.owner });
+    return { key, apiKey };
+  }
+
+  async getKeys(filters: ApiKeyFilters = {}): Promise<IApiKey[]> {
+    return ApiKey.find({
+      ...(filters.owner && { owner: filters.owner }),
+      ...(!filters.includeRevoked && { revoked: false })
+    }).sort({ createdAt: -1 });
+  }
+
+  async getKey(keyId: string): Promise<IApiKey | null> {
+    return ApiKey.findOne({ keyId });
+  }
+
+  async updateKey(keyId: string, updates: Partial<ApiKeyInput>): Promise<IApiKey | null> {
+    const { monthlyPageQuota, expiresAt, ...rest } = updates;
+
+    // null clears a limit
+    const $unset: Record<string, 1> = {};
+    if (monthlyPageQuota === null) $unset.monthlyPageQuota = 1;
+    if (expiresAt === null) $unset.expiresAt = 1;
+
+    const key = await ApiKey.findOneAndUpdate(
+      { keyId },
+      {
+        $set: {
+          ...rest,
+          ...(monthlyPageQuota != null && { monthlyPageQuota }),
+          ...(expiresAt != null && { expiresAt })
+        },
+        ...(Object.keys($unset).length > 0 && { $unset })
+      },
+      { new: true }
+    );
+
+    if (key) this.invalidate(key.keyHash);
+    return key;
+  }
+
+  /**
+   * Replace the secret of a key, the old one stops working immediately
+   * Webhooks, jobs, crawls and usage of the old key move to the new one
+   */
+  async rotateKey(keyId: string): Promise<{ key: IApiKey; apiKey: string } | null> {
+    const existing = await ApiKey.findOne({ keyId, revoked: false });
+    if (!existing) return null;
+
+    const apiKey = generateApiKey();
+    const oldHash = existing.keyHash;
+    const newHash = hashApiKey(apiKey);
+
+    const key = await ApiKey.findOneAndUpdate(
+      { keyId, keyHash: oldHash },
+      { $set: { keyHash: newHash, keyPrefix: apiKey.slice(0, 12), rotatedAt: new Date() } },
+      { new: true }
+    );
+    if (!key) return null;
+
+    await Promise.all([
+      Webhook.updateMany({ apiKeyHash: oldHash }, { $set: { apiKeyHash: newHash } }),
+      WebhookDelivery.updateMany({ apiKeyHash: oldHash }, { $set: { apiKeyHash: newHash } }),
+      CrawlSession.updateMany({ apiKeyHash: oldHash }, { $set: { apiKeyHash: newHash } }),
+      CrawlSchedule.updateMany({ apiKeyHash: oldHash }, { $set: { apiKeyHash: newHash } }),
+      ScrapeJob.updateMany({ apiKeyHash: oldHash }, { $set: { apiKeyHash: newHash } }),
+      UsageRecord.updateMany({ apiKeyHash: oldHash }, { $set: { apiKeyHash: newHash } }),
+      ExtractionSchemaVersion.updateMany({ apiKeyHash: oldHash }, { $set: { apiKeyHash: newHash } }),
+      Monitor.updateMany({ apiKeyHash: oldHash }, { $set: { apiKeyHash: newHash } })
+    ]);
+
+    this.invalidate(oldHash);
+    logger.info('Rotated API key', { keyId });
+    return { key, apiKey };
+  }
+
+  async revokeKey(keyId: string): Promise<IApiKey | null> {
+    const key = await ApiKey.findOneAndUpdate(
+      { keyId },
+      { $set: { revoked: true, revokedAt: new Date() } },
+      { new: true }
+    );
+
+    if (key) {
+      this.invalidate(key.keyHash);
+      logger.info('Revoked API key', { keyId });
+    }
+    return key;
+  }
+
+  private invalidate(keyHash: string): void {
+    this.cache.delete(keyHash);
+  }
+}
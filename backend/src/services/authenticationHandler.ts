@@ -1,5 +1,6 @@
 import { Page } from 'playwright';
 import { URL } from 'url';
+import { logger } from '../utils/logger';
 
 export interface AuthConfig {
   type: 'none' | 'basic' | 'form' | 'bearer' | 'cookie';
@@ -48,7 +49,7 @@ export class AuthenticationHandler {
           throw new Error(`Unsupported authentication type: ${authConfig.type}`);
       }
     } catch (error) {
-      console.error('Authentication failed:', error);
+      logger.error('Authentication failed', { domain, type: authConfig.type, error });
       return { 
         success: false, 
         error: error instanceof Error ? error.message : 'Unknown authentication error' 
@@ -93,7 +94,7 @@ export class AuthenticationHandler {
     }
 
     // Navigate to login page
-    console.log(`🔐 Navigating to login page: ${loginUrl}`);
+    logger.debug('Navigating to login page', { loginUrl });
     await page.goto(loginUrl, { waitUntil: 'networkidle' });
 
     // Wait for page to load
@@ -101,12 +102,9 @@ export class AuthenticationHandler {
     
     // Check if there are any iframes that might contain the login form
     const frames = page.frames();
-    console.log(`🎭 Found ${frames.length} frames on page`);
     
     // Log current page title and URL for debugging
-    const pageTitle = await page.title();
-    const currentUrl = page.url();
-    console.log(`📄 Page: "${pageTitle}" at ${currentUrl}`);
+    logger.debug('Login page loaded', { title: await page.title(), url: page.url(), frames: frames.length });
 
     // Check if this is a modal-based login - look for login triggers
     const loginTriggers = [
@@ -127,7 +125,7 @@ export class AuthenticationHandler {
       try {
         const element = await page.$(trigger);
         if (element) {
-          console.log(`🔗 Found login trigger: ${trigger}`);
+          logger.debug('Found login trigger', { trigger });
           
           // Check if element is visible before clicking
           const isVisible = await element.isVisible();
@@ -144,7 +142,7 @@ export class AuthenticationHandler {
     }
 
     if (modalTriggered) {
-      console.log(`✅ Login modal triggered, waiting for form...`);
+      logger.debug('Login modal triggered, waiting for form');
       
       // Wait for modal to appear with multiple strategies
       const modalSelectors = [
@@ -156,7 +154,7 @@ export class AuthenticationHandler {
       for (const selector of modalSelectors) {
         try {
           await page.waitForSelector(selector, { timeout: 3000 });
-          console.log(`📋 Modal found: ${selector}`);
+          logger.debug('Modal found', { selector });
           modalFound = true;
           break;
         } catch (e) {
@@ -165,7 +163,7 @@ export class AuthenticationHandler {
       }
       
       if (!modalFound) {
-        console.log(`⚠️ Modal not detected, but login trigger was clicked`);
+        logger.debug('Modal not detected, but login trigger was clicked');
       }
       
       await page.waitForTimeout(2000);
@@ -206,13 +204,11 @@ export class AuthenticationHandler {
     ];
 
     let usernameElement = null;
-    console.log(`🔍 Searching for username field with ${usernameSelectors.length} selectors...`);
-    
     for (const selector of usernameSelectors) {
       try {
         usernameElement = await page.$(selector);
         if (usernameElement) {
-          console.log(`✅ Username field found with selector: ${selector}`);
+          logger.debug('Username field found', { selector });
           break;
         }
       } catch (e) {
@@ -221,7 +217,6 @@ export class AuthenticationHandler {
     }
 
     if (!usernameElement) {
-      console.log(`❌ No username field found. Available inputs on page:`);
       try {
         const allInputs = await page.$$eval('input', inputs => 
           inputs.map(input => ({
@@ -233,14 +228,14 @@ export class AuthenticationHandler {
             visible: !input.hidden && input.offsetParent !== null
           }))
         );
-        console.log(JSON.stringify(allInputs, null, 2));
+        logger.warn('No username field found', { domain, inputs: allInputs });
       } catch (e) {
-        console.log(`Could not analyze page inputs`);
+        logger.warn('No username field found, could not analyze page inputs', { domain });
       }
       // Take screenshot for debugging
       try {
         await page.screenshot({ path: `debug-auth-${domain}-${Date.now()}.png`, fullPage: true });
-        console.log(`📸 Screenshot saved for debugging`);
+        logger.debug('Screenshot saved for debugging');
       } catch (e) {
         // Ignore screenshot errors
       }
@@ -249,7 +244,7 @@ export class AuthenticationHandler {
     }
 
     await usernameElement.fill(username);
-    console.log(`✅ Username field filled`);
+    logger.debug('Username field filled');
 
     // Fill password field
     const passwordSelectors = [
@@ -272,13 +267,11 @@ export class AuthenticationHandler {
     ];
 
     let passwordElement = null;
-    console.log(`🔍 Searching for password field with ${passwordSelectors.length} selectors...`);
-    
     for (const selector of passwordSelectors) {
       try {
         passwordElement = await page.$(selector);
         if (passwordElement) {
-          console.log(`✅ Password field found with selector: ${selector}`);
+          logger.debug('Password field found', { selector });
           break;
         }
       } catch (e) {
@@ -287,12 +280,12 @@ export class AuthenticationHandler {
     }
 
     if (!passwordElement) {
-      console.log(`❌ No password field found`);
+      logger.warn('No password field found', { domain });
       throw new Error('Could not find password field');
     }
 
     await passwordElement.fill(password);
-    console.log(`✅ Password field filled`);
+    logger.debug('Password field filled');
 
     // Submit form - try multiple approaches
     const submitSelectors = [
@@ -311,7 +304,7 @@ export class AuthenticationHandler {
       try {
         const submitButton = await page.$(selector);
         if (submitButton) {
-          console.log(`🎯 Found submit button: ${selector}`);
+          logger.debug('Found submit button', { selector });
           await submitButton.click();
           submitClicked = true;
           break;
@@ -322,11 +315,11 @@ export class AuthenticationHandler {
     }
 
     if (!submitClicked) {
-      console.log(`⌨️ No submit button found, trying Enter key`);
+      logger.debug('No submit button found, trying Enter key');
       await page.keyboard.press('Enter');
     }
 
-    console.log(`🚀 Login form submitted`);
+    logger.debug('Login form submitted');
 
     // Wait for navigation/response
     await page.waitForTimeout(3000);
@@ -336,10 +329,10 @@ export class AuthenticationHandler {
     if (successIndicator) {
       try {
         await page.waitForSelector(successIndicator, { timeout: 5000 });
-        console.log(`✅ Success indicator found: ${successIndicator}`);
+        logger.debug('Success indicator found', { successIndicator });
       } catch (e) {
         isAuthenticated = false;
-        console.log(`❌ Success indicator not found: ${successIndicator}`);
+        logger.warn('Success indicator not found', { domain, successIndicator });
       }
     } else {
       // Check for common error indicators
@@ -369,7 +362,7 @@ export class AuthenticationHandler {
         authenticatedAt: new Date()
       });
 
-      console.log(`✅ Authentication successful for ${domain}`);
+      logger.info('Authentication successful', { domain });
       return { 
         success: true, 
         sessionData: { domain, authenticatedAt: new Date() },
@@ -459,7 +452,7 @@ export class AuthenticationHandler {
       }
       return true;
     } catch (error) {
-      console.error(`Failed to apply stored auth for ${domain}:`, error);
+      logger.error('Failed to apply stored auth', { domain, error });
       return false;
     }
   }
@@ -485,14 +478,14 @@ export class AuthenticationHandler {
                                  currentUrl.includes('auth');
       
       if (isRedirectedToLogin) {
-        console.log(`🔄 Auth expired for ${domain}, redirected to login`);
+        logger.info('Auth expired, redirected to login', { domain });
         this.clearSession(domain);
         return false;
       }
 
       return true;
     } catch (error) {
-      console.error(`Auth validation failed for ${domain}:`, error);
+      logger.error('Auth validation failed', { domain, error });
       return false;
     }
   }
@@ -503,7 +496,7 @@ export class AuthenticationHandler {
   async testAuthentication(authConfig: AuthConfig, testUrl: string): Promise<AuthResult> {
     const { chromium } = require('playwright');
     
-    console.log(`🧪 Testing authentication for ${testUrl}`);
+    logger.info('Testing authentication', { testUrl });
     
     const browser = await chromium.launch({ headless: false }); // Run in visible mode for debugging
     const context = await browser.newContext();
@@ -513,36 +506,34 @@ export class AuthenticationHandler {
       const result = await this.authenticatePage(page, authConfig, new URL(testUrl).hostname);
       
       if (result.success) {
-        console.log(`✅ Authentication test successful`);
+        logger.info('Authentication test successful', { testUrl });
         
         // Try to navigate to a page that might require authentication
         await page.goto(testUrl);
         await page.waitForTimeout(3000);
         
-        const finalUrl = page.url();
-        const finalTitle = await page.title();
-        console.log(`🎯 Final page: "${finalTitle}" at ${finalUrl}`);
+        logger.debug('Authentication test final page', { title: await page.title(), url: page.url() });
         
         // Take a screenshot of the final state
         await page.screenshot({ path: `auth-test-success-${Date.now()}.png` });
-        console.log(`📸 Success screenshot saved`);
+        logger.debug('Success screenshot saved');
       } else {
-        console.log(`❌ Authentication test failed: ${result.error}`);
+        logger.warn('Authentication test failed', { testUrl, error: result.error });
         
         // Take a screenshot of the failure state
         await page.screenshot({ path: `auth-test-failure-${Date.now()}.png` });
-        console.log(`📸 Failure screenshot saved`);
+        logger.debug('Failure screenshot saved');
       }
       
       await browser.close();
       return result;
       
     } catch (error) {
-      console.error(`🚨 Authentication test error:`, error);
+      logger.error('Authentication test error', { testUrl, error });
       
       try {
         await page.screenshot({ path: `auth-test-error-${Date.now()}.png` });
-        console.log(`📸 Error screenshot saved`);
+        logger.debug('Error screenshot saved');
       } catch (e) {
         // Ignore screenshot errors
       }
@@ -0,0 +1,331 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from 'playwright';
+import fs from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+
+export type BrowserProfile = 'standard' | 'stealth';
+
+export interface BrowserLease {
+  context: BrowserContext;
+  release: () => Promise<void>;
+}
+
+interface PooledBrowser {
+  id: string;
+  profile: BrowserProfile;
+  browser: Browser;
+  launchedAt: Date;
+  lastUsedAt: Date;
+  activeContexts: number;
+  pagesServed: number;
+  memoryMB?: number;
+  retiring: boolean;
+}
+
+// Launch arguments per profile (kept from the scrapers that used to launch their own browsers)
+const LAUNCH_ARGS: Record<BrowserProfile, string[]> = {
+  standard: [
+    '--no-sandbox',
+    '--disable-setuid-sandbox',
+    '--disable-dev-shm-usage',
+    '--disable-accelerated-2d-canvas',
+    '--no-first-run',
+    '--no-zygote',
+    '--disable-gpu'
+  ],
+  stealth: [
+    // NOTE: --no-sandbox is required in Docker/containerized environments
+    // but is a security risk. Only enable if running in a trusted container.
+    // '--no-sandbox',
+    '--disable-setuid-sandbox',
+    '--disable-dev-shm-usage',
+    '--disable-accelerated-2d-canvas',
+    '--no-first-run',
+    '--no-zygote',
+    '--disable-gpu',
+    '--disable-features=VizDisplayCompositor',
+    '--disable-background-networking',
+    '--disable-background-timer-throttling',
+    '--disable-renderer-backgrounding',
+    '--disable-backgrounding-occluded-windows',
+    '--disable-client-side-phishing-detection',
+    '--disable-component-extensions-with-background-pages',
+    '--disable-default-apps',
+    '--disable-extensions',
+    '--disable-features=TranslateUI',
+    '--disable-hang-monitor',
+    '--disable-ipc-flooding-protection',
+    '--disable-popup-blocking',
+    '--disable-prompt-on-repost',
+    '--disable-sync',
+    '--metrics-recording-only',
+    '--no-default-browser-check',
+    '--safebrowsing-disable-auto-update',
+    '--password-store=basic',
+    '--use-mock-keychain',
+    // Memory/resource limits for VPS environments
+    // (--single-process is not used here: pooled browsers serve several contexts at once)
+    '--js-flags=--max-old-space-size=512'
+  ]
+};
+
+/**
+ * Long-lived Chromium pool shared by all scrapers
+ *
+ * Requests get an isolated BrowserContext instead of a fresh browser, which
+ * removes the cold launch from the request path. Browsers are recycled after
+ * serving a number of pages or when their memory grows past a threshold.
+ */
+export class BrowserPoolService {
+  private static instance: BrowserPoolService;
+  private browsers: PooledBrowser[] = [];
+  private launching: Map<BrowserProfile, Promise<PooledBrowser>> = new Map();
+  private maintenanceTimer: NodeJS.Timeout | null = null;
+  private totalLaunches = 0;
+  private totalRecycled = 0;
+
+  private readonly MAX_BROWSERS = parseInt(process.env.BROWSER_POOL_SIZE || '2', 10); // Per profile
+  private readonly MAX_CONTEXTS_PER_BROWSER = parseInt(process.env.BROWSER_MAX_CONTEXTS || '4', 10);
+  private readonly MAX_PAGES_PER_BROWSER = parseInt(process.env.BROWSER_MAX_PAGES || '100', 10);
+  private readonly MAX_MEMORY_MB = parseInt(process.env.BROWSER_MAX_MEMORY_MB || '1024', 10);
+  private readonly IDLE_TIMEOUT = parseInt(process.env.BROWSER_IDLE_TIMEOUT_MS || '300000', 10);
+  private readonly MAINTENANCE_INTERVAL = 30 * 1000;
+
+  static getInstance(): BrowserPoolService {
+    if (!BrowserPoolService.instance) {
+      BrowserPoolService.instance = new BrowserPoolService();
+    }
+    return BrowserPoolService.instance;
+  }
+
+  /**
+   * Get an isolated context on a pooled browser
+   * The lease must be released when done; that closes the context and counts the page
+   */
+  async acquireContext(profile: BrowserProfile = 'standard', options: BrowserContextOptions = {}): Promise<BrowserLease> {
+    this.startMaintenance();
+
+    const pooled = await this.getBrowser(profile);
+    pooled.activeContexts++;
+    pooled.lastUsedAt = new Date();
+
+    let context: BrowserContext;
+    try {
+      context = await pooled.browser.newContext(options);
+    } catch (error) {
+      pooled.activeContexts--;
+      // The browser may have crashed, don't hand it out again
+      this.retire(pooled, 'failed to create context');
+      throw error;
+    }
+
+    let released = false;
+    const release = async () => {
+      if (released) return;
+      released = true;
+
+      await context.close().catch(() => {});
+      pooled.activeContexts--;
+      pooled.pagesServed++;
+      pooled.lastUsedAt = new Date();
+
+      if (pooled.pagesServed >= this.MAX_PAGES_PER_BROWSER) {
+        this.retire(pooled, `served ${pooled.pagesServed} pages`);
+      } else if (pooled.retiring && pooled.activeContexts === 0) {
+        await this.closeBrowser(pooled);
+      }
+    };
+
+    return { context, release };
+  }
+
+  /**
+   * Pool health for /health and concurrency stats
+   */
+  getStats() {
+    const now = Date.now();
+    return {
+      browsers: this.browsers.map(pooled => ({
+        id: pooled.id,
+        profile: pooled.profile,
+        activeContexts: pooled.activeContexts,
+        pagesServed: pooled.pagesServed,
+        memoryMB: pooled.memoryMB,
+        ageSeconds: Math.floor((now - pooled.launchedAt.getTime()) / 1000),
+        retiring: pooled.retiring
+      })),
+      totalBrowsers: this.browsers.length,
+      activeContexts: this.browsers.reduce((sum, pooled) => sum + pooled.activeContexts, 0),
+      totalLaunches: this.totalLaunches,
+      totalRecycled: this.totalRecycled,
+      limits: {
+        maxBrowsersPerProfile: this.MAX_BROWSERS,
+        maxContextsPerBrowser: this.MAX_CONTEXTS_PER_BROWSER,
+        maxPagesPerBrowser: this.MAX_PAGES_PER_BROWSER,
+        maxMemoryMB: this.MAX_MEMORY_MB
+      }
+    };
+  }
+
+  /**
+   * Close every browser (graceful shutdown)
+   */
+  async shutdown(): Promise<void> {
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = null;
+    }
+
+    const browsers = [...this.browsers];
+    this.browsers = [];
+    await Promise.all(browsers.map(pooled => pooled.browser.close().catch(() => {})));
+    logger.info('Browser pool closed', { browsers: browsers.length });
+  }
+
+  /**
+   * Pick the least busy browser for a profile, launching one if all are full
+   */
+  private async getBrowser(profile: BrowserProfile): Promise<PooledBrowser> {
+    const candidates = this.browsers
+      .filter(pooled => pooled.profile === profile && !pooled.retiring && pooled.browser.isConnected())
+      .sort((a, b) => a.activeContexts - b.activeContexts);
+
+    const available = candidates.find(pooled => pooled.activeContexts < this.MAX_CONTEXTS_PER_BROWSER);
+    if (available) return available;
+
+    if (candidates.length >= this.MAX_BROWSERS) {
+      // Pool is full, share the least busy browser (withBrowserSlot bounds the total load)
+      return candidates[0];
+    }
+
+    // Only one launch per profile at a time
+    let launch = this.launching.get(profile);
+    if (!launch) {
+      launch = this.launchBrowser(profile).finally(() => this.launching.delete(profile));
+      this.launching.set(profile, launch);
+    }
+    return launch;
+  }
+
+  /**
+   * Launch a browser and add it to the pool
+   */
+  private async launchBrowser(profile: BrowserProfile): Promise<PooledBrowser> {
+    const startTime = Date.now();
+    const browser = await chromium.launch({
+      headless: true,
+      args: LAUNCH_ARGS[profile]
+    });
+
+    const pooled: PooledBrowser = {
+      id: uuidv4().slice(0, 8),
+      profile,
+      browser,
+      launchedAt: new Date(),
+      lastUsedAt: new Date(),
+      activeContexts: 0,
+      pagesServed: 0,
+      retiring: false
+    };
+
+    browser.on('disconnected', () => {
+      const index = this.browsers.indexOf(pooled);
+      if (index !== -1) {
+        this.browsers.splice(index, 1);
+        logger.warn('Pooled browser disconnected', { browserId: pooled.id, profile });
+      }
+    });
+
+    this.browsers.push(pooled);
+    this.totalLaunches++;
+    logger.info('Launched pooled browser', {
+      browserId: pooled.id,
+      profile,
+      durationMs: Date.now() - startTime,
+      poolSize: this.browsers.length
+    });
+
+    return pooled;
+  }
+
+  /**
+   * Stop handing out a browser and close it once its contexts are released
+   */
+  private retire(pooled: PooledBrowser, reason: string): void {
+    if (pooled.retiring) return;
+
+    pooled.retiring = true;
+    logger.info('Recycling browser', { browserId: pooled.id, reason });
+
+    if (pooled.activeContexts === 0) {
+      this.closeBrowser(pooled).catch(() => {});
+    }
+  }
+
+  /**
+   * Close a browser and remove it from the pool
+   */
+  private async closeBrowser(pooled: PooledBrowser): Promise<void> {
+    const index = this.browsers.indexOf(pooled);
+    if (index === -1) return;
+
+    this.browsers.splice(index, 1);
+    this.totalRecycled++;
+    await pooled.browser.close().catch(() => {});
+  }
+
+  /**
+   * Periodically sample memory, recycle bloated browsers and close idle ones
+   */
+  private startMaintenance(): void {
+    if (this.maintenanceTimer) return;
+
+    this.maintenanceTimer = setInterval(() => {
+      this.runMaintenance().catch(error => logger.error('Browser pool maintenance failed', { error }));
+    }, this.MAINTENANCE_INTERVAL);
+    this.maintenanceTimer.unref();
+  }
+
+  private async runMaintenance(): Promise<void> {
+    const now = Date.now();
+
+    for (const pooled of [...this.browsers]) {
+      if (pooled.retiring) continue;
+
+      if (pooled.activeContexts === 0 && now - pooled.lastUsedAt.getTime() > this.IDLE_TIMEOUT) {
+        logger.debug('Closing idle browser', { browserId: pooled.id });
+        await this.closeBrowser(pooled);
+        continue;
+      }
+
+      pooled.memoryMB = await this.getMemoryUsage(pooled.browser);
+      if (pooled.memoryMB !== undefined && pooled.memoryMB > this.MAX_MEMORY_MB) {
+        this.retire(pooled, `memory ${pooled.memoryMB}MB > ${this.MAX_MEMORY_MB}MB`);
+      }
+    }
+  }
+
+  /**
+   * Resident memory of all Chromium processes of a browser (Linux only)
+   */
+  private async getMemoryUsage(browser: Browser): Promise<number | undefined> {
+    if (process.platform !== 'linux') return undefined;
+
+    try {
+      const session = await browser.newBrowserCDPSession();
+      const { processInfo } = await session.send('SystemInfo.getProcessInfo');
+      await session.detach();
+
+      let totalKb = 0;
+      for (const info of processInfo) {
+        const status = await fs.readFile(`/proc/${info.id}/status`, 'utf-8').catch(() => '');
+        const match = status.match(/VmRSS:\s+(\d+)\s+kB/);
+        if (match) totalKb += parseInt(match[1], 10);
+      }
+
+      return totalKb > 0 ? Math.round(totalKb / 1024) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -2,6 +2,7 @@ import * as cheerio from 'cheerio';
 import { createHash } from 'crypto';
 import { URL } from 'url';
 import TurndownService from 'turndown';
+import { parseStructuredData, StructuredEntity } from '../utils/structuredDataParser';
 
 export interface ExtractedContent {
   title?: string;
@@ -14,6 +15,7 @@ export interface ExtractedContent {
   htmlContent: string;
   markdownContent?: string; // Clean Firecrawl-style markdown
   contentHash: string;
+  structuredData: StructuredEntity[]; // JSON-LD, Microdata and RDFa entities
   extractedLinks: {
     internal: string[];
     external: string[];
@@ -104,6 +106,9 @@ export class ContentExtractorService {
    */
   async extractContent(html: string, url: string, baseDomain: string): Promise<ExtractedContent> {
     const $ = cheerio.load(html);
+
+    // JSON-LD lives in script tags, read it before they are removed
+    const structuredData = this.extractStructuredData($, url);
     
     // Remove script and style tags
     $('script, style, noscript').remove();
@@ -144,6 +149,7 @@ export class ContentExtractorService {
       htmlContent,
       markdownContent, // Clean markdown content
       contentHash,
+      structuredData,
       extractedLinks,
       images,
       contentChunks
@@ -792,22 +798,10 @@ export class ContentExtractorService {
   }
 
   /**
-   * Extract structured data (JSON-LD, microdata)
+   * Extract structured data (JSON-LD, Microdata, RDFa) normalized to schema.org types
    */
-  extractStructuredData($: cheerio.CheerioAPI): any[] {
-    const structuredData: any[] = [];
-
-    // Extract JSON-LD
-    $('script[type="application/ld+json"]').each((_, element) => {
-      try {
-        const jsonData = JSON.parse($(element).html() || '');
-        structuredData.push(jsonData);
-      } catch (error) {
-        // Invalid JSON, skip
-      }
-    });
-
-    return structuredData;
+  extractStructuredData($: cheerio.CheerioAPI, url?: string): StructuredEntity[] {
+    return parseStructuredData($, url);
   }
 
   /**
@@ -0,0 +1,245 @@
+import { CrawlSession, UrlQueue, RawContent } from '../models/crawlerModels';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+interface CrawlTotals {
+  sessions: number;
+  pages: number;
+  failedPages: number;
+  items: number;
+}
+
+/**
+ * Aggregated crawl analytics over a time range
+ *
+ * Sessions, pages and failure rates come from session stats, error messages
+ * and retries from the URL queue, and schemas, response times and sizes from
+ * stored content. Each collection expires on its own TTL (sessions and content
+ * after 30 days, queue entries after 7), so longer ranges only see what is left.
+ */
+export class CrawlAnalyticsService {
+  private static instance: CrawlAnalyticsService;
+
+  public static getInstance(): CrawlAnalyticsService {
+    if (!CrawlAnalyticsService.instance) {
+      CrawlAnalyticsService.instance = new CrawlAnalyticsService();
+    }
+    return CrawlAnalyticsService.instance;
+  }
+
+  async getAnalytics(days: number) {
+    const since = new Date(Date.now() - days * DAY);
+    since.setUTCHours(0, 0, 0, 0);
+    since.setTime(since.getTime() + DAY); // Today counts as the last of the days
+
+    const [sessions, queue, content] = await Promise.all([
+      this.aggregateSessions(since),
+      this.aggregateQueue(since),
+      this.aggregateContent(since)
+    ]);
+
+    const today = new Date().toISOString().slice(0, 10);
+    const trendsByDate = new Map<string, any>(sessions.trends.map((trend: any) => [trend._id, trend]));
+    const schemaTotal = content.schemas.reduce((sum: number, schema: any) => sum + schema.count, 0);
+
+    return {
+      timeRange: `${days}d`,
+      since,
+      overview: {
+        totalSessions: sessions.totals.sessions,
+        totalPages: sessions.totals.pages,
+        failedPages: sessions.totals.failedPages,
+        totalItems: sessions.totals.items,
+        avgQuality: content.performance.avgQuality,
+        activeToday: trendsByDate.get(today)?.sessions || 0,
+        successRate: this.successRate(sessions.totals)
+      },
+      statuses: Object.fromEntries(sessions.statuses.map((status: any) => [status._id, status.count])),
+      trends: Array.from({ length: days }, (_, i) => {
+        const date = new Date(since.getTime() + i * DAY).toISOString().slice(0, 10);
+        const trend = trendsByDate.get(date);
+        return {
+          date,
+          sessions: trend?.sessions || 0,
+          pages: trend?.pages || 0,
+          failedPages: trend?.failedPages || 0,
+          items: trend?.items || 0,
+          successRate: trend ? this.successRate(trend) : null
+        };
+      }),
+      domains: sessions.domains.map((domain: any) => ({
+        domain: domain._id,
+        sessions: domain.sessions,
+        pages: domain.pages,
+        failedPages: domain.failedPages,
+        items: domain.items,
+        successRate: this.successRate(domain),
+        lastCrawledAt: domain.lastCrawledAt
+      })),
+      topErrors: queue.errors.map((error: any) => ({
+        message: error._id,
+        count: error.count,
+        sessions: error.sessions.length,
+        lastSeenAt: error.lastSeenAt
+      })),
+      dataTypes: content.schemas.map((schema: any) => ({
+        type: schema._id,
+        count: schema.count,
+        percentage: schemaTotal > 0 ? Math.round(schema.count / schemaTotal * 1000) / 10 : 0,
+        avgQuality: schema.avgQuality
+      })),
+      performance: {
+        avgResponseTime: content.performance.avgResponseTime !== null
+          ? Math.round(content.performance.avgResponseTime)
+          : null, // ms
+        bytesTransferred: content.performance.bytesTransferred,
+        avgPageSize: content.performance.avgPageSize !== null
+          ? Math.round(content.performance.avgPageSize)
+          : null, // bytes
+        measuredPages: content.performance.measuredPages,
+        errors: queue.retries.failed,
+        retries: queue.retries.retries
+      }
+    };
+  }
+
+  /**
+   * Session counts and page totals per day, domain and status
+   */
+  private async aggregateSessions(since: Date) {
+    const totals = {
+      sessions: { $sum: 1 },
+      pages: { $sum: '$stats.processedUrls' },
+      failedPages: { $sum: '$stats.failedUrls' },
+      items: { $sum: '$stats.extractedItems' }
+    };
+
+    const [result] = await CrawlSession.aggregate([
+      { $match: { createdAt: { $gte: since } } },
+      {
+        $facet: {
+          totals: [{ $group: { _id: null, ...totals } }],
+          statuses: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+          trends: [
+            { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } }, ...totals } }
+          ],
+          domains: [
+            { $group: { _id: '$domain', ...totals, lastCrawledAt: { $max: '$createdAt' } } },
+            { $sort: { pages: -1, sessions: -1 } },
+            { $limit: 20 }
+          ]
+        }
+      }
+    ]);
+
+    return {
+      totals: (result.totals[0] || { sessions: 0, pages: 0, failedPages: 0, items: 0 }) as CrawlTotals,
+      statuses: result.statuses,
+      trends: result.trends,
+      domains: result.domains
+    };
+  }
+
+  /**
+   * Most frequent failure reasons and retry counts
+   */
+  private async aggregateQueue(since: Date) {
+    const [result] = await UrlQueue.aggregate([
+      { $match: { processedAt: { $gte: since }, status: { $in: ['completed', 'failed'] } } },
+      {
+        $facet: {
+          errors: [
+            { $match: { status: 'failed', lastError: { $exists: true, $ne: '' } } },
+            {
+              $group: {
+                _id: '$lastError',
+                count: { $sum: 1 },
+                sessions: { $addToSet: '$sessionId' },
+                lastSeenAt: { $max: '$processedAt' }
+              }
+            },
+            { $sort: { count: -1 } },
+            { $limit: 10 }
+          ],
+          retries: [
+            {
+              $group: {
+                _id: null,
+                failed: { $sum: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] } },
+                retries: { $sum: { $max: [{ $subtract: ['$attempts', 1] }, 0] } }
+              }
+            }
+          ]
+        }
+      }
+    ]);
+
+    return {
+      errors: result.errors,
+      retries: result.retries[0] || { failed: 0, retries: 0 }
+    };
+  }
+
+  /**
+   * Structured data schemas, quality, response times and page sizes of stored content
+   */
+  private async aggregateContent(since: Date) {
+    const [result] = await RawContent.aggregate([
+      { $match: { createdAt: { $gte: since } } },
+      {
+        $project: {
+          'metadata.extractedData.schema': 1,
+          'metadata.extractedData.qualityScore': 1,
+          'metadata.responseTime': 1,
+          'metadata.contentLength': 1
+        }
+      },
+      {
+        $facet: {
+          schemas: [
+            { $match: { 'metadata.extractedData.schema': { $exists: true } } },
+            {
+              $group: {
+                _id: '$metadata.extractedData.schema',
+                count: { $sum: 1 },
+                avgQuality: { $avg: '$metadata.extractedData.qualityScore' }
+              }
+            },
+            { $sort: { count: -1 } }
+          ],
+          performance: [
+            {
+              $group: {
+                _id: null,
+                avgQuality: { $avg: '$metadata.extractedData.qualityScore' },
+                avgResponseTime: { $avg: '$metadata.responseTime' },
+                avgPageSize: { $avg: '$metadata.contentLength' },
+                bytesTransferred: { $sum: '$metadata.contentLength' },
+                measuredPages: { $sum: { $cond: [{ $isNumber: '$metadata.responseTime' }, 1, 0] } }
+              }
+            }
+          ]
+        }
+      }
+    ]);
+
+    return {
+      schemas: result.schemas,
+      performance: result.performance[0] || {
+        avgQuality: null,
+        avgResponseTime: null,
+        avgPageSize: null,
+        bytesTransferred: 0,
+        measuredPages: 0
+      }
+    };
+  }
+
+  /**
+   * Share of processed pages that succeeded, in percent (null when nothing was processed)
+   */
+  private successRate(totals: Pick<CrawlTotals, 'pages' | 'failedPages'>): number | null {
+    const processed = totals.pages + totals.failedPages;
+    return processed > 0 ? Math.round(totals.pages / processed * 1000) / 10 : null;
+  }
+}
@@ -0,0 +1,267 @@
+import { parseExpression } from 'cron-parser';
+import { v4 as uuidv4 } from 'uuid';
+
+import { CrawlSchedule, CrawlSession, ICrawlSchedule, ICrawlScheduleRun } from '../models/crawlerModels';
+import { DomainCrawlerService, CrawlConfig } from './domainCrawler';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
+
+export interface CrawlScheduleInput {
+  name: string;
+  cronExpression: string;
+  timezone?: string;
+  startUrl: string;
+  config: CrawlConfig;
+  enabled?: boolean;
+  apiKeyHash?: string; // Owner, set on creation only
+}
+
+export class CrawlSchedulerService {
+  private static instance: CrawlSchedulerService;
+  private crawlerService: DomainCrawlerService;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private readonly TICK_INTERVAL = 30 * 1000; // 30 seconds
+  private readonly MAX_RUN_HISTORY = 50;
+
+  constructor() {
+    this.crawlerService = DomainCrawlerService.getInstance();
+  }
+
+  public static getInstance(): CrawlSchedulerService {
+    if (!CrawlSchedulerService.instance) {
+      CrawlSchedulerService.instance = new CrawlSchedulerService();
+    }
+    return CrawlSchedulerService.instance;
+  }
+
+  /**
+   * Calculate the next run time for a cron expression (throws if invalid)
+   */
+  static getNextRunAt(cronExpression: string, timezone: string = 'UTC', from: Date = new Date()): Date {
+    const next = parseExpression(cronExpression, { currentDate: from, tz: timezone }).next().toDate();
+    if (isNaN(next.getTime())) {
+      throw new Error(`Invalid timezone: ${timezone}`);
+    }
+    return next;
+  }
+
+  /**
+   * Start the scheduler loop. Schedules that became due while the server
+   * was down are picked up on the first tick.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), this.TICK_INTERVAL);
+    this.timer.unref();
+    logger.info('Crawl scheduler started');
+
+    this.tick();
+  }
+
+  /**
+   * Stop the scheduler loop
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Crawl scheduler stopped');
+    }
+  }
+
+  /**
+   * Launch every schedule that is due
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking || !isMongoDBConnected()) return;
+    this.ticking = true;
+
+    try {
+      const dueSchedules = await CrawlSchedule.find({
+        enabled: true,
+        nextRunAt: { $lte: new Date() }
+      }).sort({ nextRunAt: 1 });
+
+      for (const schedule of dueSchedules) {
+        await this.runSchedule(schedule);
+      }
+    } catch (error) {
+      logger.error('Crawl scheduler tick failed', { error });
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run a single due schedule and record the outcome in its history
+   */
+  private async runSchedule(schedule: ICrawlSchedule): Promise<void> {
+    const scheduledFor = schedule.nextRunAt as Date;
+    const now = new Date();
+
+    // Claim the run by advancing nextRunAt. Any runs missed while the server
+    // was down collapse into this single catch-up run.
+    let nextRunAt: Date | undefined;
+    try {
+      nextRunAt = CrawlSchedulerService.getNextRunAt(schedule.cronExpression, schedule.timezone, now);
+    } catch (error) {
+      logger.error('Invalid cron expression for schedule', { scheduleId: schedule.scheduleId, error });
+    }
+
+    const claimed = await CrawlSchedule.findOneAndUpdate(
+      { _id: schedule._id, nextRunAt: scheduledFor },
+      nextRunAt ? { $set: { nextRunAt } } : { $unset: { nextRunAt: 1 } }
+    );
+    if (!claimed) return;
+
+    const run: ICrawlScheduleRun = {
+      scheduledFor,
+      startedAt: now,
+      status: 'started'
+    };
+
+    try {
+      // Checked in MongoDB, the previous run may belong to another process (pm2 cluster) or one that restarted
+      const previousRunActive = schedule.lastSessionId && await CrawlSession.exists({
+        sessionId: schedule.lastSessionId,
+        status: { $in: ['pending', 'running'] }
+      });
+
+      if (previousRunActive) {
+        run.status = 'skipped';
+        run.error = `Previous run ${schedule.lastSessionId} is still in progress`;
+        logger.info('Skipping scheduled crawl, previous run still in progress', {
+          scheduleId: schedule.scheduleId,
+          previousSessionId: schedule.lastSessionId
+        });
+      } else {
+        // Runs belong to the key that created the schedule (its custom schemas, webhooks, usage and quota)
+        run.sessionId = await this.crawlerService.startDomainCrawl(
+          schedule.startUrl,
+          schedule.config as CrawlConfig,
+          undefined,
+          { apiKeyHash: schedule.apiKeyHash }
+        );
+        logger.info('Scheduled crawl started', { scheduleId: schedule.scheduleId, sessionId: run.sessionId });
+      }
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      logger.error('Scheduled crawl failed to start', { scheduleId: schedule.scheduleId, error });
+    }
+
+    await CrawlSchedule.findByIdAndUpdate(schedule._id, {
+      $set: {
+        lastRunAt: now,
+        ...(run.sessionId && { lastSessionId: run.sessionId })
+      },
+      $push: { runHistory: { $each: [run], $slice: -this.MAX_RUN_HISTORY } }
+    });
+  }
+
+  /**
+   * Create a schedule
+   */
+  async createSchedule(input: CrawlScheduleInput): Promise<ICrawlSchedule> {
+    const timezone = input.timezone || 'UTC';
+    const enabled = input.enabled ?? true;
+
+    const schedule = new CrawlSchedule({
+      scheduleId: uuidv4(),
+      name: input.name,
+      cronExpression: input.cronExpression,
+      timezone,
+      startUrl: input.startUrl,
+      config: input.config,
+      enabled,
+      apiKeyHash: input.apiKeyHash,
+      nextRunAt: enabled ? CrawlSchedulerService.getNextRunAt(input.cronExpression, timezone) : undefined
+    });
+
+    return await schedule.save();
+  }
+
+  /**
+   * Update a schedule of an API key, recalculating the next run when timing changes
+   */
+  async updateSchedule(
+    scheduleId: string,
+    apiKeyHash: string | undefined,
+    updates: Partial<Omit<CrawlScheduleInput, 'apiKeyHash'>>
+  ): Promise<ICrawlSchedule | null> {
+    const schedule = await this.getSchedule(scheduleId, apiKeyHash);
+    if (!schedule) return null;
+
+    const timingChanged = updates.cronExpression !== undefined ||
+      updates.timezone !== undefined ||
+      (updates.enabled !== undefined && updates.enabled !== schedule.enabled);
+
+    if (updates.name !== undefined) schedule.name = updates.name;
+    if (updates.cronExpression !== undefined) schedule.cronExpression = updates.cronExpression;
+    if (updates.timezone !== undefined) schedule.timezone = updates.timezone;
+    if (updates.startUrl !== undefined) schedule.startUrl = updates.startUrl;
+    if (updates.config !== undefined) schedule.config = updates.config;
+    if (updates.enabled !== undefined) schedule.enabled = updates.enabled;
+
+    if (timingChanged) {
+      schedule.nextRunAt = schedule.enabled
+        ? CrawlSchedulerService.getNextRunAt(schedule.cronExpression, schedule.timezone)
+        : undefined;
+    }
+
+    return await schedule.save();
+  }
+
+  /**
+   * Delete a schedule of an API key (sessions it started are kept)
+   */
+  async deleteSchedule(scheduleId: string, apiKeyHash?: string): Promise<boolean> {
+    const result = await CrawlSchedule.deleteOne({ scheduleId, apiKeyHash: apiKeyHash ?? null });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Schedules of an API key (schedules created without a key are only visible without one)
+   */
+  async getAllSchedules(apiKeyHash?: string): Promise<ICrawlSchedule[]> {
+    return await CrawlSchedule.find({ apiKeyHash: apiKeyHash ?? null }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Get a schedule, if it belongs to the API key
+   */
+  async getSchedule(scheduleId: string, apiKeyHash?: string): Promise<ICrawlSchedule | null> {
+    return await CrawlSchedule.findOne({ scheduleId, apiKeyHash: apiKeyHash ?? null });
+  }
+
+  /**
+   * Get run history for a schedule, newest first, with the current
+   * status and stats of each crawl session it started
+   */
+  async getRunHistory(schedule: ICrawlSchedule) {
+    const sessionIds = schedule.runHistory
+      .map(run => run.sessionId)
+      .filter((id): id is string => !!id);
+
+    const sessions = await CrawlSession.find({ sessionId: { $in: sessionIds } })
+      .select('sessionId status stats');
+    const sessionMap = new Map(sessions.map(session => [session.sessionId, session]));
+
+    return schedule.runHistory
+      .map(run => {
+        const session = run.sessionId ? sessionMap.get(run.sessionId) : undefined;
+        return {
+          scheduledFor: run.scheduledFor,
+          startedAt: run.startedAt,
+          status: run.status,
+          sessionId: run.sessionId,
+          error: run.error,
+          sessionStatus: session?.status,
+          stats: session?.stats
+        };
+      })
+      .reverse();
+  }
+}
@@ -1,14 +1,25 @@
-import { Browser, Page } from 'playwright';
-import { chromium } from 'playwright';
+import { Page } from 'playwright';
 import { URL } from 'url';
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import robotsParser from 'robots-parser';
 
-import { CrawlSession, ICrawlSession, RawContent } from '../models/crawlerModels';
+import { CrawlSession, ICrawlSession, IUrlQueue, RawContent } from '../models/crawlerModels';
 import { URLQueueService } from './urlQueue';
 import { ContentExtractorService } from './contentExtractor';
 import { AuthenticationHandler, AuthConfig } from './authenticationHandler';
-import { StructuredExtractor } from './structuredExtractor';
+import { StructuredExtractor, ExtractionSchema } from './structuredExtractor';
+import { SitemapParser, SitemapEntry } from '../utils/sitemapParser';
+import { PaginationDetector } from './paginationDetector';
+import { loadAllContent, InfiniteScrollOptions } from '../utils/infiniteScroll';
+import { WebhookService, WebhookTarget } from './webhookService';
+import { BrowserPoolService, BrowserLease } from './browserPool';
+import { withBrowserSlot } from '../utils/concurrencyLimiter';
+import { UsageService, UsageTarget } from './usageService';
+import { ApiKeyService } from './apiKeyService';
+import { WebhookEvent } from '../models/webhookModels';
+import { recordCrawlPage } from '../utils/metrics';
+import { logger, runWithLogContext } from '../utils/logger';
 // import { checkRobotsTxt } from '../utils/robotsChecker';
 
 export interface CrawlConfig {
@@ -21,12 +32,16 @@ export interface CrawlConfig {
   excludePatterns: string[];
   userAgent?: string;
   timeout?: number;
+  seedFromSitemaps?: boolean;
+  followPagination?: boolean; // Queue detected next-page links first, regardless of depth (default true)
+  infiniteScroll?: InfiniteScrollOptions; // Scroll / click "load more" on each page before capture (browser modes only)
   authentication?: AuthConfig;
   extraction?: {
     enableStructuredData: boolean;
     customSelectors?: { [key: string]: string };
     dataTypes?: string[];
     qualityThreshold?: number;
+    schema?: string; // Built-in or stored schema ("name" or "name@version"), detected per page when omitted
   };
   // Scraping mode options (same as quick scraper)
   forceMethod?: 'static' | 'dynamic' | 'stealth' | 'adaptive' | 'api';
@@ -52,25 +67,79 @@ export interface CrawlProgress {
   errors: string[];
 }
 
+/**
+ * Live update pushed to subscribers of a session (streamed over SSE)
+ */
+export type CrawlEvent =
+  | { type: 'status'; data: { status: ICrawlSession['status']; stats?: ICrawlSession['stats'] } }
+  | { type: 'progress'; data: CrawlProgress }
+  | { type: 'url'; data: { url: string; status: 'completed' | 'failed'; error?: string; unchanged?: boolean } }
+  | { type: 'discovered'; data: { source: 'links' | 'pagination' | 'sitemap' | 'recrawl'; count: number; parentUrl?: string } };
+
+export interface CrawledPage {
+  html: string;
+  etag?: string;
+  lastModified?: Date;
+  scrollCycles?: number;
+  responseTime: number; // ms until the page loaded (before waiting for dynamic content)
+  contentLength: number; // Bytes of the captured HTML
+}
+
+// Latest known version of a page from the parent session chain of a re-crawl
+interface BaselinePage {
+  contentId: string; // Stored RawContent, read back for pagination when the server answers 304
+  contentHash: string;
+  etag?: string;
+  lastModified?: Date;
+  internalLinks: string[];
+}
+
 export class DomainCrawlerService {
+  private static instance: DomainCrawlerService;
   private urlQueue: URLQueueService;
   private contentExtractor: ContentExtractorService;
   private authHandler: AuthenticationHandler;
   private structuredExtractor: StructuredExtractor;
-  private activeCrawlers: Map<string, { browser: Browser; pages: Page[] }> = new Map();
+  private paginationDetector: PaginationDetector;
+  private activeCrawlers: Map<string, { leases: BrowserLease[]; pages: Page[] }> = new Map(); // Pooled contexts per session
   private crawlProgress: Map<string, CrawlProgress> = new Map();
+  private recrawlBaselines: Map<string, Map<string, BaselinePage>> = new Map();
+  private paginationSelectors: Map<string, string[]> = new Map(); // Learned selectors per session
+  private webhookTargets: Map<string, WebhookTarget> = new Map(); // Loaded once per running session
+  private extractionSchemas: Map<string, ExtractionSchema> = new Map(); // Schema named in the config, per running session
+  private crawlEvents = new EventEmitter();
+  private readonly PAGINATION_PRIORITY = 20; // Above anything calculatePriority returns
+  private readonly MAX_RECRAWL_CHAIN = 20;
 
   constructor() {
     this.urlQueue = new URLQueueService();
     this.contentExtractor = new ContentExtractorService();
     this.authHandler = new AuthenticationHandler();
     this.structuredExtractor = new StructuredExtractor();
+    this.paginationDetector = new PaginationDetector();
+    this.crawlEvents.setMaxListeners(0); // One listener per open event stream
+  }
+
+  /**
+   * Shared instance, so sessions started by the API and by the scheduler
+   * are tracked (and can be paused or stopped) in one place
+   */
+  public static getInstance(): DomainCrawlerService {
+    if (!DomainCrawlerService.instance) {
+      DomainCrawlerService.instance = new DomainCrawlerService();
+    }
+    return DomainCrawlerService.instance;
   }
 
   /**
    * Start domain crawling
    */
-  async startDomainCrawl(startUrl: string, config: CrawlConfig): Promise<string> {
+  async startDomainCrawl(
+    startUrl: string,
+    config: CrawlConfig,
+    parentSessionId?: string,
+    notify: WebhookTarget = {}
+  ): Promise<string> {
     const sessionId = uuidv4();
     const domain = this.extractDomain(startUrl);
 
@@ -83,6 +152,9 @@ export class DomainCrawlerService {
       sessionId,
       domain,
       startUrl,
+      parentSessionId,
+      apiKeyHash: notify.apiKeyHash,
+      webhook: notify.webhook,
       config,
       status: 'pending'
     });
@@ -90,25 +162,43 @@ export class DomainCrawlerService {
     await session.save();
 
     // Initialize progress tracking
-    this.crawlProgress.set(sessionId, {
-      sessionId,
-      status: 'pending',
-      totalUrls: 0,
-      processedUrls: 0,
-      failedUrls: 0,
-      extractedItems: 0,
-      errors: []
-    });
+    this.initProgress(sessionId);
 
-    // Start crawling process (non-blocking)
-    this.executeCrawl(sessionId, startUrl, config).catch(error => {
-      console.error(`Crawl session ${sessionId} failed:`, error);
+    // Start crawling process (non-blocking); everything it logs carries the sessionId and the request ID
+    runWithLogContext({ sessionId }, () => this.executeCrawl(sessionId, startUrl, config)).catch(error => {
+      logger.error('Crawl session failed', { sessionId, error });
       this.updateSessionStatus(sessionId, 'failed');
     });
 
     return sessionId;
   }
 
+  /**
+   * Start an incremental re-crawl of a previous session.
+   * Only new or changed pages are stored in the new session.
+   */
+  async startRecrawl(
+    parentSessionId: string,
+    configOverrides: Partial<CrawlConfig> = {},
+    notify: WebhookTarget = {}
+  ): Promise<string> {
+    const parent = await CrawlSession.findOne({ sessionId: parentSessionId });
+    if (!parent) {
+      throw new Error('Session not found');
+    }
+
+    if (parent.status === 'running' || parent.status === 'pending') {
+      throw new Error('Cannot re-crawl a session that is still running');
+    }
+
+    const config: CrawlConfig = {
+      ...(parent.toObject().config as CrawlConfig),
+      ...configOverrides
+    };
+
+    return this.startDomainCrawl(parent.startUrl, config, parentSessionId, notify);
+  }
+
   /**
    * Execute the crawling process
    */
@@ -120,45 +210,69 @@ export class DomainCrawlerService {
       // Update session status
       await this.updateSessionStatus(sessionId, 'running');
 
+      this.webhookTargets.set(sessionId, await this.loadWebhookTarget(sessionId));
+      await this.notifyWebhooks(sessionId, 'crawl.started', { domain, startUrl });
+
+      if (config.extraction?.enableStructuredData && config.extraction.schema) {
+        const schema = await this.structuredExtractor.resolveSchema(
+          config.extraction.schema,
+          this.webhookTargets.get(sessionId)?.apiKeyHash
+        );
+        if (!schema) throw new Error(`Extraction schema "${config.extraction.schema}" not found`);
+        this.extractionSchemas.set(sessionId, schema);
+      }
+
       // Check robots.txt if required
       let robotsRules: any = null;
       if (config.respectRobots) {
         try {
           robotsRules = await this.getRobotsRules(domain, config.userAgent);
         } catch (error) {
-          console.warn(`Could not fetch robots.txt for ${domain}:`, error);
+          logger.warn('Could not fetch robots.txt', { domain, error });
         }
       }
 
-      // Initialize browser
-      const browser = await chromium.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox']
-      });
-
-      // Create concurrent pages
+      // One isolated context per worker on the shared browser pool
+      // (stored before leasing, so cleanup releases whatever was acquired)
+      const leases: BrowserLease[] = [];
       const pages: Page[] = [];
+      this.activeCrawlers.set(sessionId, { leases, pages });
+
       for (let i = 0; i < config.concurrent; i++) {
-        const page = await browser.newPage({
+        const lease = await BrowserPoolService.getInstance().acquireContext('standard', {
           userAgent: config.userAgent || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
         });
+        leases.push(lease);
+
+        const page = await lease.context.newPage();
         
         // Set timeout
         page.setDefaultTimeout(config.timeout || 30000);
         pages.push(page);
       }
 
-      // Store browser and pages for cleanup
-      this.activeCrawlers.set(sessionId, { browser, pages });
-
       // Add initial URL to queue
       await this.urlQueue.addUrl(sessionId, startUrl, 0, undefined, 10);
 
-      // Initialize totalUrls count
+      // Initialize totalUrls count (kept when resuming an existing queue)
       await CrawlSession.findOneAndUpdate(
         { sessionId },
-        { $set: { 'stats.totalUrls': 1 } }
+        { $max: { 'stats.totalUrls': 1 } }
       );
+      this.updateProgress(sessionId, {
+        totalUrls: Math.max(this.crawlProgress.get(sessionId)?.totalUrls || 0, 1)
+      });
+
+      // Seed the queue with sitemap URLs (pages not reachable through links)
+      if (config.seedFromSitemaps) {
+        await this.seedFromSitemaps(sessionId, startUrl, domain, config);
+      }
+
+      // Re-crawl: load the previous versions of each page and revisit all of them
+      const session = await CrawlSession.findOne({ sessionId }).select('parentSessionId');
+      if (session?.parentSessionId) {
+        await this.loadRecrawlBaseline(sessionId, session.parentSessionId);
+      }
 
       // Start crawling workers
       const workers = pages.map(page => this.crawlWorker(sessionId, page, domain, config, robotsRules));
@@ -170,12 +284,23 @@ export class DomainCrawlerService {
       await this.cleanup(sessionId);
       await this.updateSessionStatus(sessionId, 'completed');
 
-      console.log(`✅ Crawl session ${sessionId} completed successfully`);
+      logger.info('Crawl session completed', { domain });
+
+      const completed = await CrawlSession.findOne({ sessionId }).select('stats');
+      await this.notifyWebhooks(sessionId, 'crawl.completed', { domain, startUrl, stats: completed?.stats });
+      this.webhookTargets.delete(sessionId);
 
     } catch (error) {
-      console.error(`Crawl execution failed for session ${sessionId}:`, error);
+      logger.error('Crawl execution failed', { domain, error });
       await this.cleanup(sessionId);
       await this.updateSessionStatus(sessionId, 'failed');
+
+      await this.notifyWebhooks(sessionId, 'crawl.failed', {
+        domain,
+        startUrl,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      this.webhookTargets.delete(sessionId);
       throw error;
     }
   }
@@ -193,16 +318,15 @@ export class DomainCrawlerService {
     // Handle authentication if configured
     let isAuthenticated = false;
     if (config.authentication && config.authentication.type !== 'none') {
-      console.log(`🔐 Attempting authentication for ${domain} using ${config.authentication.type}`);
+      logger.info('Attempting authentication', { domain, type: config.authentication.type });
       const authResult = await this.authHandler.authenticatePage(page, config.authentication, domain);
       if (authResult.success) {
         isAuthenticated = true;
-        console.log(`✅ Authentication successful for ${domain}`);
+        logger.info('Authentication successful', { domain });
       } else {
-        console.error(`❌ Authentication failed for ${domain}:`, authResult.error);
         // If authentication is required but failed, we should not continue crawling
         // as we'll likely get access denied pages
-        console.log(`🚫 Skipping crawling due to authentication failure`);
+        logger.error('Authentication failed, skipping crawling', { domain, error: authResult.error });
         return;
       }
     }
@@ -228,12 +352,12 @@ export class DomainCrawlerService {
 
         // Check robots.txt
         if (robotsRules && !robotsRules.isAllowed(urlItem.url)) {
-          await this.urlQueue.markFailed(String(urlItem._id), 'Blocked by robots.txt');
+          await this.markUrlFailed(sessionId, urlItem, 'Blocked by robots.txt');
           continue;
         }
 
-        // Check depth limit
-        if (urlItem.depth >= config.maxDepth) {
+        // Check depth limit (pagination pages continue a listing that is already within it)
+        if (urlItem.depth >= config.maxDepth && !urlItem.isPagination) {
           await this.urlQueue.markCompleted(String(urlItem._id));
           continue;
         }
@@ -252,29 +376,66 @@ export class DomainCrawlerService {
             if (config.authentication && config.authentication.type !== 'none') {
               const authResult = await this.authHandler.authenticatePage(page, config.authentication, domain);
               if (!authResult.success) {
-                console.warn(`Re-authentication failed for ${urlItem.url}`);
+                logger.warn('Re-authentication failed', { url: urlItem.url });
               }
             }
           }
         }
 
+        // Re-crawl: ask the server whether the page changed before loading it
+        const baseline = this.recrawlBaselines.get(sessionId);
+        const previous = baseline?.get(urlItem.url);
+        if (previous) {
+          const change = await this.checkForChanges(urlItem.url, config, previous);
+
+          if (change === 'unchanged') {
+            const stored = await RawContent.findById(previous.contentId).select('htmlContent').lean();
+            await this.recordUnchangedPage(sessionId, urlItem, domain, config, previous.internalLinks, stored?.htmlContent);
+            continue;
+          }
+
+          if (change === 'removed') {
+            await this.markUrlFailed(sessionId, urlItem, 'Page removed since previous crawl');
+            await CrawlSession.findOneAndUpdate(
+              { sessionId },
+              { $inc: { 'stats.removedUrls': 1 } }
+            );
+            continue;
+          }
+        }
+
         // Crawl the page with error handling
-        let html: string;
+        let crawled: CrawledPage;
+        const crawlStartTime = Date.now();
         try {
-          html = await this.crawlPage(page, urlItem.url, config);
+          crawled = await this.crawlPage(page, urlItem.url, config);
         } catch (crawlError) {
-          console.error(`❌ Error crawling ${urlItem.url}: ${(crawlError as Error).message}`);
-          await this.urlQueue.markFailed(String(urlItem._id), `Crawling failed: ${(crawlError as Error).message}`);
+          logger.warn('Error crawling page', { url: urlItem.url, error: (crawlError as Error).message });
+          await this.markUrlFailed(sessionId, urlItem, `Crawling failed: ${(crawlError as Error).message}`);
           continue;
+        } finally {
+          // Static fetches cost no browser time
+          if (this.rendersInBrowser(config)) {
+            UsageService.getInstance().record({
+              ...this.getUsageTarget(sessionId),
+              browserSeconds: Math.round((Date.now() - crawlStartTime) / 100) / 10
+            });
+          }
         }
 
         // Extract content
-        const extractedContent = await this.contentExtractor.extractContent(html, urlItem.url, domain);
+        const extractedContent = await this.contentExtractor.extractContent(crawled.html, urlItem.url, domain);
 
         // Validate extracted content before saving
         if (!extractedContent.textContent || extractedContent.textContent.trim().length === 0) {
-          console.warn(`⚠️ Empty text content for ${urlItem.url}, skipping...`);
-          await this.urlQueue.markFailed(String(urlItem._id), 'Empty content extracted');
+          logger.warn('Empty text content, skipping', { url: urlItem.url });
+          await this.markUrlFailed(sessionId, urlItem, 'Empty content extracted');
+          continue;
+        }
+
+        // Re-crawl: skip saving pages whose content hasn't changed
+        if (previous && previous.contentHash === extractedContent.contentHash) {
+          await this.recordUnchangedPage(sessionId, urlItem, domain, config, extractedContent.extractedLinks.internal, crawled.html);
           continue;
         }
 
@@ -292,7 +453,13 @@ export class DomainCrawlerService {
             keywords: extractedContent.keywords,
             contentType: extractedContent.contentType,
             charset: extractedContent.charset,
-            language: extractedContent.language
+            language: extractedContent.language,
+            lastModified: crawled.lastModified,
+            etag: crawled.etag,
+            scrollCycles: crawled.scrollCycles,
+            responseTime: crawled.responseTime,
+            contentLength: crawled.contentLength,
+            structuredData: extractedContent.structuredData
           },
           extractedLinks: extractedContent.extractedLinks,
           images: extractedContent.images,
@@ -305,41 +472,59 @@ export class DomainCrawlerService {
         // Phase 3: Structured Data Extraction
         if (config.extraction?.enableStructuredData) {
           try {
-            console.log(`📊 Extracting structured data from ${urlItem.url}`);
-            const structuredData = await this.structuredExtractor.extractStructuredData(rawContent, undefined);
+            const structuredData = await this.structuredExtractor.extractStructuredData(
+              {
+                htmlContent: rawContent.htmlContent,
+                textContent: rawContent.textContent,
+                url: rawContent.url,
+                structuredData: extractedContent.structuredData // Stored HTML has no script tags (JSON-LD)
+              },
+              this.extractionSchemas.get(sessionId)
+            );
             
             // Update raw content with structured data
             rawContent.metadata.extractedData = structuredData;
             rawContent.processingStatus = 'extracted';
             await rawContent.save();
             
-            console.log(`✅ Structured data extracted: ${structuredData.schema} (Score: ${structuredData.qualityScore})`);
+            logger.debug('Structured data extracted', {
+              url: urlItem.url,
+              schema: structuredData.schema,
+              items: structuredData.items?.length,
+              qualityScore: structuredData.qualityScore
+            });
           } catch (error) {
-            console.warn(`Failed to extract structured data from ${urlItem.url}:`, error);
+            logger.warn('Failed to extract structured data', { url: urlItem.url, error });
           }
         }
 
-        // Add discovered internal links to queue
-        const newUrls = extractedContent.extractedLinks.internal
-          .filter(url => this.urlQueue.isInternalUrl(url, domain))
-          .map(url => ({
-            url: this.urlQueue.normalizeUrl(url),
-            depth: urlItem.depth + 1,
-            parentUrl: urlItem.url,
-            priority: this.calculatePriority(url, urlItem.depth + 1)
-          }));
+        // Count the page for the key that started the crawl (also against its monthly quota)
+        UsageService.getInstance().record({ ...this.getUsageTarget(sessionId), crawledPages: 1 });
+
+        await this.notifyWebhooks(sessionId, 'crawl.page_extracted', {
+          url: urlItem.url,
+          contentId: String(rawContent._id),
+          title: extractedContent.title,
+          contentHash: extractedContent.contentHash,
+          depth: urlItem.depth,
+          ...(rawContent.metadata.extractedData && {
+            schema: rawContent.metadata.extractedData.schema,
+            qualityScore: rawContent.metadata.extractedData.qualityScore
+          })
+        });
 
-        if (newUrls.length > 0) {
-          await this.urlQueue.addUrls(sessionId, newUrls);
-          // Update total URLs count
-          await CrawlSession.findOneAndUpdate(
-            { sessionId },
-            { $inc: { 'stats.totalUrls': newUrls.length } }
-          );
+        // Queue the next page of paginated listings ahead of other links
+        if (config.followPagination !== false) {
+          await this.enqueuePagination(sessionId, urlItem, domain, crawled.html);
         }
 
+        // Add discovered internal links to queue
+        await this.enqueueLinks(sessionId, urlItem, domain, config, extractedContent.extractedLinks.internal);
+
         // Mark URL as completed
         await this.urlQueue.markCompleted(String(urlItem._id));
+        this.emitCrawlEvent(sessionId, { type: 'url', data: { url: urlItem.url, status: 'completed' } });
+        recordCrawlPage('completed');
 
         // Update progress in memory
         this.updateProgress(sessionId, {
@@ -353,7 +538,8 @@ export class DomainCrawlerService {
           {
             $inc: {
               'stats.processedUrls': 1,
-              'stats.extractedItems': extractedContent.contentChunks.length
+              'stats.extractedItems': extractedContent.contentChunks.length,
+              ...(baseline && { [previous ? 'stats.changedUrls' : 'stats.newUrls']: 1 })
             }
           }
         );
@@ -364,21 +550,14 @@ export class DomainCrawlerService {
         }
 
       } catch (error) {
-        console.error(`Error crawling ${urlItem.url}:`, error);
+        logger.error('Error crawling page', { url: urlItem.url, error });
         const errorMessage = error instanceof Error ? error.message : String(error);
-        await this.urlQueue.markFailed(String(urlItem._id), errorMessage);
+        await this.markUrlFailed(sessionId, urlItem, errorMessage);
         
         // Update progress in memory
         this.updateProgress(sessionId, {
-          failedUrls: (this.crawlProgress.get(sessionId)?.failedUrls || 0) + 1,
           errors: [...(this.crawlProgress.get(sessionId)?.errors || []), `${urlItem.url}: ${errorMessage}`]
         });
-
-        // Update session stats in database
-        await CrawlSession.findOneAndUpdate(
-          { sessionId },
-          { $inc: { 'stats.failedUrls': 1 } }
-        );
       }
 
       // Check if we've reached the page limit
@@ -386,24 +565,46 @@ export class DomainCrawlerService {
       if (stats.completed >= config.maxPages) {
         break;
       }
+
+      // Pages count against the monthly quota of the key as they are crawled
+      if (await this.isQuotaExceeded(sessionId)) {
+        logger.warn('Monthly page quota reached, stopping crawl', { sessionId });
+        const message = 'Monthly page quota reached, crawl stopped early';
+        const errors = this.crawlProgress.get(sessionId)?.errors || [];
+        if (!errors.includes(message)) { // Once, not per worker
+          this.updateProgress(sessionId, { errors: [...errors, message] });
+        }
+        break;
+      }
     }
   }
 
+  /**
+   * Whether pages of this crawl are loaded in the browser rather than fetched
+   */
+  private rendersInBrowser(config: CrawlConfig): boolean {
+    return config.forceMethod !== 'static' && !!config.enableDynamicScraping;
+  }
+
   /**
    * Crawl a single page with error handling and retries
    * Uses different scraping strategies based on config
    */
-  private async crawlPage(page: Page, url: string, config: CrawlConfig, maxRetries: number = 3): Promise<string> {
+  private async crawlPage(page: Page, url: string, config: CrawlConfig, maxRetries: number = 3): Promise<CrawledPage> {
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        console.log(`🌐 Attempting to load ${url} (attempt ${attempt}/${maxRetries})`);
+        logger.debug('Loading page', { url, attempt, maxRetries });
 
         // Choose strategy based on config
         let html: string;
+        let headers: { [key: string]: string | undefined } = {};
+        let scrollCycles: number | undefined;
+        let responseTime: number;
+        const attemptStartTime = Date.now();
         
-        if (config.forceMethod === 'static' || !config.enableDynamicScraping) {
+        if (!this.rendersInBrowser(config)) {
           // Use static scraping (fast, but may miss dynamic content)
           const response = await fetch(url, {
             headers: {
@@ -411,22 +612,31 @@ export class DomainCrawlerService {
             }
           });
           html = await response.text();
-        } else if (config.enableStealthScraping && (config.forceMethod === 'stealth' || config.stealthLevel === 'maximum')) {
-          // Use stealth mode with Playwright
-          await page.goto(url, {
-            waitUntil: 'networkidle',
-            timeout: config.timeout || 30000
-          });
-          await page.waitForTimeout(2000); // Wait for dynamic content
-          html = await page.content();
+          responseTime = Date.now() - attemptStartTime;
+          headers = {
+            etag: response.headers.get('etag') || undefined,
+            'last-modified': response.headers.get('last-modified') || undefined
+          };
         } else {
-          // Default: Use Playwright with standard settings
-          await page.goto(url, {
-            waitUntil: 'networkidle',
-            timeout: config.timeout || 30000
-          });
-          await page.waitForTimeout(1000); // Wait a bit for dynamic content
-          html = await page.content();
+          // Stealth mode waits longer for dynamic content than the default Playwright settings
+          const stealth = config.enableStealthScraping && (config.forceMethod === 'stealth' || config.stealthLevel === 'maximum');
+
+          // Browser work shares the global slots with scrapes
+          ({ html, headers, responseTime, scrollCycles } = await withBrowserSlot(async () => {
+            const response = await page.goto(url, {
+              waitUntil: 'networkidle',
+              timeout: config.timeout || 30000
+            });
+            const loadTime = Date.now() - attemptStartTime;
+            await page.waitForTimeout(stealth ? 2000 : 1000); // Wait for dynamic content
+            const cycles = await this.loadInfiniteScroll(page, config);
+            return {
+              html: await page.content(),
+              headers: response?.headers() || {},
+              responseTime: loadTime,
+              scrollCycles: cycles
+            };
+          }));
         }
 
         // Basic validation - ensure we have substantial content
@@ -442,17 +652,26 @@ export class DomainCrawlerService {
           throw new Error(`Page appears to be blocked: ${title}`);
         }
 
-        console.log(`✅ Successfully loaded ${url} (${html.length} chars)`);
-        return html;
+        logger.debug('Page loaded', { url, chars: html.length });
+
+        // Keep validators so a later re-crawl can send conditional requests
+        const lastModified = headers['last-modified'] ? new Date(headers['last-modified']) : undefined;
+        return {
+          html,
+          etag: headers['etag'],
+          lastModified: lastModified && !isNaN(lastModified.getTime()) ? lastModified : undefined,
+          scrollCycles,
+          responseTime,
+          contentLength: Buffer.byteLength(html)
+        };
 
       } catch (error) {
         lastError = error as Error;
-        console.warn(`⚠️ Attempt ${attempt} failed for ${url}: ${lastError.message}`);
+        logger.warn('Page load attempt failed', { url, attempt, error: lastError.message });
 
         if (attempt < maxRetries) {
           // Wait before retrying with exponential backoff
           const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-          console.log(`⏳ Waiting ${delay}ms before retry...`);
           await this.delay(delay);
         }
       }
@@ -462,6 +681,294 @@ export class DomainCrawlerService {
     throw new Error(`Failed to load ${url} after ${maxRetries} attempts. Last error: ${lastError?.message}`);
   }
 
+  /**
+   * Load the rest of a feed-style listing when infinite scroll is configured
+   */
+  private async loadInfiniteScroll(page: Page, config: CrawlConfig): Promise<number | undefined> {
+    if (!config.infiniteScroll) return undefined;
+
+    try {
+      const result = await loadAllContent(page, config.infiniteScroll);
+      return result.cycles;
+    } catch (error) {
+      // Keep whatever has loaded so far
+      logger.warn('Infinite scroll failed', { url: page.url(), error: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  /**
+   * Check whether a known page is still there, as a conditional request when the previous crawl
+   * stored validators (without them, changes are detected by comparing content hashes)
+   */
+  private async checkForChanges(
+    url: string,
+    config: CrawlConfig,
+    previous: BaselinePage
+  ): Promise<'unchanged' | 'removed' | 'unknown'> {
+    const headers: { [key: string]: string } = {
+      'User-Agent': config.userAgent || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+    };
+    if (previous.etag) headers['If-None-Match'] = previous.etag;
+    if (previous.lastModified) headers['If-Modified-Since'] = previous.lastModified.toUTCString();
+
+    try {
+      const response = await fetch(url, {
+        headers,
+        signal: AbortSignal.timeout(config.timeout || 30000)
+      });
+      await response.body?.cancel();
+
+      if (response.status === 304) return 'unchanged';
+      if (response.status === 404 || response.status === 410) return 'removed';
+    } catch (error) {
+      logger.warn('Conditional request failed', { url, error });
+    }
+
+    return 'unknown';
+  }
+
+  /**
+   * Load the latest stored version of every page in the parent session chain.
+   * Unchanged pages are not stored by a re-crawl, so older sessions in the
+   * chain still hold their most recent version.
+   */
+  private async loadRecrawlBaseline(sessionId: string, parentSessionId: string): Promise<void> {
+    const chain: string[] = [];
+    let currentId: string | undefined = parentSessionId;
+
+    while (currentId && !chain.includes(currentId) && chain.length < this.MAX_RECRAWL_CHAIN) {
+      chain.push(currentId);
+      const parent: ICrawlSession | null = await CrawlSession.findOne({ sessionId: currentId }).select('parentSessionId');
+      currentId = parent?.parentSessionId;
+    }
+
+    const pages = await RawContent.find({ sessionId: { $in: chain } })
+      .select('url contentHash metadata.etag metadata.lastModified extractedLinks.internal createdAt')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    const baseline = new Map<string, BaselinePage>();
+    for (const page of pages) {
+      if (baseline.has(page.url)) continue; // Newest version wins
+      baseline.set(page.url, {
+        contentId: String(page._id),
+        contentHash: page.contentHash,
+        etag: page.metadata?.etag,
+        lastModified: page.metadata?.lastModified,
+        internalLinks: page.extractedLinks?.internal || []
+      });
+    }
+
+    this.recrawlBaselines.set(sessionId, baseline);
+
+    // Revisit every known page so removals are detected even if nothing links to them anymore
+    const inserted = await this.urlQueue.addUrlsBulk(
+      sessionId,
+      Array.from(baseline.keys()).map(url => ({
+        url,
+        depth: 0,
+        priority: 5
+      }))
+    );
+
+    if (inserted > 0) {
+      await this.recordDiscoveredUrls(sessionId, 'recrawl', inserted);
+    }
+
+    logger.info('Re-crawl baseline loaded', { sessionId, knownPages: baseline.size, previousSessions: chain.length });
+  }
+
+  /**
+   * Mark a re-crawled page as unchanged without storing it again
+   */
+  private async recordUnchangedPage(
+    sessionId: string,
+    urlItem: IUrlQueue,
+    domain: string,
+    config: CrawlConfig,
+    internalLinks: string[],
+    html?: string
+  ): Promise<void> {
+    // Keep following pagination and discovering links through unchanged pages
+    if (html && config.followPagination !== false) {
+      await this.enqueuePagination(sessionId, urlItem, domain, html);
+    }
+    await this.enqueueLinks(sessionId, urlItem, domain, config, internalLinks);
+    await this.urlQueue.markCompleted(String(urlItem._id));
+    this.emitCrawlEvent(sessionId, { type: 'url', data: { url: urlItem.url, status: 'completed', unchanged: true } });
+    recordCrawlPage('unchanged');
+
+    this.updateProgress(sessionId, {
+      processedUrls: (this.crawlProgress.get(sessionId)?.processedUrls || 0) + 1
+    });
+
+    await CrawlSession.findOneAndUpdate(
+      { sessionId },
+      { $inc: { 'stats.processedUrls': 1, 'stats.unchangedUrls': 1 } }
+    );
+  }
+
+  /**
+   * Add discovered internal links to the queue
+   */
+  private async enqueueLinks(
+    sessionId: string,
+    urlItem: IUrlQueue,
+    domain: string,
+    config: CrawlConfig,
+    links: string[]
+  ): Promise<void> {
+    const newUrls = links
+      .filter(url => this.isQueueable(url, domain, config))
+      .map(url => ({
+        url: this.urlQueue.normalizeUrl(url),
+        depth: urlItem.depth + 1,
+        parentUrl: urlItem.url,
+        priority: this.calculatePriority(url, urlItem.depth + 1)
+      }));
+
+    if (newUrls.length > 0) {
+      await this.urlQueue.addUrls(sessionId, newUrls);
+      await this.recordDiscoveredUrls(sessionId, 'links', newUrls.length, urlItem.url);
+    }
+  }
+
+  /**
+   * Count newly queued URLs in the session stats and tell subscribers
+   */
+  private async recordDiscoveredUrls(
+    sessionId: string,
+    source: 'links' | 'pagination' | 'sitemap' | 'recrawl',
+    count: number,
+    parentUrl?: string
+  ): Promise<void> {
+    // Update total URLs count
+    await CrawlSession.findOneAndUpdate(
+      { sessionId },
+      { $inc: { 'stats.totalUrls': count } }
+    );
+
+    this.emitCrawlEvent(sessionId, { type: 'discovered', data: { source, count, parentUrl } });
+    this.updateProgress(sessionId, {
+      totalUrls: (this.crawlProgress.get(sessionId)?.totalUrls || 0) + count
+    });
+  }
+
+  /**
+   * Mark a queued URL as failed and tell subscribers why
+   */
+  private async markUrlFailed(sessionId: string, urlItem: IUrlQueue, error: string): Promise<void> {
+    await this.urlQueue.markFailed(String(urlItem._id), error);
+    recordCrawlPage('failed');
+
+    // Every failure counts in the session stats (crawl analytics report failure rates from them)
+    this.updateProgress(sessionId, {
+      failedUrls: (this.crawlProgress.get(sessionId)?.failedUrls || 0) + 1
+    });
+    await CrawlSession.findOneAndUpdate(
+      { sessionId },
+      { $inc: { 'stats.failedUrls': 1 } }
+    );
+
+    this.emitCrawlEvent(sessionId, { type: 'url', data: { url: urlItem.url, status: 'failed', error } });
+  }
+
+  /**
+   * Detect a next-page link and queue it at the current depth with top priority
+   */
+  private async enqueuePagination(sessionId: string, urlItem: IUrlQueue, domain: string, html: string): Promise<void> {
+    try {
+      let learnedSelectors = this.paginationSelectors.get(sessionId);
+      if (!learnedSelectors) {
+        learnedSelectors = await this.paginationDetector.getLearnedSelectors(domain);
+        this.paginationSelectors.set(sessionId, learnedSelectors);
+      }
+
+      const next = this.paginationDetector.detectNextPage(html, urlItem.url, learnedSelectors);
+      if (!next || !this.urlQueue.isInternalUrl(next.url, domain)) return;
+
+      const added = await this.urlQueue.addPaginationUrl(
+        sessionId,
+        this.urlQueue.normalizeUrl(next.url),
+        urlItem.depth,
+        urlItem.url,
+        this.PAGINATION_PRIORITY
+      );
+
+      if (added) {
+        logger.debug('Pagination link queued', { url: urlItem.url, next: next.url, method: next.method });
+        await this.recordDiscoveredUrls(sessionId, 'pagination', 1, urlItem.url);
+      }
+
+      await this.paginationDetector.recordPattern(domain, next, urlItem.url);
+    } catch (error) {
+      logger.warn('Pagination detection failed', { url: urlItem.url, error });
+    }
+  }
+
+  /**
+   * Discover URLs from the site's sitemaps and bulk-insert them into the queue
+   */
+  private async seedFromSitemaps(sessionId: string, startUrl: string, domain: string, config: CrawlConfig): Promise<void> {
+    try {
+      logger.info('Seeding crawl from sitemaps', { domain });
+      const discovery = await SitemapParser.discover(startUrl, {
+        userAgent: config.userAgent,
+        // Leave headroom for URLs that get excluded by patterns or robots.txt
+        maxUrls: config.maxPages * 3
+      });
+
+      // Seeds are treated like links found on the start page: same filters, one level deep,
+      // and no more than the crawl can visit (the start URL takes one page)
+      const seeds = discovery.entries
+        .filter(entry => this.isQueueable(entry.url, domain, config))
+        .map(entry => ({
+          url: this.urlQueue.normalizeUrl(entry.url),
+          depth: 1,
+          parentUrl: entry.sitemap,
+          priority: this.calculateSitemapPriority(entry)
+        }))
+        .sort((a, b) => b.priority - a.priority)
+        .slice(0, Math.max(config.maxPages - 1, 0));
+
+      const inserted = await this.urlQueue.addUrlsBulk(sessionId, seeds);
+
+      if (inserted > 0) {
+        await this.recordDiscoveredUrls(sessionId, 'sitemap', inserted);
+      }
+
+      if (discovery.errors.length > 0) {
+        logger.warn('Sitemap errors', { domain, errors: discovery.errors });
+      }
+      logger.info('Seeded URLs from sitemaps', { domain, urls: inserted, sitemaps: discovery.sitemaps.length });
+
+    } catch (error) {
+      // Sitemaps are optional - fall back to link discovery
+      logger.warn('Could not seed from sitemaps', { domain, error });
+    }
+  }
+
+  /**
+   * Calculate queue priority from sitemap <priority> and <lastmod>
+   */
+  private calculateSitemapPriority(entry: SitemapEntry): number {
+    // Sitemap priority defaults to 0.5 per protocol
+    let priority = Math.round((entry.priority ?? 0.5) * 10);
+
+    // Boost recently modified pages
+    if (entry.lastmod) {
+      const ageDays = (Date.now() - entry.lastmod.getTime()) / (24 * 60 * 60 * 1000);
+      if (ageDays <= 30) {
+        priority += 3;
+      } else if (ageDays <= 365) {
+        priority += 1;
+      }
+    }
+
+    return priority;
+  }
+
   /**
    * Get robots.txt rules
    */
@@ -475,7 +982,7 @@ export class DomainCrawlerService {
         return robotsParser(robotsUrl, robotsContent);
       }
     } catch (error) {
-      console.warn(`Could not fetch robots.txt for ${domain}:`, error);
+      logger.warn('Could not fetch robots.txt', { domain, error });
     }
     
     return null;
@@ -502,6 +1009,14 @@ export class DomainCrawlerService {
     return Math.max(0, priority);
   }
 
+  /**
+   * Whether a discovered URL (link or sitemap entry) may be queued: same domain and allowed by the patterns
+   */
+  private isQueueable(url: string, domain: string, config: CrawlConfig): boolean {
+    return this.urlQueue.isInternalUrl(url, domain)
+      && this.matchesPatterns(url, config.includePatterns, config.excludePatterns);
+  }
+
   /**
    * Check if URL matches include/exclude patterns
    */
@@ -528,16 +1043,68 @@ export class DomainCrawlerService {
     return true; // No patterns or passed all checks
   }
 
+  /**
+   * Send a crawl event to the webhooks of the session (registered for its API key or passed with the request)
+   */
+  async notifyWebhooks(sessionId: string, event: WebhookEvent, data: any): Promise<void> {
+    const target = this.webhookTargets.get(sessionId) || await this.loadWebhookTarget(sessionId);
+    if (!target.apiKeyHash && !target.webhook) return;
+
+    await WebhookService.getInstance().dispatch(event, { sessionId, ...data }, target);
+  }
+
+  /**
+   * Crawl work is billed to the key that started the session, under the start endpoint
+   */
+  private getUsageTarget(sessionId: string): UsageTarget {
+    return {
+      apiKeyHash: this.webhookTargets.get(sessionId)?.apiKeyHash,
+      endpoint: '/api/crawler/start-domain-crawl',
+      method: 'POST'
+    };
+  }
+
+  /**
+   * Whether the key that started the session has used up its monthly page quota
+   */
+  private async isQuotaExceeded(sessionId: string): Promise<boolean> {
+    const { apiKeyHash } = this.getUsageTarget(sessionId);
+    if (!apiKeyHash) return false;
+
+    try {
+      const apiKeyService = ApiKeyService.getInstance();
+      const key = await apiKeyService.findByHash(apiKeyHash);
+      return !!key && apiKeyService.isQuotaExceeded(key);
+    } catch (error) {
+      logger.warn('Failed to check the monthly page quota', { sessionId, error });
+      return false;
+    }
+  }
+
+  private async loadWebhookTarget(sessionId: string): Promise<WebhookTarget> {
+    try {
+      const session = await CrawlSession.findOne({ sessionId }).select('+webhook.secret');
+      return {
+        apiKeyHash: session?.apiKeyHash,
+        webhook: session?.webhook?.url ? session.webhook : undefined
+      };
+    } catch (error) {
+      logger.warn('Failed to load webhooks', { sessionId, error });
+      return {};
+    }
+  }
+
   /**
    * Update session status
    */
   private async updateSessionStatus(sessionId: string, status: ICrawlSession['status']): Promise<void> {
-    await CrawlSession.findOneAndUpdate(
+    const session = await CrawlSession.findOneAndUpdate(
       { sessionId },
       { 
         status,
         ...(status === 'completed' && { 'stats.endTime': new Date() })
-      }
+      },
+      { new: true }
     );
 
     // Update progress tracking
@@ -546,6 +1113,8 @@ export class DomainCrawlerService {
       progress.status = status;
       this.crawlProgress.set(sessionId, progress);
     }
+
+    this.emitCrawlEvent(sessionId, { type: 'status', data: { status, stats: session?.stats } });
   }
 
   /**
@@ -556,9 +1125,24 @@ export class DomainCrawlerService {
     if (progress) {
       Object.assign(progress, updates);
       this.crawlProgress.set(sessionId, progress);
+      this.emitCrawlEvent(sessionId, { type: 'progress', data: progress });
     }
   }
 
+  /**
+   * Listen to live events of a session, returns a function that removes the listener
+   */
+  subscribeToCrawl(sessionId: string, listener: (event: CrawlEvent) => void): () => void {
+    this.crawlEvents.on(sessionId, listener);
+    return () => {
+      this.crawlEvents.off(sessionId, listener);
+    };
+  }
+
+  private emitCrawlEvent(sessionId: string, event: CrawlEvent): void {
+    this.crawlEvents.emit(sessionId, event);
+  }
+
   /**
    * Get crawl progress
    */
@@ -577,6 +1161,21 @@ export class DomainCrawlerService {
     return null;
   }
 
+  /**
+   * Check if a session is pending or running in this process
+   */
+  isCrawlInProgress(sessionId: string): boolean {
+    const progress = this.crawlProgress.get(sessionId);
+    return !!progress && (progress.status === 'pending' || progress.status === 'running');
+  }
+
+  /**
+   * Number of sessions pending or running in this process
+   */
+  getActiveCrawlCount(): number {
+    return Array.from(this.crawlProgress.keys()).filter(sessionId => this.isCrawlInProgress(sessionId)).length;
+  }
+
   /**
    * Pause crawl session
    */
@@ -586,7 +1185,7 @@ export class DomainCrawlerService {
   }
 
   /**
-   * Resume crawl session
+   * Resume a paused or failed crawl session from its existing queue
    */
   async resumeCrawl(sessionId: string): Promise<void> {
     const session = await CrawlSession.findOne({ sessionId });
@@ -594,17 +1193,98 @@ export class DomainCrawlerService {
       throw new Error('Session not found');
     }
 
-    if (session.status !== 'paused') {
-      throw new Error('Session is not paused');
+    if (session.status !== 'paused' && session.status !== 'failed') {
+      throw new Error('Only paused or failed sessions can be resumed');
+    }
+
+    if (this.isCrawlInProgress(sessionId)) {
+      throw new Error('Session is already running');
+    }
+
+    // Items claimed by a worker that no longer exists go back to the queue
+    await this.urlQueue.resetProcessingUrls(sessionId);
+    await CrawlSession.updateOne({ sessionId }, { recoveryAttempts: 0 });
+    await this.restartCrawl(session);
+  }
+
+  /**
+   * Recover sessions left in pending/running by a previous process (e.g. after a pm2 restart).
+   * Stale queue items are reset, then each session is resumed or marked failed depending on the policy.
+   * A session is resumed at most maxAttempts times, so a crawl that crashes the process
+   * (e.g. pm2 max_memory_restart) does not restart it forever.
+   */
+  async recoverInterruptedCrawls(policy: 'resume' | 'fail' = 'resume', maxAttempts: number = 3): Promise<number> {
+    const orphaned = await CrawlSession.find({ status: { $in: ['pending', 'running'] } });
+    let recovered = 0;
+
+    for (const session of orphaned) {
+      // Sessions started by this process are not orphaned
+      if (this.isCrawlInProgress(session.sessionId)) continue;
+
+      try {
+        const reset = await this.urlQueue.resetProcessingUrls(session.sessionId);
+        logger.info('Found interrupted crawl', { sessionId: session.sessionId, staleItemsReset: reset });
+
+        if (policy === 'resume' && session.recoveryAttempts < maxAttempts) {
+          await CrawlSession.updateOne({ sessionId: session.sessionId }, { $inc: { recoveryAttempts: 1 } });
+          await this.restartCrawl(session);
+        } else {
+          if (policy === 'resume') {
+            logger.warn('Crawl was interrupted too often, marking it failed', {
+              sessionId: session.sessionId,
+              recoveryAttempts: session.recoveryAttempts
+            });
+          }
+          await this.updateSessionStatus(session.sessionId, 'failed');
+        }
+        recovered++;
+      } catch (error) {
+        logger.error('Failed to recover crawl session', { sessionId: session.sessionId, error });
+      }
+    }
+
+    if (orphaned.length > 0) {
+      logger.info('Interrupted crawl sessions recovered', { policy, sessions: recovered });
     }
 
-    // Restart the crawl process
-    this.executeCrawl(sessionId, session.startUrl, session.config).catch(error => {
-      console.error(`Resume crawl session ${sessionId} failed:`, error);
+    return recovered;
+  }
+
+  /**
+   * Restart the crawl process for an existing session and queue
+   */
+  private async restartCrawl(session: ICrawlSession): Promise<void> {
+    const { sessionId } = session;
+
+    if (!this.crawlProgress.has(sessionId)) {
+      this.initProgress(sessionId);
+    }
+    this.updateProgress(sessionId, { status: 'pending' });
+
+    runWithLogContext(
+      { sessionId },
+      () => this.executeCrawl(sessionId, session.startUrl, session.toObject().config as CrawlConfig)
+    ).catch(error => {
+      logger.error('Resumed crawl session failed', { sessionId, error });
       this.updateSessionStatus(sessionId, 'failed');
     });
   }
 
+  /**
+   * Initialize in-memory progress tracking for a session
+   */
+  private initProgress(sessionId: string): void {
+    this.crawlProgress.set(sessionId, {
+      sessionId,
+      status: 'pending',
+      totalUrls: 0,
+      processedUrls: 0,
+      failedUrls: 0,
+      extractedItems: 0,
+      errors: []
+    });
+  }
+
   /**
    * Stop crawl session
    */
@@ -621,15 +1301,19 @@ export class DomainCrawlerService {
     if (crawler) {
       try {
         // Close all pages
-        await Promise.all(crawler.pages.map(page => page.close()));
-        // Close browser
-        await crawler.browser.close();
+        await Promise.all(crawler.pages.map(page => page.close().catch(() => {})));
+        // Hand the contexts back to the pool
+        await Promise.all(crawler.leases.map(lease => lease.release()));
       } catch (error) {
-        console.error(`Error cleaning up crawler ${sessionId}:`, error);
+        logger.error('Error cleaning up crawler', { sessionId, error });
       }
       
       this.activeCrawlers.delete(sessionId);
     }
+
+    this.recrawlBaselines.delete(sessionId);
+    this.paginationSelectors.delete(sessionId);
+    this.extractionSchemas.delete(sessionId);
   }
 
   /**
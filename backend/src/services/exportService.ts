@@ -9,6 +9,7 @@ import {
 } from './exporters/baseExporter';
 import { JSONExporter } from './exporters/jsonExporter';
 import { MarkdownExporter } from './exporters/markdownExporter';
+import { logger } from '../utils/logger';
 import fs from 'fs/promises';
 import path from 'path';
 const archiver = require('archiver');
@@ -17,7 +18,7 @@ export class ExportService {
   private crawlerService: DomainCrawlerService;
 
   constructor() {
-    this.crawlerService = new DomainCrawlerService();
+    this.crawlerService = DomainCrawlerService.getInstance();
   }
 
   /**
@@ -52,6 +53,7 @@ export class ExportService {
       return result;
 
     } catch (error) {
+      logger.error('Export failed', { sessionId, error });
       return {
         success: false,
         fileName: '',
@@ -105,6 +107,7 @@ export class ExportService {
       return await this.createMultiFormatZip(sessionId, results);
 
     } catch (error) {
+      logger.error('Export failed', { sessionId, error });
       return {
         success: false,
         fileName: '',
@@ -224,6 +227,7 @@ export class ExportService {
             schema: extractedData.schema,
             version: extractedData.version,
             fields: extractedData.fields,
+            items: extractedData.items,
             nestedStructures: extractedData.nestedStructures,
             qualityScore: extractedData.qualityScore,
             extractionMethod: extractedData.extractionMethod,
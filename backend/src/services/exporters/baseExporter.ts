@@ -1,3 +1,7 @@
+import { logger, Logger } from '../../utils/logger';
+import { StructuredRecord, toStructuredRecords } from '../structuredExtractor';
+import { StructuredEntity } from '../../utils/structuredDataParser';
+
 export interface ExportData {
   session: {
     sessionId: string;
@@ -27,7 +31,7 @@ export interface ContentItem {
     aiContentType?: string;
     confidence?: number;
     relevanceScore?: number;
-    structuredData?: any;
+    structuredData?: StructuredEntity[];
     aiAnalysis?: any;
   };
   contentChunks: Array<string | { type: string; selector: string; content: string; confidence: number; }>;
@@ -48,6 +52,7 @@ export interface StructuredDataItem {
   schema: string;
   version: string;
   fields: Record<string, any>;
+  items?: Array<{ fields: Record<string, any>; qualityScore: number }>;
   nestedStructures?: any[];
   qualityScore: number;
   extractionMethod: string;
@@ -76,11 +81,13 @@ export abstract class BaseExporter {
   protected sessionId: string;
   protected exportData: ExportData;
   protected options: ExportOptions;
+  protected log: Logger; // Lines carry the sessionId and format (and the request ID from the log context)
 
   constructor(sessionId: string, exportData: ExportData, options: ExportOptions) {
     this.sessionId = sessionId;
     this.exportData = exportData;
     this.options = options;
+    this.log = logger.child({ sessionId, format: options.format });
   }
 
   abstract export(): Promise<ExportResult>;
@@ -96,6 +103,16 @@ export abstract class BaseExporter {
     return items.filter(item => item.qualityScore >= this.options.minQualityScore!);
   }
 
+  /**
+   * Extracted records as rows: one per list item (or per page for single-record schemas), quality filtered
+   */
+  protected getStructuredRecords(): StructuredRecord[] {
+    const records = (this.exportData.structuredData || [])
+      .flatMap(item => toStructuredRecords(item.url, item));
+    if (!this.options.minQualityScore) return records;
+    return records.filter(record => record.qualityScore >= this.options.minQualityScore!);
+  }
+
   protected flattenContentChunks(chunks: Array<string | { type: string; selector: string; content: string; confidence: number; }>): string {
     return chunks.map(chunk => 
       typeof chunk === 'string' ? chunk : chunk.content
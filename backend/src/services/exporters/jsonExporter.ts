@@ -30,8 +30,10 @@ export class JSONExporter extends BaseExporter {
             src: img.src,
             alt: img.alt
           })) || [],
-          structuredData: page.metadata.structuredData || {}
-        }))
+          structuredData: page.metadata.structuredData || []
+        })),
+        // Schema extraction results, one row per list item (or page)
+        ...(this.exportData.structuredData && { records: this.getStructuredRecords() })
       };
 
       // Write file with pretty formatting
@@ -39,6 +41,7 @@ export class JSONExporter extends BaseExporter {
 
       // Get file stats
       const stats = await fs.stat(filePath);
+      this.log.info('Export written', { fileName, size: stats.size });
 
       return {
         success: true,
@@ -50,6 +53,7 @@ export class JSONExporter extends BaseExporter {
       };
 
     } catch (error) {
+      this.log.error('Export failed', { error });
       return {
         success: false,
         fileName: '',
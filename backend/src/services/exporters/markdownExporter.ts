@@ -1,6 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { BaseExporter, ExportResult } from './baseExporter';
+import { StructuredRecord } from '../structuredExtractor';
 
 export class MarkdownExporter extends BaseExporter {
   async export(): Promise<ExportResult> {
@@ -21,6 +22,7 @@ export class MarkdownExporter extends BaseExporter {
 
       // Get file stats
       const stats = await fs.stat(filePath);
+      this.log.info('Export written', { fileName, size: stats.size });
 
       return {
         success: true,
@@ -32,7 +34,7 @@ export class MarkdownExporter extends BaseExporter {
       };
 
     } catch (error) {
-      console.error('Error exporting to Markdown:', error);
+      this.log.error('Export failed', { error });
       return {
         success: false,
         fileName: '',
@@ -95,26 +97,76 @@ export class MarkdownExporter extends BaseExporter {
         markdown += `\n`;
       }
 
-      // Structured Data
-      if (page.metadata.structuredData && Object.keys(page.metadata.structuredData).length > 0) {
+      // Structured Data (JSON-LD, Microdata, RDFa)
+      if (page.metadata.structuredData && page.metadata.structuredData.length > 0) {
         markdown += `### Extracted Data\n\n`;
-        Object.entries(page.metadata.structuredData)
-          .filter(([key, value]) => value && value !== '')
-          .forEach(([key, value]) => {
-            const displayValue = Array.isArray(value) 
-              ? value.join(', ')
-              : String(value);
-            markdown += `- **${this.formatFieldName(key)}:** ${displayValue}\n`;
-          });
-        markdown += `\n`;
+        page.metadata.structuredData.forEach(entity => {
+          markdown += `**${entity.type}**${entity.source ? ` (${entity.source})` : ''}\n\n`;
+          Object.entries(entity.properties)
+            .map(([key, value]) => [key, this.formatEntityValue(value)])
+            .filter(([key, value]) => value !== '')
+            .forEach(([key, value]) => {
+              markdown += `- **${this.formatFieldName(key)}:** ${value}\n`;
+            });
+          markdown += `\n`;
+        });
       }
 
       markdown += `---\n\n`;
     });
 
+    // Schema extraction results as one table per schema
+    const records = this.getStructuredRecords();
+    if (records.length > 0) {
+      markdown += `## Extracted Records\n\n`;
+      Object.entries(this.groupDataBySchema(records)).forEach(([schema, schemaRecords]) => {
+        markdown += `### ${schema} (${schemaRecords.length})\n\n`;
+        markdown += this.generateRecordsTable(schemaRecords);
+      });
+    }
+
     return markdown;
   }
 
+  private generateRecordsTable(records: StructuredRecord[]): string {
+    const fieldNames = Array.from(new Set(records.flatMap(record => Object.keys(record.fields))));
+    const columns = ['URL', ...fieldNames.map(name => this.formatFieldName(name)), 'Quality'];
+
+    let table = `| ${columns.join(' | ')} |\n`;
+    table += `| ${columns.map(() => '---').join(' | ')} |\n`;
+    records.forEach(record => {
+      const cells = [
+        record.url,
+        ...fieldNames.map(name => this.formatTableCell(record.fields[name])),
+        String(record.qualityScore)
+      ];
+      table += `| ${cells.join(' | ')} |\n`;
+    });
+
+    return `${table}\n`;
+  }
+
+  /**
+   * Nested entities are shown by their name (or type), arrays comma separated
+   */
+  private formatEntityValue(value: any): string {
+    if (Array.isArray(value)) {
+      return value.map(item => this.formatEntityValue(item)).filter(Boolean).join(', ');
+    }
+    if (value && typeof value === 'object') {
+      const properties = value.properties || {};
+      const label = properties.name || properties.headline || properties.price || properties.url;
+      return label ? `${this.formatEntityValue(label)} (${value.type})` : value.type || '';
+    }
+    return value === null || value === undefined ? '' : String(value);
+  }
+
+  private formatTableCell(value: any): string {
+    if (value === null || value === undefined) return '';
+    const text = Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+  }
+
   private groupDataBySchema(data: any[]): { [schema: string]: any[] } {
     const grouped: { [schema: string]: any[] } = {};
     
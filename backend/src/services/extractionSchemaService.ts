@@ -0,0 +1,135 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { ExtractionSchemaVersion, IExtractionSchemaVersion, ISchemaField } from '../models/extractionSchemaModels';
+
+export interface ExtractionSchemaInput {
+  name: string;
+  description?: string;
+  itemSelector?: string;
+  fields: Record<string, ISchemaField>;
+}
+
+export interface ExtractionSchemaSummary {
+  name: string;
+  latestVersion: number;
+  description?: string;
+  itemSelector?: string;
+  fieldCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Extraction schemas defined per API key
+ *
+ * Schemas are immutable once stored: an update adds a new version, so crawls
+ * and exports keep pointing at the exact definition they were extracted with.
+ * Deleting a schema only hides it, for the same reason.
+ */
+export class ExtractionSchemaService {
+  private static instance: ExtractionSchemaService;
+
+  public static getInstance(): ExtractionSchemaService {
+    if (!ExtractionSchemaService.instance) {
+      ExtractionSchemaService.instance = new ExtractionSchemaService();
+    }
+    return ExtractionSchemaService.instance;
+  }
+
+  /**
+   * Latest version of every schema of an API key
+   */
+  async getSchemas(apiKeyHash: string): Promise<ExtractionSchemaSummary[]> {
+    const schemas = await ExtractionSchemaVersion.aggregate([
+      { $match: { apiKeyHash, deletedAt: null } },
+      { $sort: { name: 1, version: -1 } },
+      {
+        $group: {
+          _id: '$name',
+          latestVersion: { $first: '$version' },
+          description: { $first: '$description' },
+          itemSelector: { $first: '$itemSelector' },
+          fields: { $first: '$fields' },
+          createdAt: { $min: '$createdAt' },
+          updatedAt: { $max: '$createdAt' }
+        }
+      },
+      { $sort: { _id: 1 } }
+    ]);
+
+    return schemas.map(schema => ({
+      name: schema._id,
+      latestVersion: schema.latestVersion,
+      description: schema.description,
+      itemSelector: schema.itemSelector || undefined,
+      fieldCount: Object.keys(schema.fields || {}).length,
+      createdAt: schema.createdAt,
+      updatedAt: schema.updatedAt
+    }));
+  }
+
+  /**
+   * A version of a schema (the latest without one)
+   * Versions asked for by number are found even after the schema was deleted, as crawls are pinned to them.
+   */
+  async getSchema(apiKeyHash: string, name: string, version?: number): Promise<IExtractionSchemaVersion | null> {
+    if (version) {
+      return ExtractionSchemaVersion.findOne({ apiKeyHash, name, version });
+    }
+    return ExtractionSchemaVersion.findOne({ apiKeyHash, name, deletedAt: null }).sort({ version: -1 });
+  }
+
+  async getVersions(apiKeyHash: string, name: string): Promise<IExtractionSchemaVersion[]> {
+    return ExtractionSchemaVersion.find({ apiKeyHash, name, deletedAt: null }).sort({ version: -1 });
+  }
+
+  /**
+   * Store a new schema, numbered after the versions of a deleted schema with the same name
+   */
+  async createSchema(apiKeyHash: string, input: ExtractionSchemaInput): Promise<IExtractionSchemaVersion> {
+    const previous = await ExtractionSchemaVersion.findOne({ apiKeyHash, name: input.name }).sort({ version: -1 });
+
+    return ExtractionSchemaVersion.create({
+      schemaId: uuidv4(),
+      apiKeyHash,
+      name: input.name,
+      version: previous ? previous.version + 1 : 1,
+      description: input.description,
+      itemSelector: input.itemSelector,
+      fields: input.fields
+    });
+  }
+
+  /**
+   * Store the next version of a schema (unchanged properties come from the latest version, "" clears optional ones)
+   */
+  async updateSchema(
+    apiKeyHash: string,
+    name: string,
+    updates: Partial<Omit<ExtractionSchemaInput, 'name'>>
+  ): Promise<IExtractionSchemaVersion | null> {
+    const latest = await this.getSchema(apiKeyHash, name);
+    if (!latest) return null;
+
+    return ExtractionSchemaVersion.create({
+      schemaId: uuidv4(),
+      apiKeyHash,
+      name,
+      version: latest.version + 1,
+      description: updates.description !== undefined ? updates.description || undefined : latest.description,
+      itemSelector: updates.itemSelector !== undefined ? updates.itemSelector || undefined : latest.itemSelector,
+      fields: updates.fields || latest.fields
+    });
+  }
+
+  /**
+   * Hide a schema with all its versions (pinned name@version references keep working)
+   */
+  async deleteSchema(apiKeyHash: string, name: string): Promise<boolean> {
+    const result = await ExtractionSchemaVersion.updateMany(
+      { apiKeyHash, name, deletedAt: null },
+      { $set: { deletedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  }
+}
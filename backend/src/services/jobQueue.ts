@@ -0,0 +1,241 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { ScrapeJob, IScrapeJob, ScrapeJobType } from '../models/jobModels';
+import { WebhookService, WebhookTarget } from './webhookService';
+import { isMongoDBConnected } from '../config/database';
+import { logger, getRequestId, runWithLogContext } from '../utils/logger';
+
+export interface JobInput {
+  type: ScrapeJobType;
+  urls: string[];
+  options?: any;
+  blockedUrls?: IScrapeJob['blockedUrls'];
+  notify?: WebhookTarget; // Webhooks for job and batch events
+}
+
+/**
+ * Per-URL progress callbacks handed to job handlers
+ */
+export interface JobProgress {
+  urlStarted(index: number): Promise<void>;
+  urlFinished(index: number, error?: string): Promise<void>;
+}
+
+export type JobHandler = (job: IScrapeJob, progress: JobProgress) => Promise<any>;
+
+/**
+ * In-process worker pool for asynchronous scrape jobs
+ *
+ * Jobs are stored in MongoDB so clients can poll them, and run here by a small
+ * number of workers. Handlers still go through withBrowserSlot, the workers only
+ * bound how many jobs compete for browser slots at once.
+ */
+export class ScrapeJobService {
+  private static instance: ScrapeJobService;
+  private handlers: Map<ScrapeJobType, JobHandler> = new Map();
+  private pending: string[] = [];
+  private running = 0;
+
+  private readonly MAX_WORKERS = parseInt(process.env.JOB_WORKERS || '2', 10);
+  private readonly JOB_TTL_HOURS = parseInt(process.env.JOB_TTL_HOURS || '24', 10);
+
+  public static getInstance(): ScrapeJobService {
+    if (!ScrapeJobService.instance) {
+      ScrapeJobService.instance = new ScrapeJobService();
+    }
+    return ScrapeJobService.instance;
+  }
+
+  /**
+   * Register the function that runs jobs of a type
+   */
+  registerHandler(type: ScrapeJobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Store a job and queue it for the workers
+   */
+  async createJob(input: JobInput): Promise<IScrapeJob> {
+    if (!isMongoDBConnected()) {
+      throw new Error('Async jobs require MongoDB');
+    }
+
+    const job = await ScrapeJob.create({
+      jobId: uuidv4(),
+      type: input.type,
+      urls: input.urls,
+      options: input.options || {},
+      blockedUrls: input.blockedUrls || [],
+      apiKeyHash: input.notify?.apiKeyHash,
+      webhook: input.notify?.webhook,
+      requestId: getRequestId(),
+      progress: {
+        total: input.urls.length,
+        items: input.urls.map(url => ({ url }))
+      },
+      expiresAt: new Date(Date.now() + this.JOB_TTL_HOURS * 60 * 60 * 1000)
+    });
+
+    this.pending.push(job.jobId);
+    logger.info('Job queued', { jobId: job.jobId, type: input.type, urls: input.urls.length, waiting: this.pending.length });
+    this.drain();
+
+    return job;
+  }
+
+  /**
+   * A job of the given API key (jobs submitted without a key are only visible without one)
+   */
+  async getJob(jobId: string, apiKeyHash?: string): Promise<IScrapeJob | null> {
+    return ScrapeJob.findOne({ jobId, apiKeyHash: apiKeyHash ?? null });
+  }
+
+  /**
+   * Webhooks to notify about a job (the job must be loaded with +webhook.secret)
+   */
+  getWebhookTarget(job: IScrapeJob): WebhookTarget {
+    return {
+      apiKeyHash: job.apiKeyHash,
+      webhook: job.webhook?.url ? job.webhook : undefined
+    };
+  }
+
+  /**
+   * Requeue jobs that were waiting when the process stopped and fail the ones that were running
+   */
+  async recoverJobs(): Promise<void> {
+    if (!isMongoDBConnected()) return;
+
+    try {
+      const interrupted = await ScrapeJob.find({ status: 'running' }).select('+webhook.secret');
+      for (const job of interrupted) {
+        await this.failJob(job, 'Interrupted by a server restart');
+      }
+
+      const queued = await ScrapeJob.find({ status: 'queued' }).sort({ createdAt: 1 }).select('jobId');
+      for (const job of queued) {
+        if (!this.pending.includes(job.jobId)) {
+          this.pending.push(job.jobId);
+        }
+      }
+
+      if (interrupted.length > 0 || queued.length > 0) {
+        logger.info('Job recovery', { requeued: queued.length, failed: interrupted.length });
+      }
+      this.drain();
+    } catch (error) {
+      logger.error('Job recovery failed', { error });
+    }
+  }
+
+  getStats() {
+    return {
+      running: this.running,
+      queued: this.pending.length,
+      maxWorkers: this.MAX_WORKERS
+    };
+  }
+
+  /**
+   * Start queued jobs while workers are free
+   */
+  private drain(): void {
+    while (this.running < this.MAX_WORKERS && this.pending.length > 0) {
+      const jobId = this.pending.shift() as string;
+      this.running++;
+
+      this.runJob(jobId)
+        .catch(error => logger.error('Job crashed', { jobId, error }))
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  private async runJob(jobId: string): Promise<void> {
+    // Claim the job so it only runs once
+    const job = await ScrapeJob.findOneAndUpdate(
+      { jobId, status: 'queued' },
+      { $set: { status: 'running', startedAt: new Date() } },
+      { new: true }
+    ).select('+webhook.secret');
+    if (!job) return;
+
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await this.failJob(job, `No handler registered for ${job.type} jobs`);
+      return;
+    }
+
+    // Everything the job logs carries the jobId and the request ID of the request that queued it
+    const log = logger.child({ requestId: job.requestId, jobId });
+    log.info('Job started', { type: job.type });
+    const startTime = Date.now();
+
+    try {
+      const result = await runWithLogContext(
+        { requestId: job.requestId, jobId },
+        () => handler(job, this.createProgress(jobId))
+      );
+
+      await ScrapeJob.updateOne(
+        { jobId },
+        { $set: { status: 'completed', result, completedAt: new Date() } }
+      );
+      log.info('Job completed', { duration: Date.now() - startTime });
+
+      await WebhookService.getInstance().dispatch('job.completed', {
+        jobId,
+        type: job.type,
+        status: 'completed',
+        resultUrl: `/api/jobs/${jobId}`
+      }, this.getWebhookTarget(job));
+    } catch (error: any) {
+      log.error('Job failed', { error });
+      await this.failJob(job, error.message || 'Job failed');
+    }
+  }
+
+  private async failJob(job: IScrapeJob, message: string): Promise<void> {
+    await ScrapeJob.updateOne(
+      { jobId: job.jobId },
+      { $set: { status: 'failed', error: message, completedAt: new Date() } }
+    );
+
+    await WebhookService.getInstance().dispatch('job.failed', {
+      jobId: job.jobId,
+      type: job.type,
+      status: 'failed',
+      error: message
+    }, this.getWebhookTarget(job));
+  }
+
+  /**
+   * Progress updates are best effort, a failed write must not fail the job
+   */
+  private createProgress(jobId: string): JobProgress {
+    return {
+      urlStarted: async (index: number) => {
+        await ScrapeJob.updateOne(
+          { jobId },
+          { $set: { [`progress.items.${index}.status`]: 'running' } }
+        ).catch(error => logger.warn('Failed to update job progress', { jobId, error }));
+      },
+      urlFinished: async (index: number, error?: string) => {
+        await ScrapeJob.updateOne(
+          { jobId },
+          {
+            $set: {
+              [`progress.items.${index}.status`]: error ? 'failed' : 'completed',
+              [`progress.items.${index}.completedAt`]: new Date(),
+              ...(error && { [`progress.items.${index}.error`]: error })
+            },
+            $inc: { [error ? 'progress.failed' : 'progress.completed']: 1 }
+          }
+        ).catch(updateError => logger.warn('Failed to update job progress', { jobId, error: updateError }));
+      }
+    };
+  }
+}
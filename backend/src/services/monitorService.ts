@@ -0,0 +1,392 @@
+import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
+import { URL } from 'url';
+import { v4 as uuidv4 } from 'uuid';
+
+import { Monitor, MonitorVersion, IMonitor, IMonitorVersion } from '../models/monitorModels';
+import { IntelligentScraper } from '../utils/intelligentScraper';
+import { ContentExtractorService } from './contentExtractor';
+import { withBrowserSlot } from '../utils/concurrencyLimiter';
+import { validateUrl } from '../utils/urlValidator';
+import { WebhookService } from './webhookService';
+import { createContentDiff, ContentDiff } from '../utils/contentDiff';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
+
+export interface MonitorInput {
+  name: string;
+  url: string;
+  selector?: string;
+  intervalMinutes: number;
+  options?: IMonitor['options'];
+  webhookUrl?: string;
+  webhookSecret?: string; // Generated when a webhook URL is set without one
+  enabled?: boolean;
+  apiKeyHash?: string; // Owner, set on creation only
+}
+
+export interface MonitorCheckResult {
+  changed: boolean;
+  version: IMonitorVersion;
+  previousVersion?: IMonitorVersion;
+  diff?: ContentDiff;
+}
+
+interface MonitorSnapshot {
+  title?: string;
+  markdownContent: string;
+  contentHash: string;
+  method: string;
+}
+
+export class MonitorService {
+  private static instance: MonitorService;
+  private contentExtractor: ContentExtractorService;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private checking: Set<string> = new Set();
+  private readonly TICK_INTERVAL = 60 * 1000; // 1 minute
+
+  constructor() {
+    this.contentExtractor = new ContentExtractorService();
+  }
+
+  public static getInstance(): MonitorService {
+    if (!MonitorService.instance) {
+      MonitorService.instance = new MonitorService();
+    }
+    return MonitorService.instance;
+  }
+
+  /**
+   * Start checking due monitors on an interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), this.TICK_INTERVAL);
+    this.timer.unref();
+    logger.info('Change monitor started');
+  }
+
+  /**
+   * Stop checking monitors
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Change monitor stopped');
+    }
+  }
+
+  /**
+   * Check every monitor that is due, one at a time
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking || !isMongoDBConnected()) return;
+    this.ticking = true;
+
+    try {
+      const dueMonitors = await Monitor.find({
+        enabled: true,
+        nextCheckAt: { $lte: new Date() }
+      }).sort({ nextCheckAt: 1 });
+
+      for (const monitor of dueMonitors) {
+        // Claim the check by scheduling the next one
+        const claimed = await Monitor.findOneAndUpdate(
+          { _id: monitor._id, nextCheckAt: monitor.nextCheckAt },
+          { $set: { nextCheckAt: this.getNextCheckAt(monitor.intervalMinutes) } }
+        );
+        if (!claimed) continue;
+
+        try {
+          await this.checkMonitor(monitor);
+        } catch (error) {
+          logger.error('Monitor check failed', { monitorId: monitor.monitorId, error });
+        }
+      }
+    } catch (error) {
+      logger.error('Change monitor tick failed', { error });
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Scrape a monitor's page and store a new version if the content changed
+   */
+  async checkMonitor(monitor: IMonitor): Promise<MonitorCheckResult> {
+    if (this.checking.has(monitor.monitorId)) {
+      throw new Error('A check for this monitor is already in progress');
+    }
+    this.checking.add(monitor.monitorId);
+
+    const checkedAt = new Date();
+
+    try {
+      const snapshot = await this.captureSnapshot(monitor);
+      const latest = await MonitorVersion.findOne({ monitorId: monitor.monitorId }).sort({ version: -1 });
+
+      if (latest && latest.contentHash === snapshot.contentHash) {
+        await Monitor.updateOne(
+          { monitorId: monitor.monitorId },
+          { $set: { lastCheckedAt: checkedAt, lastStatus: 'unchanged' }, $unset: { lastError: 1 } }
+        );
+        return { changed: false, version: latest };
+      }
+
+      const versionNumber = (latest?.version || 0) + 1;
+      const diff = latest
+        ? createContentDiff(latest.markdownContent, snapshot.markdownContent, `v${latest.version}`, `v${versionNumber}`)
+        : undefined;
+
+      const version = await new MonitorVersion({
+        monitorId: monitor.monitorId,
+        version: versionNumber,
+        contentHash: snapshot.contentHash,
+        title: snapshot.title,
+        markdownContent: snapshot.markdownContent,
+        diffStats: diff?.stats,
+        scrapeMethod: snapshot.method
+      }).save();
+
+      await Monitor.updateOne(
+        { monitorId: monitor.monitorId },
+        {
+          $set: { lastCheckedAt: checkedAt, lastChangedAt: checkedAt, lastStatus: 'changed' },
+          $unset: { lastError: 1 },
+          $inc: { versionCount: 1 }
+        }
+      );
+
+      if (latest && diff) {
+        logger.info('Change detected', { monitorId: monitor.monitorId, from: latest.version, to: versionNumber });
+        await this.notifyChange(monitor, latest, version, diff);
+      }
+
+      return { changed: !!latest, version, previousVersion: latest || undefined, diff };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      await Monitor.updateOne(
+        { monitorId: monitor.monitorId },
+        { $set: { lastCheckedAt: checkedAt, lastStatus: 'error', lastError: errorMessage } }
+      );
+      throw error;
+    } finally {
+      this.checking.delete(monitor.monitorId);
+    }
+  }
+
+  /**
+   * Scrape the page with the intelligent scraper and convert the watched content to markdown
+   */
+  private async captureSnapshot(monitor: IMonitor): Promise<MonitorSnapshot> {
+    // SECURITY: Re-validate on every check, DNS can change after the monitor was created
+    const urlValidation = await validateUrl(monitor.url);
+    if (!urlValidation.valid) {
+      throw new Error(`URL not allowed: ${urlValidation.reason}`);
+    }
+    const url = urlValidation.sanitizedUrl || monitor.url;
+
+    const intelligentScraper = new IntelligentScraper();
+    try {
+      const scrapedData = await withBrowserSlot(async () => {
+        return await intelligentScraper.scrape(url, monitor.toObject().options || {});
+      });
+
+      let markdownContent: string;
+      if (monitor.selector) {
+        if (!scrapedData.html) {
+          throw new Error('No HTML captured for the monitored page');
+        }
+        const $ = cheerio.load(scrapedData.html);
+        const region = $(monitor.selector);
+        if (region.length === 0) {
+          throw new Error(`Selector "${monitor.selector}" did not match any elements`);
+        }
+        region.find('script, style, noscript').remove();
+        const regionHtml = region.toArray().map(el => $.html(el)).join('\n');
+        markdownContent = this.contentExtractor.convertToMarkdown(regionHtml);
+      } else {
+        // Same markdown /scrape returns, converted from the captured HTML
+        markdownContent = scrapedData.markdownContent || scrapedData.content;
+      }
+
+      markdownContent = markdownContent.trim();
+      if (markdownContent.length === 0) {
+        throw new Error('No content extracted from the monitored page');
+      }
+
+      return {
+        title: scrapedData.title,
+        markdownContent,
+        contentHash: createHash('sha256').update(markdownContent).digest('hex'),
+        method: scrapedData.method
+      };
+    } finally {
+      await intelligentScraper.cleanup();
+    }
+  }
+
+  /**
+   * Send the change to the monitor's webhook and the webhooks registered for its
+   * API key, as signed, logged and retried deliveries
+   */
+  private async notifyChange(
+    monitor: IMonitor,
+    previousVersion: IMonitorVersion,
+    version: IMonitorVersion,
+    diff: ContentDiff
+  ): Promise<void> {
+    const withSecret = monitor.webhookUrl
+      ? await Monitor.findOne({ monitorId: monitor.monitorId }).select('+webhookSecret')
+      : null;
+
+    await WebhookService.getInstance().dispatch('monitor.changed', {
+      monitor: {
+        monitorId: monitor.monitorId,
+        name: monitor.name,
+        url: monitor.url,
+        selector: monitor.selector
+      },
+      previousVersion: previousVersion.version,
+      version: version.version,
+      detectedAt: version.createdAt,
+      diff
+    }, {
+      apiKeyHash: monitor.apiKeyHash,
+      webhook: monitor.webhookUrl && withSecret?.webhookSecret
+        ? { url: monitor.webhookUrl, secret: withSecret.webhookSecret }
+        : undefined
+    });
+  }
+
+  /**
+   * Create a monitor (the first check runs on the next tick)
+   */
+  async createMonitor(input: MonitorInput): Promise<IMonitor> {
+    const webhookSecret = input.webhookUrl
+      ? input.webhookSecret || WebhookService.getInstance().generateSecret()
+      : undefined;
+
+    const monitor = new Monitor({
+      monitorId: uuidv4(),
+      apiKeyHash: input.apiKeyHash,
+      name: input.name,
+      url: input.url,
+      selector: input.selector,
+      intervalMinutes: input.intervalMinutes,
+      options: input.options || {},
+      webhookUrl: input.webhookUrl,
+      webhookSecret,
+      enabled: input.enabled ?? true,
+      nextCheckAt: new Date()
+    });
+
+    return await monitor.save();
+  }
+
+  /**
+   * Update a monitor of an API key (a secret is generated when a webhook URL is first set without one)
+   */
+  async updateMonitor(
+    monitorId: string,
+    apiKeyHash: string | undefined,
+    updates: Partial<Omit<MonitorInput, 'apiKeyHash'>>
+  ): Promise<IMonitor | null> {
+    const monitor = await Monitor.findOne({ monitorId, apiKeyHash: apiKeyHash ?? null }).select('+webhookSecret');
+    if (!monitor) return null;
+
+    if (updates.name !== undefined) monitor.name = updates.name;
+    if (updates.url !== undefined) monitor.url = updates.url;
+    if (updates.selector !== undefined) monitor.selector = updates.selector || undefined;
+    if (updates.options !== undefined) monitor.options = updates.options;
+    if (updates.webhookUrl !== undefined) monitor.webhookUrl = updates.webhookUrl || undefined;
+    if (updates.webhookSecret !== undefined) monitor.webhookSecret = updates.webhookSecret;
+    if (monitor.webhookUrl && !monitor.webhookSecret) {
+      monitor.webhookSecret = WebhookService.getInstance().generateSecret();
+    }
+
+    if (updates.intervalMinutes !== undefined) {
+      monitor.intervalMinutes = updates.intervalMinutes;
+      monitor.nextCheckAt = this.getNextCheckAt(updates.intervalMinutes);
+    }
+
+    if (updates.enabled !== undefined && updates.enabled !== monitor.enabled) {
+      monitor.enabled = updates.enabled;
+      if (updates.enabled) {
+        monitor.nextCheckAt = new Date();
+      }
+    }
+
+    return await monitor.save();
+  }
+
+  /**
+   * Delete a monitor of an API key and its version history
+   */
+  async deleteMonitor(monitorId: string, apiKeyHash?: string): Promise<boolean> {
+    const result = await Monitor.deleteOne({ monitorId, apiKeyHash: apiKeyHash ?? null });
+    if (result.deletedCount === 0) return false;
+
+    await MonitorVersion.deleteMany({ monitorId });
+    return true;
+  }
+
+  /**
+   * Monitors of an API key (monitors created without a key are only visible without one)
+   */
+  async getAllMonitors(apiKeyHash?: string): Promise<IMonitor[]> {
+    return await Monitor.find({ apiKeyHash: apiKeyHash ?? null }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Get a monitor, if it belongs to the API key
+   */
+  async getMonitor(monitorId: string, apiKeyHash?: string): Promise<IMonitor | null> {
+    return await Monitor.findOne({ monitorId, apiKeyHash: apiKeyHash ?? null });
+  }
+
+  /**
+   * Get version history for a monitor, newest first (without content)
+   * Versions are looked up by monitor, check its owner with getMonitor first
+   */
+  async getVersions(monitorId: string, limit: number = 50, skip: number = 0): Promise<IMonitorVersion[]> {
+    return await MonitorVersion.find({ monitorId })
+      .select('-markdownContent')
+      .sort({ version: -1 })
+      .skip(skip)
+      .limit(limit);
+  }
+
+  /**
+   * Get a single version including its content
+   */
+  async getVersion(monitorId: string, version: number): Promise<IMonitorVersion | null> {
+    return await MonitorVersion.findOne({ monitorId, version });
+  }
+
+  /**
+   * Diff any two stored versions of a monitor
+   */
+  async diffVersions(monitorId: string, fromVersion: number, toVersion: number): Promise<ContentDiff | null> {
+    const [from, to] = await Promise.all([
+      this.getVersion(monitorId, fromVersion),
+      this.getVersion(monitorId, toVersion)
+    ]);
+
+    if (!from || !to) return null;
+
+    return createContentDiff(from.markdownContent, to.markdownContent, `v${from.version}`, `v${to.version}`);
+  }
+
+  /**
+   * Calculate the next check time
+   */
+  private getNextCheckAt(intervalMinutes: number): Date {
+    return new Date(Date.now() + intervalMinutes * 60 * 1000);
+  }
+}
@@ -0,0 +1,212 @@
+import * as cheerio from 'cheerio';
+import { URL } from 'url';
+import { CrawlPattern } from '../models/crawlerModels';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
+
+export interface PaginationLink {
+  url: string;
+  selector: string;
+  method: 'learned' | 'rel-next' | 'next-anchor' | 'page-sequence';
+  confidence: number;
+}
+
+// Anchor text / labels that usually point to the next page
+const NEXT_TEXT_PATTERN = /^(next|next page|next »|next ›|›|»|→|>|older posts|older entries|more results|suivant|weiter|siguiente)$/i;
+const NEXT_CLASS_PATTERN = /(^|[-_])next($|[-_])/i;
+
+// Query parameters and path segments used for numbered pages
+const PAGE_PARAMS = ['page', 'p', 'pg', 'paged'];
+const PAGE_PATH_PATTERN = /\/page\/(\d+)\/?$/i;
+
+export class PaginationDetector {
+  /**
+   * Find the link to the next page of a paginated listing
+   * Learned selectors for the domain are tried first, then rel=next, "Next" anchors and ?page=N sequences
+   */
+  detectNextPage(html: string, pageUrl: string, learnedSelectors: string[] = []): PaginationLink | null {
+    const $ = cheerio.load(html);
+
+    for (const selector of learnedSelectors) {
+      const link = this.resolveCandidate($, selector, pageUrl, 'learned', 0.9);
+      if (link) return link;
+    }
+
+    for (const selector of ['link[rel="next"]', 'a[rel~="next"]']) {
+      const link = this.resolveCandidate($, selector, pageUrl, 'rel-next', 0.95);
+      if (link) return link;
+    }
+
+    const anchorLink = this.detectNextAnchor($, pageUrl);
+    if (anchorLink) return anchorLink;
+
+    return this.detectPageSequence($, pageUrl);
+  }
+
+  /**
+   * Get pagination selectors that worked on this domain before, best first
+   */
+  async getLearnedSelectors(domain: string): Promise<string[]> {
+    if (!isMongoDBConnected()) return [];
+
+    try {
+      const patterns = await CrawlPattern.find({
+        domain,
+        patternType: 'pagination',
+        'examples.extractedData.method': { $ne: 'page-sequence' } // Sequences are URL based, not selectors
+      })
+        .sort({ confidence: -1, usageCount: -1 })
+        .limit(3)
+        .select('selector');
+
+      return patterns.map(pattern => pattern.selector);
+    } catch (error) {
+      logger.warn('Failed to load pagination patterns', { domain, error });
+      return [];
+    }
+  }
+
+  /**
+   * Save the selector that found a next page so later crawls of the domain try it first
+   */
+  async recordPattern(domain: string, link: PaginationLink, pageUrl: string): Promise<void> {
+    if (!isMongoDBConnected()) return;
+
+    try {
+      await CrawlPattern.findOneAndUpdate(
+        { domain, patternType: 'pagination', selector: link.selector },
+        {
+          $set: {
+            description: `Next page link detected via ${link.method}`,
+            lastUsed: new Date()
+          },
+          $max: { confidence: link.confidence },
+          $inc: { usageCount: 1 },
+          $push: {
+            examples: {
+              $each: [{ url: pageUrl, extractedData: { nextUrl: link.url, method: link.method } }],
+              $slice: -5
+            }
+          }
+        },
+        { upsert: true, setDefaultsOnInsert: true }
+      );
+    } catch (error) {
+      logger.warn('Failed to save pagination pattern', { domain, error });
+    }
+  }
+
+  /**
+   * Find anchors labelled "Next" (text, aria-label, title or class)
+   */
+  private detectNextAnchor($: cheerio.CheerioAPI, pageUrl: string): PaginationLink | null {
+    for (const element of $('a[href]').toArray()) {
+      const $el = $(element);
+      const text = $el.text().replace(/\s+/g, ' ').trim();
+      const labelAttr = $el.attr('aria-label') ? 'aria-label' : 'title';
+      const label = ($el.attr(labelAttr) || '').trim();
+      const nextClass = ($el.attr('class') || '').split(/\s+/).find(cls => NEXT_CLASS_PATTERN.test(cls));
+
+      let selector: string | undefined;
+      let confidence = 0.75;
+      if (nextClass) {
+        selector = `a.${nextClass}`;
+        confidence = 0.85;
+      } else if (label && NEXT_TEXT_PATTERN.test(label)) {
+        selector = `a[${labelAttr}="${label.replace(/"/g, '\\"')}"]`;
+      } else if (text && NEXT_TEXT_PATTERN.test(text)) {
+        selector = `a:contains("${text.replace(/"/g, '\\"')}")`;
+      }
+
+      if (!selector) continue;
+
+      const url = this.resolveUrl($el.attr('href'), pageUrl);
+      if (url) {
+        return { url, selector, method: 'next-anchor', confidence };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find a link to page N+1 when the URL has ?page=N or /page/N
+   */
+  private detectPageSequence($: cheerio.CheerioAPI, pageUrl: string): PaginationLink | null {
+    const current = new URL(pageUrl);
+    const expected: string[] = [];
+
+    for (const param of PAGE_PARAMS) {
+      const value = current.searchParams.get(param);
+      if (value !== null && !/^\d+$/.test(value)) continue;
+      // Page 1 often has no parameter at all
+      if (value === null && param !== 'page') continue;
+
+      const next = new URL(current.href);
+      next.searchParams.set(param, String((value ? parseInt(value, 10) : 1) + 1));
+      next.hash = '';
+      expected.push(next.href);
+    }
+
+    const pathMatch = current.pathname.match(PAGE_PATH_PATTERN);
+    const next = new URL(current.href);
+    next.hash = '';
+    next.pathname = pathMatch
+      ? current.pathname.replace(PAGE_PATH_PATTERN, `/page/${parseInt(pathMatch[1], 10) + 1}/`)
+      : `${current.pathname.replace(/\/$/, '')}/page/2/`;
+    expected.push(next.href);
+
+    const normalize = (href: string) => href.replace(/\/$/, '');
+    const expectedSet = new Set(expected.map(normalize));
+
+    for (const element of $('a[href]').toArray()) {
+      const url = this.resolveUrl($(element).attr('href'), pageUrl);
+      if (url && expectedSet.has(normalize(url))) {
+        return { url, selector: 'a[href]', method: 'page-sequence', confidence: 0.6 };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve the first element matching a selector to a next-page link
+   */
+  private resolveCandidate(
+    $: cheerio.CheerioAPI,
+    selector: string,
+    pageUrl: string,
+    method: PaginationLink['method'],
+    confidence: number
+  ): PaginationLink | null {
+    try {
+      const url = this.resolveUrl($(selector).first().attr('href'), pageUrl);
+      return url ? { url, selector, method, confidence } : null;
+    } catch {
+      return null; // Invalid selector
+    }
+  }
+
+  /**
+   * Resolve an href against the page URL, only keeping same-host links to a different page
+   */
+  private resolveUrl(href: string | undefined, pageUrl: string): string | null {
+    if (!href || href.startsWith('#') || href.startsWith('javascript:')) return null;
+
+    try {
+      const base = new URL(pageUrl);
+      const resolved = new URL(href, base);
+      resolved.hash = '';
+
+      if (!['http:', 'https:'].includes(resolved.protocol)) return null;
+      if (resolved.hostname !== base.hostname) return null;
+
+      base.hash = '';
+      if (resolved.href === base.href) return null;
+
+      return resolved.href;
+    } catch {
+      return null;
+    }
+  }
+}
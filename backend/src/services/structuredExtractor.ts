@@ -1,14 +1,31 @@
 import * as cheerio from 'cheerio';
 import { IRawContent } from '../models/crawlerModels';
+import { ExtractionSchemaService } from './extractionSchemaService';
+import { isMongoDBConnected } from '../config/database';
+import {
+  parseStructuredData,
+  findEntity,
+  getEntityProperty,
+  StructuredEntity,
+  StructuredDataSource
+} from '../utils/structuredDataParser';
+import { evaluateXPath } from '../utils/htmlXPath';
+import { runWithTimeLimit } from '../utils/timeLimit';
+import { applyTransforms, FieldTransform, TransformContext, TransformStep } from '../utils/fieldTransforms';
+import { logger } from '../utils/logger';
 
 export interface ExtractionSchema {
   name: string;
   version: string;
+  itemSelector?: string; // List mode: every match is a record, field selectors are relative to it
   fields: {
     [key: string]: {
       type: 'text' | 'number' | 'date' | 'url' | 'email' | 'phone' | 'currency' | 'array' | 'object';
       selector?: string;
+      xpath?: string; // Instead of selector
       attribute?: string;
+      regex?: string; // Applied to the value: the first capture group, or the whole match
+      transforms?: FieldTransform[]; // Applied in order before type conversion
       required?: boolean;
       multiple?: boolean;
       nested?: ExtractionSchema;
@@ -16,16 +33,199 @@ export interface ExtractionSchema {
   };
 }
 
+/**
+ * Page to extract from; structuredData is parsed from the HTML when not given
+ * (pass it when the HTML no longer has its script tags, as stored crawl content)
+ */
+export type ExtractionInput = Pick<IRawContent, 'htmlContent' | 'textContent'> & {
+  url?: string;
+  structuredData?: StructuredEntity[];
+};
+
+export interface ExtractedItem {
+  fields: { [key: string]: any };
+  qualityScore: number;
+}
+
 export interface ExtractionResult {
   schema: string;
   version: string;
-  fields: { [key: string]: any };
+  fields: { [key: string]: any }; // Empty for list schemas, their records are in items
+  items?: ExtractedItem[];
   nestedStructures: any[];
-  qualityScore: number;
+  qualityScore: number; // Average of the item scores for list schemas
   extractionMethod: 'pattern' | 'selector' | 'heuristic';
+  structuredDataSource?: StructuredDataSource; // Fields taken from schema.org data instead of selectors
   extractedAt: Date;
 }
 
+export interface AvailableSchema {
+  name: string;
+  version: string;
+  builtIn: boolean;
+  description?: string;
+  itemSelector?: string;
+  fieldCount: number;
+}
+
+/**
+ * One extracted record: a page, or one item of a list page
+ */
+export interface StructuredRecord {
+  url: string;
+  schema: string;
+  version: string;
+  itemIndex: number | null; // Position on the page for list schemas
+  qualityScore: number;
+  fields: { [key: string]: any };
+}
+
+export interface FieldTestResult {
+  type: string;
+  selector?: string;
+  xpath?: string;
+  attribute?: string;
+  regex?: string;
+  transforms?: FieldTransform[];
+  required: boolean;
+  multiple: boolean;
+  source: 'selector' | StructuredDataSource; // Where the extracted value came from
+  matchCount: number;
+  matches: Array<{ html?: string; text: string; value: any }>; // First MAX_TEST_MATCHES matches (html when an element matched)
+  conversion: { input: any; steps?: TransformStep[]; output: any; valid: boolean }; // convertAndValidateValue on the raw value
+  error?: string;
+}
+
+export interface QualityBreakdown {
+  totalFields: number;
+  extractedFields: number;
+  requiredFields: number;
+  requiredExtracted: number;
+  baseScore: number; // extractedFields / totalFields
+  requiredScore: number; // requiredExtracted / requiredFields (1 without required fields)
+  weights: { base: number; required: number };
+  score: number;
+}
+
+export interface SchemaTestResult {
+  schema: string;
+  version: string;
+  fields: { [key: string]: any }; // What a crawl would store (list schemas: the first item)
+  itemCount?: number;
+  items?: ExtractedItem[]; // First MAX_TEST_MATCHES records of a list schema
+  fieldResults: { [key: string]: FieldTestResult };
+  structuredDataSource?: StructuredDataSource;
+  missingRequired: string[];
+  quality: QualityBreakdown;
+}
+
+/**
+ * schema.org types and property paths behind the built-in schemas (the first path with a value wins)
+ */
+const SCHEMA_ORG_MAPPINGS: Record<string, { types: (type: string) => boolean; fields: Record<string, string[]> }> = {
+  product: {
+    types: type => ['Product', 'ProductGroup', 'ProductModel', 'IndividualProduct'].includes(type),
+    fields: {
+      title: ['name'],
+      price: ['offers.price', 'offers.lowPrice', 'offers.priceSpecification.price'],
+      description: ['description'],
+      image: ['image'],
+      rating: ['aggregateRating.ratingValue'],
+      availability: ['offers.availability'],
+      sku: ['sku', 'mpn', 'gtin13', 'gtin'],
+      brand: ['brand', 'manufacturer'],
+      category: ['category']
+    }
+  },
+  article: {
+    types: type => type.endsWith('Article') || ['BlogPosting', 'LiveBlogPosting', 'Report'].includes(type),
+    fields: {
+      title: ['headline', 'name'],
+      author: ['author'],
+      publishDate: ['datePublished', 'dateCreated'],
+      content: ['articleBody'],
+      excerpt: ['description'],
+      tags: ['keywords'],
+      category: ['articleSection'],
+      readTime: ['timeRequired']
+    }
+  },
+  event: {
+    types: type => type.endsWith('Event'),
+    fields: {
+      title: ['name'],
+      date: ['startDate'],
+      location: ['location'],
+      description: ['description'],
+      price: ['offers.price', 'offers.lowPrice'],
+      organizer: ['organizer']
+    }
+  },
+  job: {
+    types: type => type === 'JobPosting',
+    fields: {
+      title: ['title', 'name'],
+      company: ['hiringOrganization'],
+      location: ['jobLocation'],
+      description: ['description'],
+      salary: ['baseSalary.value.value', 'baseSalary.value.minValue', 'baseSalary.value'],
+      employmentType: ['employmentType'],
+      postDate: ['datePosted'],
+      requirements: ['qualifications', 'experienceRequirements']
+    }
+  }
+};
+
+const MAX_TEST_MATCHES = 20;
+const MAX_LIST_ITEMS = 500; // Records kept per page in list mode
+const MAX_REGEX_INPUT = 100000; // Characters a field regex runs on (page text for fields without a selector)
+
+// A value a field matched, with the element it was read from (none for XPath attribute/text results)
+interface FieldMatch {
+  element?: cheerio.Cheerio<any>;
+  value: any;
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength)}…` : value;
+}
+
+/**
+ * Flatten a page's extraction result into records (one per list item, or the page itself)
+ */
+export function toStructuredRecords(
+  url: string,
+  extractedData: Pick<ExtractionResult, 'schema' | 'version' | 'fields' | 'items' | 'qualityScore'>
+): StructuredRecord[] {
+  if (extractedData.items) {
+    return extractedData.items.map((item, index) => ({
+      url,
+      schema: extractedData.schema,
+      version: extractedData.version,
+      itemIndex: index,
+      qualityScore: item.qualityScore,
+      fields: item.fields
+    }));
+  }
+
+  return [{
+    url,
+    schema: extractedData.schema,
+    version: extractedData.version,
+    itemIndex: null,
+    qualityScore: extractedData.qualityScore,
+    fields: extractedData.fields || {}
+  }];
+}
+
+/**
+ * Split a schema reference ("product", "my-listing" or "my-listing@3") into name and version
+ */
+export function parseSchemaReference(reference: string): { name: string; version?: number } {
+  const match = reference.match(/^(.+)@(\d+)$/);
+  return match ? { name: match[1], version: parseInt(match[2], 10) } : { name: reference };
+}
+
 export class StructuredExtractor {
   private defaultSchemas: Map<string, ExtractionSchema> = new Map();
 
@@ -114,16 +314,20 @@ export class StructuredExtractor {
         requirements: { type: 'text', selector: '.requirements, .qualifications' }
       }
     });
+
+    // Fallback for unknown content types (can also be selected by name)
+    this.defaultSchemas.set('generic', this.createGenericSchema());
   }
 
   /**
    * Extract structured data from content
    */
   async extractStructuredData(
-    content: IRawContent,
+    content: ExtractionInput,
     customSchema?: ExtractionSchema
   ): Promise<ExtractionResult> {
     const $ = cheerio.load(content.htmlContent);
+    const entities = content.structuredData ?? parseStructuredData($, content.url);
     
     // Determine schema to use
     let schema: ExtractionSchema;
@@ -134,12 +338,31 @@ export class StructuredExtractor {
       method = 'selector';
     } else {
       // Auto-detect schema based on content
-      schema = this.detectSchema($, content);
+      schema = this.detectSchema($, content, entities);
       method = 'heuristic';
     }
 
-    // Extract data using schema
-    const extractedFields = this.extractFields($, schema);
+    // List mode: one record per item, scored separately
+    if (schema.itemSelector) {
+      const items = this.extractItems($, schema, content.url);
+
+      return {
+        schema: schema.name,
+        version: schema.version,
+        fields: {},
+        items,
+        nestedStructures: [],
+        qualityScore: items.length > 0
+          ? Math.round(items.reduce((sum, item) => sum + item.qualityScore, 0) / items.length * 100) / 100
+          : 0,
+        extractionMethod: method,
+        extractedAt: new Date()
+      };
+    }
+
+    // Extract data using schema, preferring schema.org data where the page publishes it
+    const extractedFields = this.extractFields($, schema, undefined, content.url);
+    const schemaOrg = this.applySchemaOrgFields(extractedFields, schema, entities);
     
     // Extract nested structures
     const nestedStructures = this.extractNestedStructures($, schema);
@@ -154,45 +377,201 @@ export class StructuredExtractor {
       nestedStructures,
       qualityScore,
       extractionMethod: method,
+      ...(schemaOrg && { structuredDataSource: schemaOrg.source }),
       extractedAt: new Date()
     };
   }
 
   /**
-   * Extract fields using schema
+   * Run a schema against HTML and report how each field was extracted (schema test bench)
+   * For list schemas, fields are traced within the first item and every item is returned as a record
    */
-  private extractFields($: cheerio.CheerioAPI, schema: ExtractionSchema): { [key: string]: any } {
-    const extracted: { [key: string]: any } = {};
+  testSchema(html: string, schema: ExtractionSchema, url?: string): SchemaTestResult {
+    const $ = cheerio.load(html);
+    const items = schema.itemSelector ? this.extractItems($, schema, url) : undefined;
+    const scope = schema.itemSelector ? $(schema.itemSelector).first() : undefined;
+    const fields = scope && scope.length === 0 ? {} : this.extractFields($, schema, scope, url);
+    const schemaOrg = this.applySchemaOrgFields(fields, schema, parseStructuredData($, url));
+    const fieldResults: { [key: string]: FieldTestResult } = {};
 
     for (const [fieldName, fieldDef] of Object.entries(schema.fields)) {
+      const result: FieldTestResult = {
+        type: fieldDef.type,
+        selector: fieldDef.selector,
+        xpath: fieldDef.xpath,
+        attribute: fieldDef.attribute,
+        regex: fieldDef.regex,
+        transforms: fieldDef.transforms,
+        required: fieldDef.required || false,
+        multiple: fieldDef.multiple || false,
+        source: schemaOrg?.fieldNames.includes(fieldName) ? schemaOrg.source : 'selector',
+        matchCount: 0,
+        matches: [],
+        conversion: { input: null, output: null, valid: false }
+      };
+
       try {
-        let value = null;
-
-        if (fieldDef.selector) {
-          const elements = $(fieldDef.selector);
-          
-          if (fieldDef.multiple) {
-            value = [];
-            elements.each((i, el) => {
-              const extractedValue = this.extractValue($, $(el), fieldDef);
-              if (extractedValue) {
-                value.push(extractedValue);
-              }
-            });
-          } else if (elements.length > 0) {
-            value = this.extractValue($, elements.first(), fieldDef);
+        const matches = scope && scope.length === 0 ? null : this.matchField($, fieldDef, scope);
+        if (matches) {
+          result.matchCount = matches.length;
+          result.matches = matches.slice(0, MAX_TEST_MATCHES).map(match => ({
+            ...(match.element && { html: truncate($.html(match.element), 500) }),
+            text: truncate(match.element ? match.element.text().trim() : String(match.value ?? ''), 500),
+            value: match.value ?? null
+          }));
+        }
+
+        const input = this.readFieldValue(matches, fieldDef);
+        const steps: TransformStep[] = [];
+        const output = this.convertAndValidateValue(input, fieldDef.type, fieldDef.transforms, { baseUrl: url }, steps);
+        result.conversion = { input, ...(fieldDef.transforms && { steps }), output, valid: output !== null };
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+
+      fieldResults[fieldName] = result;
+    }
+
+    // Required fields missing from the page (list schemas: from any item)
+    const records = items ? items.map(item => item.fields) : [fields];
+    const missingRequired = Object.entries(schema.fields)
+      .filter(([fieldName, fieldDef]) => fieldDef.required && (
+        records.length === 0 || records.some(record => record[fieldName] === null || record[fieldName] === undefined)
+      ))
+      .map(([fieldName]) => fieldName);
+
+    return {
+      schema: schema.name,
+      version: schema.version,
+      fields,
+      ...(items && { itemCount: items.length, items: items.slice(0, MAX_TEST_MATCHES) }),
+      fieldResults,
+      ...(schemaOrg && { structuredDataSource: schemaOrg.source }),
+      missingRequired,
+      quality: this.getQualityBreakdown(fields, schema)
+    };
+  }
+
+  /**
+   * Fill the fields of a built-in schema from schema.org data (JSON-LD, Microdata, RDFa).
+   * Published values are exact, so they replace what the selectors found.
+   */
+  private applySchemaOrgFields(
+    fields: { [key: string]: any },
+    schema: ExtractionSchema,
+    entities: StructuredEntity[]
+  ): { source: StructuredDataSource; fieldNames: string[] } | undefined {
+    const mapping = SCHEMA_ORG_MAPPINGS[schema.name];
+    if (!mapping || this.defaultSchemas.get(schema.name) !== schema) return undefined;
+
+    for (const topLevel of entities) {
+      const entity = findEntity([topLevel], mapping.types);
+      if (!entity) continue;
+
+      const fieldNames: string[] = [];
+      for (const [fieldName, paths] of Object.entries(mapping.fields)) {
+        const fieldDef = schema.fields[fieldName];
+        if (!fieldDef) continue;
+
+        for (const path of paths) {
+          const value = this.convertAndValidateValue(
+            this.fromSchemaOrgValue(getEntityProperty(entity, path), fieldDef),
+            fieldDef.type
+          );
+          if (value !== null && !(Array.isArray(value) && value.length === 0)) {
+            fields[fieldName] = value;
+            fieldNames.push(fieldName);
+            break;
           }
         }
+      }
+
+      return fieldNames.length > 0 ? { source: topLevel.source || 'json-ld', fieldNames } : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reduce a schema.org value to what a field holds: nested entities to their name (addresses to one line),
+   * enumeration URLs to their name (InStock), HTML to text and keyword lists to arrays
+   */
+  private fromSchemaOrgValue(value: any, fieldDef: ExtractionSchema['fields'][string]): any {
+    if (Array.isArray(value)) {
+      if (fieldDef.multiple || fieldDef.type === 'array') {
+        return value.map(item => this.fromSchemaOrgValue(item, { type: 'text' })).filter(item => item !== undefined && item !== '');
+      }
+      return this.fromSchemaOrgValue(value[0], fieldDef);
+    }
 
-        // Apply type conversion and validation
-        value = this.convertAndValidateValue(value, fieldDef.type);
+    if (value && typeof value === 'object') {
+      const properties = value.properties || {};
+      if (value.type === 'PostalAddress') {
+        return [
+          properties.streetAddress,
+          properties.addressLocality,
+          properties.addressRegion,
+          properties.postalCode,
+          this.fromSchemaOrgValue(properties.addressCountry, { type: 'text' })
+        ].filter(Boolean).join(', ');
+      }
+      const label = properties.name ?? properties.address ?? properties.url ?? properties.contentUrl ?? properties.value ?? value.id;
+      return this.fromSchemaOrgValue(label, fieldDef);
+    }
+
+    if (typeof value === 'string') {
+      if (/^https?:\/\/schema\.org\//i.test(value)) {
+        return value.replace(/^https?:\/\/schema\.org\//i, '');
+      }
+      if (fieldDef.type === 'array') {
+        return value.split(',').map(item => item.trim()).filter(Boolean);
+      }
+      if (/<[a-z][\s\S]*>/i.test(value)) {
+        return cheerio.load(value).text().replace(/\s+/g, ' ').trim();
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Extract one record per element matching the schema's item selector
+   */
+  private extractItems($: cheerio.CheerioAPI, schema: ExtractionSchema, baseUrl?: string): ExtractedItem[] {
+    const items: ExtractedItem[] = [];
+
+    $(schema.itemSelector!).slice(0, MAX_LIST_ITEMS).each((i, el) => {
+      const fields = this.extractFields($, schema, $(el), baseUrl);
+      items.push({ fields, qualityScore: this.calculateQualityScore(fields, schema) });
+    });
+
+    return items;
+  }
+
+  /**
+   * Extract fields using schema (within one list item when scope is given; baseUrl resolves relative URLs)
+   */
+  private extractFields(
+    $: cheerio.CheerioAPI,
+    schema: ExtractionSchema,
+    scope?: cheerio.Cheerio<any>,
+    baseUrl?: string
+  ): { [key: string]: any } {
+    const extracted: { [key: string]: any } = {};
+
+    for (const [fieldName, fieldDef] of Object.entries(schema.fields)) {
+      try {
+        let value = this.readFieldValue(this.matchField($, fieldDef, scope), fieldDef);
+
+        // Apply transforms, type conversion and validation
+        value = this.convertAndValidateValue(value, fieldDef.type, fieldDef.transforms, { baseUrl });
 
         if (value !== null || fieldDef.required) {
           extracted[fieldName] = value;
         }
 
       } catch (error) {
-        console.warn(`Failed to extract field ${fieldName}:`, error);
+        logger.warn('Failed to extract field', { field: fieldName, error });
         if (fieldDef.required) {
           extracted[fieldName] = null;
         }
@@ -202,6 +581,101 @@ export class StructuredExtractor {
     return extracted;
   }
 
+  /**
+   * Raw value of a field (before type conversion): the first match, or all non-empty matches for multiple fields
+   */
+  private readFieldValue(matches: FieldMatch[] | null, fieldDef: ExtractionSchema['fields'][string]): any {
+    if (!matches) return null;
+
+    if (fieldDef.multiple) {
+      return matches.map(match => match.value).filter(value => value);
+    }
+
+    return matches.length > 0 ? matches[0].value : null;
+  }
+
+  /**
+   * Everything a field matches: the elements of its CSS selector or XPath, narrowed by its regex.
+   * A regex without a selector searches the page text. Null when the field has nothing to match with.
+   */
+  private matchField(
+    $: cheerio.CheerioAPI,
+    fieldDef: ExtractionSchema['fields'][string],
+    scope?: cheerio.Cheerio<any>
+  ): FieldMatch[] | null {
+    let matches: FieldMatch[];
+
+    if (fieldDef.xpath) {
+      matches = evaluateXPath($, fieldDef.xpath, scope?.get(0)).map(match => (
+        'node' in match
+          ? { element: $(match.node), value: this.extractValue($, $(match.node), fieldDef) }
+          : { value: match.value }
+      ));
+    } else {
+      const elements = this.selectFieldElements($, fieldDef, scope);
+      if (elements) {
+        matches = elements.toArray().map(el => ({ element: $(el), value: this.extractValue($, $(el), fieldDef) }));
+      } else if (fieldDef.regex) {
+        matches = [{ value: this.getPageText($) }];
+      } else {
+        return null;
+      }
+    }
+
+    return fieldDef.regex ? this.applyFieldRegex(matches, fieldDef.regex, fieldDef.multiple || false) : matches;
+  }
+
+  /**
+   * Replace each value by what the regex captures in it (first group, or the whole match), dropping values
+   * it does not match. Multiple fields keep every match in a value.
+   */
+  private applyFieldRegex(matches: FieldMatch[], pattern: string, multiple: boolean): FieldMatch[] {
+    // Patterns come from users and can backtrack catastrophically, the whole field runs under a time limit
+    return runWithTimeLimit(`regex:${pattern}`, () => {
+      const captured: FieldMatch[] = [];
+
+      for (const match of matches) {
+        if (match.value === null || match.value === undefined) continue;
+        const text = String(match.value).slice(0, MAX_REGEX_INPUT);
+
+        if (multiple) {
+          for (const result of text.matchAll(new RegExp(pattern, 'g'))) {
+            captured.push({ element: match.element, value: result[1] ?? result[0] });
+          }
+        } else {
+          const result = text.match(new RegExp(pattern));
+          if (result) captured.push({ element: match.element, value: result[1] ?? result[0] });
+        }
+      }
+
+      return captured;
+    });
+  }
+
+  /**
+   * Visible text of the page, for regex fields without a selector
+   */
+  private getPageText($: cheerio.CheerioAPI): string {
+    const page: cheerio.Cheerio<any> = $('body').length > 0 ? $('body') : $.root();
+    const body = page.clone();
+    body.find('script, style, noscript').remove();
+    return body.text().replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Elements a field selector matches: in the page, or in a list item (no selector means the item itself)
+   */
+  private selectFieldElements(
+    $: cheerio.CheerioAPI,
+    fieldDef: ExtractionSchema['fields'][string],
+    scope?: cheerio.Cheerio<any>
+  ): cheerio.Cheerio<any> | null {
+    if (scope) {
+      return fieldDef.selector ? scope.find(fieldDef.selector) : scope;
+    }
+    return fieldDef.selector ? $(fieldDef.selector) : null;
+  }
+
   /**
    * Extract value from element
    */
@@ -214,10 +688,20 @@ export class StructuredExtractor {
   }
 
   /**
-   * Convert and validate value based on type
+   * Convert and validate value based on type, after the field's transforms (their outputs are added to steps)
    */
-  private convertAndValidateValue(value: any, type: string): any {
-    if (!value || (typeof value === 'string' && value.trim() === '')) {
+  private convertAndValidateValue(
+    value: any,
+    type: string,
+    transforms?: FieldTransform[],
+    context?: TransformContext,
+    steps?: TransformStep[]
+  ): any {
+    if (transforms && transforms.length > 0) {
+      value = applyTransforms(value, transforms, context, steps);
+    }
+
+    if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) {
       return null;
     }
 
@@ -351,10 +835,17 @@ export class StructuredExtractor {
   /**
    * Auto-detect schema based on content analysis
    */
-  private detectSchema($: cheerio.CheerioAPI, content: IRawContent): ExtractionSchema {
+  private detectSchema($: cheerio.CheerioAPI, content: ExtractionInput, entities: StructuredEntity[]): ExtractionSchema {
     const text = content.textContent.toLowerCase();
     const html = content.htmlContent.toLowerCase();
 
+    // Pages that publish schema.org data say what they are
+    for (const [name, mapping] of Object.entries(SCHEMA_ORG_MAPPINGS)) {
+      if (findEntity(entities, mapping.types)) {
+        return this.defaultSchemas.get(name)!;
+      }
+    }
+
     // Product indicators
     if (this.hasProductIndicators($, text, html)) {
       return this.defaultSchemas.get('product')!;
@@ -381,7 +872,7 @@ export class StructuredExtractor {
     }
 
     // Default to generic content schema
-    return this.createGenericSchema($);
+    return this.defaultSchemas.get('generic')!;
   }
 
   /**
@@ -448,7 +939,7 @@ export class StructuredExtractor {
   /**
    * Create generic schema for unknown content types
    */
-  private createGenericSchema($: cheerio.CheerioAPI): ExtractionSchema {
+  private createGenericSchema(): ExtractionSchema {
     return {
       name: 'generic',
       version: '1.0',
@@ -465,6 +956,13 @@ export class StructuredExtractor {
    * Calculate quality score for extraction
    */
   private calculateQualityScore(extractedFields: { [key: string]: any }, schema: ExtractionSchema): number {
+    return this.getQualityBreakdown(extractedFields, schema).score;
+  }
+
+  /**
+   * Counts and partial scores behind the quality score
+   */
+  private getQualityBreakdown(extractedFields: { [key: string]: any }, schema: ExtractionSchema): QualityBreakdown {
     let totalFields = 0;
     let extractedCount = 0;
     let requiredCount = 0;
@@ -493,14 +991,72 @@ export class StructuredExtractor {
     // Combine scores with higher weight on required fields
     const finalScore = (baseScore * 0.6) + (requiredScore * 0.4);
     
-    return Math.round(finalScore * 100) / 100;
+    return {
+      totalFields,
+      extractedFields: extractedCount,
+      requiredFields: requiredCount,
+      requiredExtracted,
+      baseScore: Math.round(baseScore * 100) / 100,
+      requiredScore: Math.round(requiredScore * 100) / 100,
+      weights: { base: 0.6, required: 0.4 },
+      score: Math.round(finalScore * 100) / 100
+    };
+  }
+
+  /**
+   * Get available schemas: built-in ones and, for an API key, the latest version of its own
+   */
+  async getAvailableSchemas(apiKeyHash?: string): Promise<AvailableSchema[]> {
+    const builtIn: AvailableSchema[] = Array.from(this.defaultSchemas.values()).map(schema => ({
+      name: schema.name,
+      version: schema.version,
+      builtIn: true,
+      fieldCount: Object.keys(schema.fields).length
+    }));
+
+    if (!apiKeyHash || !isMongoDBConnected()) return builtIn;
+
+    const custom = await ExtractionSchemaService.getInstance().getSchemas(apiKeyHash);
+    return [
+      ...builtIn,
+      ...custom.map(schema => ({
+        name: schema.name,
+        version: String(schema.latestVersion),
+        builtIn: false,
+        description: schema.description,
+        itemSelector: schema.itemSelector,
+        fieldCount: schema.fieldCount
+      }))
+    ];
+  }
+
+  /**
+   * Find a schema by reference: a built-in name, or the name of a schema of the API key
+   * with an optional version ("my-listing@3", the latest version without one)
+   */
+  async resolveSchema(reference: string, apiKeyHash?: string): Promise<ExtractionSchema | null> {
+    const builtIn = this.defaultSchemas.get(reference);
+    if (builtIn) return builtIn;
+
+    if (!apiKeyHash || !isMongoDBConnected()) return null;
+
+    const { name, version } = parseSchemaReference(reference);
+    const stored = await ExtractionSchemaService.getInstance().getSchema(apiKeyHash, name, version);
+    if (!stored) return null;
+
+    return {
+      name: stored.name,
+      version: String(stored.version),
+      itemSelector: stored.itemSelector,
+      fields: stored.fields
+    };
   }
 
   /**
-   * Get available schemas
+   * Whether a name belongs to a built-in schema (custom schemas cannot use it)
    */
-  getAvailableSchemas(): string[] {
-    return Array.from(this.defaultSchemas.keys());
+  isBuiltInSchema(name: string): boolean {
+    return this.defaultSchemas.has(name);
   }
 
   /**
@@ -1,5 +1,6 @@
 import { UrlQueue, IUrlQueue } from '../models/crawlerModels';
 import { URL } from 'url';
+import { logger } from '../utils/logger';
 
 export class URLQueueService {
   private readonly MAX_RETRIES = 3;
@@ -32,6 +33,42 @@ export class URLQueueService {
     return await queueItem.save();
   }
 
+  /**
+   * Add a pagination URL, promoting it if it is already waiting in the queue
+   * Returns true when the URL was newly added
+   */
+  async addPaginationUrl(
+    sessionId: string,
+    url: string,
+    depth: number,
+    parentUrl: string,
+    priority: number
+  ): Promise<boolean> {
+    const promoted = await UrlQueue.findOneAndUpdate(
+      { sessionId, url, status: 'pending' },
+      {
+        $max: { priority },
+        $min: { depth },
+        $set: { isPagination: true }
+      }
+    );
+    if (promoted || await UrlQueue.exists({ sessionId, url })) {
+      return false;
+    }
+
+    await new UrlQueue({
+      sessionId,
+      url,
+      depth,
+      parentUrl,
+      priority,
+      isPagination: true,
+      status: 'pending'
+    }).save();
+
+    return true;
+  }
+
   /**
    * Add multiple URLs to the queue
    */
@@ -52,13 +89,55 @@ export class URLQueueService {
         );
         results.push(queueItem);
       } catch (error) {
-        console.error(`Error adding URL ${urlData.url}:`, error);
+        logger.error('Error adding URL to queue', { url: urlData.url, error });
       }
     }
 
     return results;
   }
 
+  /**
+   * Bulk insert URLs, skipping ones already queued for the session.
+   * Returns the number of newly queued URLs.
+   */
+  async addUrlsBulk(
+    sessionId: string,
+    urls: { url: string; depth: number; parentUrl?: string; priority?: number }[]
+  ): Promise<number> {
+    if (urls.length === 0) return 0;
+
+    const BATCH_SIZE = 1000;
+    let inserted = 0;
+
+    for (let i = 0; i < urls.length; i += BATCH_SIZE) {
+      const batch = urls.slice(i, i + BATCH_SIZE);
+      const result = await UrlQueue.bulkWrite(
+        batch.map(urlData => ({
+          updateOne: {
+            filter: { sessionId, url: urlData.url },
+            update: {
+              $setOnInsert: {
+                sessionId,
+                url: urlData.url,
+                depth: urlData.depth,
+                parentUrl: urlData.parentUrl,
+                priority: urlData.priority || 0,
+                status: 'pending',
+                attempts: 0,
+                discoveredAt: new Date()
+              }
+            },
+            upsert: true
+          }
+        })),
+        { ordered: false }
+      );
+      inserted += result.upsertedCount || 0;
+    }
+
+    return inserted;
+  }
+
   /**
    * Get next URL to process (highest priority first)
    */
@@ -112,6 +191,22 @@ export class URLQueueService {
     });
   }
 
+  /**
+   * Return URLs stuck in processing (e.g. after a restart) to the queue.
+   * The interrupted attempt is not counted against the retry limit.
+   */
+  async resetProcessingUrls(sessionId: string): Promise<number> {
+    const result = await UrlQueue.updateMany(
+      { sessionId, status: 'processing' },
+      {
+        $set: { status: 'pending' },
+        $inc: { attempts: -1 }
+      }
+    );
+
+    return result.modifiedCount || 0;
+  }
+
   /**
    * Get queue statistics
    */
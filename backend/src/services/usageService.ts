@@ -0,0 +1,282 @@
+import { Request } from 'express';
+
+import { UsageRecord, UsageCounters, USAGE_METRICS } from '../models/usageModels';
+import { ApiKey } from '../models/apiKeyModels';
+import { ApiKeyService } from './apiKeyService';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Which API key and endpoint work is billed to
+ */
+export interface UsageTarget {
+  apiKeyHash?: string;
+  endpoint: string; // Route pattern, e.g. /api/scraper/scrape
+  method: string;
+}
+
+export type UsageEvent = UsageTarget & Partial<UsageCounters>;
+
+export interface UsageFilters {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  endpoint?: string;
+  method?: string;
+}
+
+export interface UsageReport {
+  totals: UsageCounters;
+  daily: Array<{ date: string } & UsageCounters>;
+  monthly: Array<{ month: string } & UsageCounters>;
+  endpoints: Array<{ endpoint: string; method: string } & UsageCounters>;
+}
+
+/**
+ * Usage metering per API key
+ *
+ * Requests, scraped pages, batch URLs, crawled pages, exports and browser time
+ * are counted in memory and flushed on an interval into one document per key,
+ * day (UTC), endpoint and method. Pages also count against the monthly quota
+ * of stored keys.
+ */
+export class UsageService {
+  private static instance: UsageService;
+  private buffer: Map<string, UsageEvent> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private flushing = false;
+  private readonly FLUSH_INTERVAL = 10 * 1000;
+  private readonly MAX_BUFFER_SIZE = 5000;
+
+  public static getInstance(): UsageService {
+    if (!UsageService.instance) {
+      UsageService.instance = new UsageService();
+    }
+    return UsageService.instance;
+  }
+
+  /**
+   * Usage target of an Express request, for work done inside its handler
+   */
+  static targetFor(req: Request): UsageTarget {
+    return {
+      apiKeyHash: (req as any).apiKeyHash,
+      endpoint: req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched',
+      method: req.method
+    };
+  }
+
+  /**
+   * Start flushing counters on an interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.flush(), this.FLUSH_INTERVAL);
+    this.timer.unref();
+    logger.info('Usage metering started');
+  }
+
+  /**
+   * Stop the interval and write what is still buffered
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      await this.flush();
+      logger.info('Usage metering stopped');
+    }
+  }
+
+  /**
+   * Count usage, never throws
+   */
+  record(event: UsageEvent): void {
+    const date = new Date().toISOString().slice(0, 10);
+    const bucketKey = [event.apiKeyHash || '', date, event.endpoint, event.method].join('|');
+    this.addToBuffer(bucketKey, event);
+
+    const pages = (event.scrapes || 0) + (event.batchUrls || 0) + (event.crawledPages || 0);
+    if (pages > 0) {
+      ApiKeyService.getInstance().recordPages(event.apiKeyHash, pages);
+    }
+
+    if (this.buffer.size >= this.MAX_BUFFER_SIZE) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Usage of one API key
+   */
+  async getUsage(apiKeyHash: string, filters: UsageFilters = {}): Promise<UsageReport> {
+    const match = { ...this.buildMatch(filters), apiKeyHash };
+
+    const [daily, endpoints] = await Promise.all([
+      this.aggregate(match, { date: '$date' }, { date: 1 }),
+      this.aggregate(match, { endpoint: '$endpoint', method: '$method' }, { endpoint: 1, method: 1 })
+    ]);
+
+    return this.buildReport(daily, endpoints);
+  }
+
+  /**
+   * Usage of every API key (anonymous usage is listed without a key)
+   */
+  async getAllUsage(filters: UsageFilters = {}): Promise<Array<UsageReport & { key: any }>> {
+    const match = this.buildMatch(filters);
+
+    const [daily, endpoints] = await Promise.all([
+      this.aggregate(match, { apiKeyHash: '$apiKeyHash', date: '$date' }, { date: 1 }),
+      this.aggregate(match, { apiKeyHash: '$apiKeyHash', endpoint: '$endpoint', method: '$method' }, { endpoint: 1, method: 1 })
+    ]);
+
+    const hashes = [...new Set(daily.map(row => row.apiKeyHash as string | null))];
+    const keys = await ApiKey.find({ keyHash: { $in: hashes.filter(Boolean) } })
+      .select('keyId keyHash keyPrefix owner label');
+    const keysByHash = new Map(keys.map(key => [key.keyHash, key]));
+
+    return hashes.map(hash => {
+      const key = hash ? keysByHash.get(hash) : undefined;
+      const report = this.buildReport(
+        daily.filter(row => row.apiKeyHash === hash),
+        endpoints.filter(row => row.apiKeyHash === hash)
+      );
+
+      return {
+        key: key
+          ? { keyId: key.keyId, keyPrefix: key.keyPrefix, owner: key.owner, label: key.label }
+          : { keyId: null, anonymous: !hash }, // Env keys have no stored record
+        ...report
+      };
+    }).sort((a, b) => b.totals.requests - a.totals.requests);
+  }
+
+  private addToBuffer(bucketKey: string, event: UsageEvent): void {
+    const bucket = this.buffer.get(bucketKey) || {
+      apiKeyHash: event.apiKeyHash,
+      endpoint: event.endpoint,
+      method: event.method
+    };
+    for (const metric of USAGE_METRICS) {
+      if (event[metric]) {
+        bucket[metric] = (bucket[metric] || 0) + (event[metric] as number);
+      }
+    }
+    this.buffer.set(bucketKey, bucket);
+  }
+
+  /**
+   * Write buffered counters as upserts
+   * Counters stay buffered while MongoDB is not connected, and buckets that failed
+   * to write are put back to be retried with the next flush.
+   */
+  private async flush(): Promise<void> {
+    if (this.flushing || this.buffer.size === 0 || !isMongoDBConnected()) return;
+
+    const entries = [...this.buffer.entries()];
+    this.buffer = new Map();
+
+    this.flushing = true;
+    try {
+      await UsageRecord.bulkWrite(entries.map(([bucketKey, bucket]) => {
+        const $inc: Partial<UsageCounters> = {};
+        for (const metric of USAGE_METRICS) {
+          if (bucket[metric]) $inc[metric] = bucket[metric];
+        }
+
+        return {
+          updateOne: {
+            filter: {
+              apiKeyHash: bucket.apiKeyHash || null,
+              date: bucketKey.split('|')[1],
+              endpoint: bucket.endpoint,
+              method: bucket.method
+            },
+            update: { $inc },
+            upsert: true
+          }
+        };
+      }), { ordered: false });
+    } catch (error) {
+      logger.warn('Failed to write usage records, retrying with the next flush', { error });
+
+      // Unordered writes report the operations that failed, the others were applied
+      const writeErrors = (error as any)?.writeErrors;
+      const failed = writeErrors
+        ? new Set<number>([].concat(writeErrors).map((writeError: any) => writeError.index))
+        : null;
+      entries.forEach(([bucketKey, bucket], index) => {
+        if (!failed || failed.has(index)) this.addToBuffer(bucketKey, bucket);
+      });
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private buildMatch(filters: UsageFilters): Record<string, any> {
+    return {
+      ...((filters.from || filters.to) && {
+        date: {
+          ...(filters.from && { $gte: filters.from }),
+          ...(filters.to && { $lte: filters.to })
+        }
+      }),
+      ...(filters.endpoint && { endpoint: filters.endpoint }),
+      ...(filters.method && { method: filters.method.toUpperCase() })
+    };
+  }
+
+  /**
+   * Sum the counters grouped by the given fields, the group fields are flattened into each row
+   */
+  private async aggregate(match: Record<string, any>, groupBy: Record<string, string>, sort: Record<string, 1 | -1>) {
+    const sums = Object.fromEntries(USAGE_METRICS.map(metric => [metric, { $sum: `$${metric}` }]));
+
+    const rows = await UsageRecord.aggregate([
+      { $match: match },
+      { $group: { _id: groupBy, ...sums } },
+      { $replaceRoot: { newRoot: { $mergeObjects: ['$_id', '$$ROOT'] } } },
+      { $project: { _id: 0 } },
+      { $sort: sort }
+    ]);
+
+    return rows as Array<Record<string, any> & UsageCounters>;
+  }
+
+  private buildReport(daily: Array<Record<string, any> & UsageCounters>, endpoints: Array<Record<string, any> & UsageCounters>): UsageReport {
+    const monthly = new Map<string, { month: string } & UsageCounters>();
+    for (const day of daily) {
+      const month = (day.date as string).slice(0, 7);
+      const row = monthly.get(month) || { month, ...this.emptyCounters() };
+      this.addCounters(row, day);
+      monthly.set(month, row);
+    }
+
+    const totals = this.emptyCounters();
+    for (const day of daily) {
+      this.addCounters(totals, day);
+    }
+
+    return {
+      totals,
+      daily: daily.map(day => ({ date: day.date, ...this.pickCounters(day) })),
+      monthly: [...monthly.values()],
+      endpoints: endpoints.map(row => ({ endpoint: row.endpoint, method: row.method, ...this.pickCounters(row) }))
+    };
+  }
+
+  private emptyCounters(): UsageCounters {
+    return Object.fromEntries(USAGE_METRICS.map(metric => [metric, 0])) as UsageCounters;
+  }
+
+  private pickCounters(row: UsageCounters): UsageCounters {
+    return Object.fromEntries(USAGE_METRICS.map(metric => [metric, row[metric] || 0])) as UsageCounters;
+  }
+
+  private addCounters(target: UsageCounters, row: UsageCounters): void {
+    for (const metric of USAGE_METRICS) {
+      target[metric] += row[metric] || 0;
+    }
+  }
+}
@@ -0,0 +1,371 @@
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  Webhook,
+  WebhookDelivery,
+  IWebhook,
+  IWebhookDelivery,
+  IRequestWebhook,
+  WebhookEvent
+} from '../models/webhookModels';
+import { validateUrl } from '../utils/urlValidator';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Who to notify about an event: webhooks registered for an API key and/or one passed with the request
+ */
+export interface WebhookTarget {
+  apiKeyHash?: string;
+  webhook?: IRequestWebhook;
+}
+
+export interface WebhookInput {
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  secret?: string;
+  enabled?: boolean;
+}
+
+export interface DeliveryFilters {
+  webhookId?: string;
+  event?: WebhookEvent;
+  status?: IWebhookDelivery['status'];
+  limit?: number;
+}
+
+/**
+ * Signed webhook deliveries with retries
+ *
+ * Every event is stored as a delivery and POSTed as JSON signed with
+ * HMAC-SHA256 over "<timestamp>.<body>". Failed deliveries are retried with
+ * backoff by a timer, so retries survive restarts.
+ */
+export class WebhookService {
+  private static instance: WebhookService;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private readonly TICK_INTERVAL = 15 * 1000;
+  private readonly REQUEST_TIMEOUT = 10000;
+  private readonly ATTEMPT_LEASE = 5 * 60 * 1000; // An attempt that never finished is retried after this
+  private readonly RETRY_DELAYS = [30, 120, 600, 1800, 7200].map(seconds => seconds * 1000);
+
+  public static getInstance(): WebhookService {
+    if (!WebhookService.instance) {
+      WebhookService.instance = new WebhookService();
+    }
+    return WebhookService.instance;
+  }
+
+  /**
+   * Start retrying failed deliveries on an interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), this.TICK_INTERVAL);
+    this.timer.unref();
+    logger.info('Webhook delivery started');
+  }
+
+  /**
+   * Stop retrying deliveries
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Webhook delivery stopped');
+    }
+  }
+
+  generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('base64url')}`;
+  }
+
+  /**
+   * Send an event to every webhook of the target subscribed to it
+   * Never throws, webhooks must not break the operation that emits them
+   */
+  async dispatch(event: WebhookEvent, data: any, target: WebhookTarget): Promise<void> {
+    try {
+      const recipients: Array<{ url: string; secret: string; webhookId?: string }> = [];
+
+      if (target.apiKeyHash && isMongoDBConnected()) {
+        const webhooks = await Webhook.find({ apiKeyHash: target.apiKeyHash, enabled: true, events: event })
+          .select('+secret');
+        recipients.push(...webhooks.map(webhook => ({
+          url: webhook.url,
+          secret: webhook.secret,
+          webhookId: webhook.webhookId
+        })));
+      }
+
+      const requestWebhook = target.webhook;
+      if (requestWebhook && (!requestWebhook.events?.length || requestWebhook.events.includes(event))) {
+        recipients.push({ url: requestWebhook.url, secret: requestWebhook.secret });
+      }
+
+      for (const recipient of recipients) {
+        if (!isMongoDBConnected()) {
+          // Nowhere to log or retry, send once
+          this.send(recipient.url, recipient.secret, uuidv4(), event, new Date(), data)
+            .catch(error => logger.warn('Webhook failed', { event, url: recipient.url, error: error.message }));
+          continue;
+        }
+
+        const delivery = await WebhookDelivery.create({
+          deliveryId: uuidv4(),
+          webhookId: recipient.webhookId,
+          apiKeyHash: target.apiKeyHash,
+          url: recipient.url,
+          secret: recipient.secret,
+          event,
+          payload: data,
+          nextAttemptAt: new Date(Date.now() + this.ATTEMPT_LEASE)
+        });
+
+        this.attempt(delivery, recipient.secret)
+          .catch(error => logger.error('Webhook delivery crashed', { deliveryId: delivery.deliveryId, error }));
+      }
+    } catch (error) {
+      logger.error('Failed to dispatch webhook event', { event, error });
+    }
+  }
+
+  /**
+   * Send a logged delivery again as a new delivery
+   * Registered webhooks are replayed to their current URL and secret
+   */
+  async replayDelivery(deliveryId: string, apiKeyHash: string): Promise<IWebhookDelivery | null> {
+    const original = await WebhookDelivery.findOne({ deliveryId, apiKeyHash }).select('+secret');
+    if (!original) return null;
+
+    let url = original.url;
+    let secret = original.secret;
+    if (original.webhookId) {
+      const webhook = await Webhook.findOne({ webhookId: original.webhookId, apiKeyHash }).select('+secret');
+      if (webhook) {
+        url = webhook.url;
+        secret = webhook.secret;
+      }
+    }
+
+    const delivery = await WebhookDelivery.create({
+      deliveryId: uuidv4(),
+      webhookId: original.webhookId,
+      apiKeyHash,
+      url,
+      secret,
+      event: original.event,
+      payload: original.payload,
+      nextAttemptAt: new Date(Date.now() + this.ATTEMPT_LEASE),
+      replayOf: original.deliveryId
+    });
+
+    this.attempt(delivery, secret)
+      .catch(error => logger.error('Webhook delivery crashed', { deliveryId: delivery.deliveryId, error }));
+
+    return delivery;
+  }
+
+  async getDeliveries(apiKeyHash: string, filters: DeliveryFilters = {}): Promise<IWebhookDelivery[]> {
+    return WebhookDelivery.find({
+      apiKeyHash,
+      ...(filters.webhookId && { webhookId: filters.webhookId }),
+      ...(filters.event && { event: filters.event }),
+      ...(filters.status && { status: filters.status })
+    })
+      .select('-payload')
+      .sort({ createdAt: -1 })
+      .limit(filters.limit || 50);
+  }
+
+  async getDelivery(deliveryId: string, apiKeyHash: string): Promise<IWebhookDelivery | null> {
+    return WebhookDelivery.findOne({ deliveryId, apiKeyHash });
+  }
+
+  /**
+   * Register a webhook for an API key (the secret is only returned here)
+   */
+  async createWebhook(apiKeyHash: string, input: WebhookInput): Promise<{ webhook: IWebhook; secret: string }> {
+    const secret = input.secret || this.generateSecret();
+
+    const webhook = await Webhook.create({
+      webhookId: uuidv4(),
+      apiKeyHash,
+      url: input.url,
+      secret,
+      events: input.events,
+      description: input.description,
+      enabled: input.enabled ?? true
+    });
+
+    return { webhook, secret };
+  }
+
+  async getWebhooks(apiKeyHash: string): Promise<IWebhook[]> {
+    return Webhook.find({ apiKeyHash }).sort({ createdAt: -1 });
+  }
+
+  async getWebhook(webhookId: string, apiKeyHash: string): Promise<IWebhook | null> {
+    return Webhook.findOne({ webhookId, apiKeyHash });
+  }
+
+  async updateWebhook(webhookId: string, apiKeyHash: string, updates: Partial<WebhookInput>): Promise<IWebhook | null> {
+    return Webhook.findOneAndUpdate(
+      { webhookId, apiKeyHash },
+      { $set: updates },
+      { new: true }
+    );
+  }
+
+  /**
+   * Delete a webhook and cancel its pending retries
+   */
+  async deleteWebhook(webhookId: string, apiKeyHash: string): Promise<boolean> {
+    const result = await Webhook.deleteOne({ webhookId, apiKeyHash });
+    if (result.deletedCount === 0) return false;
+
+    await WebhookDelivery.updateMany(
+      { webhookId, status: 'pending' },
+      { $set: { status: 'failed', lastError: 'Webhook deleted' }, $unset: { nextAttemptAt: 1 } }
+    );
+    return true;
+  }
+
+  /**
+   * Retry deliveries that are due
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking || !isMongoDBConnected()) return;
+    this.ticking = true;
+
+    try {
+      const due = await WebhookDelivery.find({
+        status: 'pending',
+        nextAttemptAt: { $lte: new Date() }
+      })
+        .sort({ nextAttemptAt: 1 })
+        .limit(50)
+        .select('+secret');
+
+      for (const delivery of due) {
+        // Claim the attempt by pushing the next one out
+        const claimed = await WebhookDelivery.findOneAndUpdate(
+          { _id: delivery._id, nextAttemptAt: delivery.nextAttemptAt },
+          { $set: { nextAttemptAt: new Date(Date.now() + this.ATTEMPT_LEASE) } }
+        );
+        if (!claimed) continue;
+
+        await this.attempt(delivery, delivery.secret);
+      }
+    } catch (error) {
+      logger.error('Webhook retry tick failed', { error });
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Make one delivery attempt and schedule the next one if it failed
+   */
+  private async attempt(delivery: IWebhookDelivery, secret: string): Promise<void> {
+    const attempts = delivery.attempts + 1;
+
+    try {
+      // SECURITY: Re-validate on every attempt, DNS can change after registration
+      const urlValidation = await validateUrl(delivery.url);
+      if (!urlValidation.valid) {
+        await WebhookDelivery.updateOne(
+          { _id: delivery._id },
+          {
+            $set: { status: 'failed', attempts, lastAttemptAt: new Date(), lastError: `URL not allowed: ${urlValidation.reason}` },
+            $unset: { nextAttemptAt: 1 }
+          }
+        );
+        return;
+      }
+
+      const responseStatus = await this.send(
+        urlValidation.sanitizedUrl || delivery.url,
+        secret,
+        delivery.deliveryId,
+        delivery.event,
+        delivery.createdAt,
+        delivery.payload
+      );
+
+      await WebhookDelivery.updateOne(
+        { _id: delivery._id },
+        {
+          $set: { status: 'delivered', attempts, responseStatus, lastAttemptAt: new Date(), deliveredAt: new Date() },
+          $unset: { nextAttemptAt: 1, lastError: 1 }
+        }
+      );
+      logger.info('Webhook delivered', { event: delivery.event, url: delivery.url, deliveryId: delivery.deliveryId });
+    } catch (error: any) {
+      const retryDelay = this.RETRY_DELAYS[attempts - 1];
+      const lastError = error.response ? `HTTP ${error.response.status}` : error.message;
+
+      await WebhookDelivery.updateOne(
+        { _id: delivery._id },
+        retryDelay !== undefined
+          ? {
+            $set: {
+              attempts,
+              lastAttemptAt: new Date(),
+              lastError,
+              responseStatus: error.response?.status,
+              nextAttemptAt: new Date(Date.now() + retryDelay)
+            }
+          }
+          : {
+            $set: { status: 'failed', attempts, lastAttemptAt: new Date(), lastError, responseStatus: error.response?.status },
+            $unset: { nextAttemptAt: 1 }
+          }
+      );
+      logger.warn('Webhook delivery failed', {
+        event: delivery.event,
+        url: delivery.url,
+        deliveryId: delivery.deliveryId,
+        attempt: attempts,
+        error: lastError
+      });
+    }
+  }
+
+  /**
+   * POST a signed event, returns the response status (2xx only)
+   */
+  private async send(
+    url: string,
+    secret: string,
+    deliveryId: string,
+    event: WebhookEvent,
+    createdAt: Date,
+    data: any
+  ): Promise<number> {
+    const body = JSON.stringify({ id: deliveryId, event, createdAt, data });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+    const response = await axios.post(url, body, {
+      timeout: this.REQUEST_TIMEOUT,
+      maxRedirects: 0, // Redirects would bypass the SSRF check
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ScrapperX-Webhook',
+        'X-ScrapperX-Event': event,
+        'X-ScrapperX-Delivery': deliveryId,
+        'X-ScrapperX-Timestamp': timestamp,
+        'X-ScrapperX-Signature': `sha256=${signature}`
+      }
+    });
+
+    return response.status;
+  }
+}
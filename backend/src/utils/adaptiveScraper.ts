@@ -2,6 +2,7 @@ import { StealthScraper, StealthScrapeOptions } from './stealthScraper';
 import { DynamicScraper } from './dynamicScraper';
 import { StaticScraper, ScrapedContent } from './staticScraper';
 import { RobotsChecker } from './robotsChecker';
+import { logger } from './logger';
 
 export interface WebsiteProfile {
   domain: string;
@@ -74,18 +75,22 @@ export class AdaptiveScraper {
     const domain = new URL(url).hostname;
     const adaptations: string[] = [];
 
-    console.log(`🧠 Starting adaptive scraping for: ${url}`);
+    logger.debug('Starting adaptive scraping', { url });
 
     // Get or create website profile
     let profile = this.getOrCreateProfile(domain);
-    console.log(`📊 Website profile - Difficulty: ${profile.characteristics.difficulty}, Optimal: ${profile.optimalStrategy.type}`);
+    logger.debug('Website profile loaded', {
+      domain,
+      difficulty: profile.characteristics.difficulty,
+      optimalStrategy: profile.optimalStrategy.type
+    });
 
     // Determine scraping strategy
     const strategy = options.forceMethod ? 
       { type: options.forceMethod, confidence: 100, options: {} } :
       this.determineOptimalStrategy(profile, url);
 
-    console.log(`🎯 Selected strategy: ${strategy.type} (confidence: ${strategy.confidence}%)`);
+    logger.debug('Selected strategy', { strategy: strategy.type, confidence: strategy.confidence });
 
     let result: AdaptiveScrapingResult;
     let methodStartTime = Date.now();
@@ -109,7 +114,7 @@ export class AdaptiveScraper {
       this.updateProfileSuccess(profile, strategy.type);
       
     } catch (error: any) {
-      console.error(`❌ Primary strategy ${strategy.type} failed:`, error.message);
+      logger.warn('Primary strategy failed', { url, strategy: strategy.type, error: error.message });
       
       // Update failure metrics
       this.updateProfileFailure(profile, strategy.type, error.message);
@@ -134,8 +139,7 @@ export class AdaptiveScraper {
       adaptationTime: totalTime - methodTime
     };
 
-    console.log(`✅ Adaptive scraping completed in ${totalTime}ms using ${result.strategy.type}`);
-    console.log(`📈 Adaptations applied: ${adaptations.length > 0 ? adaptations.join(', ') : 'None'}`);
+    logger.debug('Adaptive scraping completed', { url, duration: totalTime, strategy: result.strategy.type, adaptations });
 
     return result;
   }
@@ -274,7 +278,7 @@ export class AdaptiveScraper {
     profile: WebsiteProfile, 
     adaptations: string[]
   ): Promise<AdaptiveScrapingResult> {
-    console.log('📄 Executing static scraping strategy...');
+    logger.debug('Executing static scraping strategy');
     
     const result = await this.staticScraper.scrape(url, strategy.options);
     
@@ -299,7 +303,7 @@ export class AdaptiveScraper {
     profile: WebsiteProfile, 
     adaptations: string[]
   ): Promise<AdaptiveScrapingResult> {
-    console.log('🎭 Executing dynamic scraping strategy...');
+    logger.debug('Executing dynamic scraping strategy');
     
     const result = await this.dynamicScraper.scrape(url, strategy.options);
     
@@ -325,7 +329,7 @@ export class AdaptiveScraper {
     adaptations: string[],
     options: any
   ): Promise<AdaptiveScrapingResult> {
-    console.log('🥷 Executing stealth scraping strategy...');
+    logger.debug('Executing stealth scraping strategy');
     
     const stealthOptions: StealthScrapeOptions = {
       ...strategy.options,
@@ -363,13 +367,11 @@ export class AdaptiveScraper {
     options: any,
     originalError: Error
   ): Promise<AdaptiveScrapingResult> {
-    console.log('🔄 Trying fallback strategies...');
-    
     const fallbackOrder = this.getFallbackOrder(failedStrategy.type);
     
     for (const fallbackType of fallbackOrder) {
       try {
-        console.log(`🔄 Attempting fallback: ${fallbackType}`);
+        logger.debug('Attempting fallback strategy', { url, strategy: fallbackType });
         adaptations.push(`Fallback to ${fallbackType} after ${failedStrategy.type} failed`);
         
         const fallbackStrategy: ScrapingMethod = {
@@ -394,11 +396,11 @@ export class AdaptiveScraper {
             continue;
         }
 
-        console.log(`✅ Fallback ${fallbackType} succeeded`);
+        logger.info('Fallback strategy succeeded', { url, strategy: fallbackType });
         return result;
         
       } catch (fallbackError: any) {
-        console.warn(`⚠️ Fallback ${fallbackType} also failed:`, fallbackError.message);
+        logger.warn('Fallback strategy also failed', { url, strategy: fallbackType, error: fallbackError.message });
         this.updateProfileFailure(profile, fallbackType, fallbackError.message);
       }
     }
@@ -549,7 +551,7 @@ export class AdaptiveScraper {
         }
       });
     } catch (error) {
-      console.error('Failed to import profiles:', error);
+      logger.error('Failed to import profiles', { error });
       throw error;
     }
   }
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { URL } from 'url';
+import { logger } from './logger';
 
 export interface ApiEndpoint {
   url: string;
@@ -139,7 +140,7 @@ export class ApiScraper {
           this.categorizeData(data, structuredContent);
         }
       } catch (error) {
-        console.warn(`Failed to fetch API endpoint ${endpoint.url}:`, error);
+        logger.warn('Failed to fetch API endpoint', { url: endpoint.url, error });
       }
     }
 
@@ -1,10 +1,15 @@
 /**
  * Global concurrency limiter for browser-based operations
  * 
- * This limits the total number of concurrent Playwright browser instances
- * across all requests to prevent server overload.
+ * This limits the total number of concurrent Playwright browser operations
+ * across all requests to prevent server overload. The browsers themselves
+ * are shared through the browser pool.
  */
 
+import { BrowserPoolService } from '../services/browserPool';
+import { UsageService, UsageTarget } from '../services/usageService';
+import { logger } from './logger';
+
 // Maximum concurrent browser operations (adjust based on VPS RAM)
 // 2GB RAM = ~3 concurrent, 4GB RAM = ~5 concurrent
 const MAX_CONCURRENT_BROWSERS = parseInt(process.env.MAX_CONCURRENT_BROWSERS || '3', 10);
@@ -28,11 +33,11 @@ export async function acquireBrowserSlot(): Promise<() => void> {
         const tryAcquire = () => {
             if (currentlyRunning < MAX_CONCURRENT_BROWSERS) {
                 currentlyRunning++;
-                console.log(`🔓 Browser slot acquired (${currentlyRunning}/${MAX_CONCURRENT_BROWSERS} in use)`);
+                logger.debug('Browser slot acquired', { inUse: currentlyRunning, max: MAX_CONCURRENT_BROWSERS });
 
                 const release = () => {
                     currentlyRunning--;
-                    console.log(`🔒 Browser slot released (${currentlyRunning}/${MAX_CONCURRENT_BROWSERS} in use)`);
+                    logger.debug('Browser slot released', { inUse: currentlyRunning, max: MAX_CONCURRENT_BROWSERS });
                     processQueue();
                 };
 
@@ -48,7 +53,11 @@ export async function acquireBrowserSlot(): Promise<() => void> {
                 }, QUEUE_TIMEOUT);
 
                 queue.push({ resolve: () => tryAcquire(), reject, timeout });
-                console.log(`⏳ Request queued (position ${queue.length}, ${currentlyRunning}/${MAX_CONCURRENT_BROWSERS} browsers running)`);
+                logger.info('Request queued for a browser slot', {
+                    position: queue.length,
+                    inUse: currentlyRunning,
+                    max: MAX_CONCURRENT_BROWSERS
+                });
             }
         };
 
@@ -73,18 +82,25 @@ export function getConcurrencyStats() {
     return {
         running: currentlyRunning,
         queued: queue.length,
-        maxConcurrent: MAX_CONCURRENT_BROWSERS
+        maxConcurrent: MAX_CONCURRENT_BROWSERS,
+        pool: BrowserPoolService.getInstance().getStats()
     };
 }
 
 /**
  * Wrapper to run a browser operation with concurrency control
+ * With a usage target, the time the slot is held is metered as browser seconds
  */
-export async function withBrowserSlot<T>(operation: () => Promise<T>): Promise<T> {
+export async function withBrowserSlot<T>(operation: () => Promise<T>, usage?: UsageTarget): Promise<T> {
     const release = await acquireBrowserSlot();
+    const startTime = Date.now();
     try {
         return await operation();
     } finally {
         release();
+        if (usage) {
+            const browserSeconds = Math.round((Date.now() - startTime) / 100) / 10;
+            UsageService.getInstance().record({ ...usage, browserSeconds });
+        }
     }
 }
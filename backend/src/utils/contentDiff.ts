@@ -0,0 +1,82 @@
+/**
+ * Text diff helpers for change detection
+ *
+ * Produces a unified (line-level) diff for display and patching, and a
+ * word-level diff for highlighting small edits such as a changed price.
+ */
+
+import { createTwoFilesPatch, diffLines, diffWords } from 'diff';
+
+export interface WordChange {
+    value: string;
+    added?: boolean;
+    removed?: boolean;
+}
+
+export interface ContentDiff {
+    unified: string;
+    words: WordChange[];
+    stats: {
+        linesAdded: number;
+        linesRemoved: number;
+        wordsAdded: number;
+        wordsRemoved: number;
+    };
+}
+
+// Word diffs of very large documents are slow and rarely useful. The diff runs
+// synchronously, so it is also given up after a time limit; either way only the
+// line diff is returned.
+const MAX_WORD_DIFF_LENGTH = 50000;
+const WORD_DIFF_TIMEOUT = 500; // Milliseconds
+
+/**
+ * Count whitespace-separated words
+ */
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Diff two versions of a document
+ */
+export function createContentDiff(
+    oldText: string,
+    newText: string,
+    oldLabel: string = 'previous',
+    newLabel: string = 'current'
+): ContentDiff {
+    const unified = createTwoFilesPatch(oldLabel, newLabel, oldText, newText, undefined, undefined, { context: 3 });
+
+    let linesAdded = 0;
+    let linesRemoved = 0;
+    for (const part of diffLines(oldText, newText)) {
+        if (part.added) linesAdded += part.count || 0;
+        if (part.removed) linesRemoved += part.count || 0;
+    }
+
+    let words: WordChange[] = [];
+    let wordsAdded = 0;
+    let wordsRemoved = 0;
+    if (oldText.length + newText.length <= MAX_WORD_DIFF_LENGTH) {
+        const parts = diffWords(oldText, newText, { timeout: WORD_DIFF_TIMEOUT }) || [];
+        words = parts.map(part => ({
+            value: part.value,
+            ...(part.added && { added: true }),
+            ...(part.removed && { removed: true })
+        }));
+
+        for (const part of words) {
+            if (part.added) wordsAdded += countWords(part.value);
+            if (part.removed) wordsRemoved += countWords(part.value);
+        }
+    }
+
+    return {
+        unified,
+        words,
+        stats: { linesAdded, linesRemoved, wordsAdded, wordsRemoved }
+    };
+}
+
+export default { createContentDiff };
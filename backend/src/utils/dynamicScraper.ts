@@ -1,11 +1,40 @@
-import { chromium, Browser, Page } from 'playwright';
+import { BrowserContextOptions, Page } from 'playwright';
 import * as cheerio from 'cheerio';
 import { ScrapedContent } from './staticScraper';
+import { loadAllContent, InfiniteScrollOptions, InfiniteScrollResult } from './infiniteScroll';
+import { BrowserPoolService, BrowserLease } from '../services/browserPool';
+import { logger } from './logger';
+
+export type BrowserActionType = 'click' | 'type' | 'press' | 'scroll-to-bottom' | 'wait' | 'select' | 'hover';
+
+export interface BrowserAction {
+  type: BrowserActionType;
+  selector?: string;
+  text?: string; // type
+  key?: string; // press, e.g. "Enter"
+  value?: string | string[]; // select
+  duration?: number; // wait without a selector (ms)
+  maxScrolls?: number; // scroll-to-bottom
+  timeout?: number;
+  optional?: boolean; // Keep going if this step fails (e.g. a cookie banner that may not appear)
+}
+
+export interface BrowserActionResult {
+  index: number;
+  type: BrowserActionType;
+  selector?: string;
+  status: 'success' | 'failed' | 'skipped';
+  durationMs: number;
+  error?: string;
+  screenshot?: string; // Base64 PNG of the page when the step failed
+}
 
 export interface DynamicScrapeOptions {
   userAgent?: string;
   timeout?: number;
   waitForSelector?: string;
+  actions?: BrowserAction[];
+  infiniteScroll?: InfiniteScrollOptions;
   waitForNetworkIdle?: boolean;
   blockImages?: boolean;
   blockCSS?: boolean;
@@ -13,6 +42,31 @@ export interface DynamicScrapeOptions {
   javascript?: boolean;
 }
 
+export interface CaptureOptions {
+  format: 'png' | 'jpeg' | 'pdf';
+  mode?: 'viewport' | 'fullPage' | 'element'; // Screenshots only
+  selector?: string; // Element to capture when mode is 'element'
+  quality?: number; // JPEG quality (0-100)
+  userAgent?: string;
+  timeout?: number;
+  viewport?: { width: number; height: number };
+  waitForSelector?: string;
+  actions?: BrowserAction[];
+  pdf?: {
+    pageFormat?: 'A4' | 'A3' | 'Letter' | 'Legal' | 'Tabloid';
+    landscape?: boolean;
+    printBackground?: boolean;
+  };
+}
+
+export interface CaptureResult {
+  buffer: Buffer;
+  contentType: string;
+  finalUrl: string;
+  title: string;
+  actionResults?: BrowserActionResult[];
+}
+
 export interface NetworkRequest {
   url: string;
   method: string;
@@ -25,7 +79,8 @@ export interface NetworkRequest {
 }
 
 export class DynamicScraper {
-  private browser: Browser | null = null;
+  private browserPool: BrowserPoolService = BrowserPoolService.getInstance();
+  private leases: Set<BrowserLease> = new Set(); // Contexts currently held by this scraper
   private defaultOptions: DynamicScrapeOptions = {
     userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
     timeout: 15000, // Reduced from 30000 to prevent hangs
@@ -36,21 +91,21 @@ export class DynamicScraper {
     javascript: true
   };
 
-  async initialize(): Promise<void> {
-    if (!this.browser) {
-      this.browser = await chromium.launch({
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--no-first-run',
-          '--no-zygote',
-          '--disable-gpu'
-        ]
-      });
-    }
+  /**
+   * Borrow an isolated context from the shared browser pool
+   */
+  private async acquireContext(options: BrowserContextOptions): Promise<BrowserLease> {
+    const lease = await this.browserPool.acquireContext('standard', options);
+    this.leases.add(lease);
+    return lease;
+  }
+
+  /**
+   * Return a context to the pool
+   */
+  private async releaseContext(lease: BrowserLease): Promise<void> {
+    this.leases.delete(lease);
+    await lease.release();
   }
 
   async scrape(url: string, options?: DynamicScrapeOptions): Promise<{
@@ -58,59 +113,57 @@ export class DynamicScraper {
     networkRequests: NetworkRequest[];
     performanceMetrics: any;
     screenshots?: Buffer[];
+    actionResults?: BrowserActionResult[];
+    infiniteScroll?: InfiniteScrollResult;
   }> {
     const config = { ...this.defaultOptions, ...options };
-    await this.initialize();
 
-    if (!this.browser) {
-      throw new Error('Failed to initialize browser');
-    }
-
-    const context = await this.browser.newContext({
+    const lease = await this.acquireContext({
       userAgent: config.userAgent,
       viewport: config.viewport,
       ignoreHTTPSErrors: true,
     });
+    const context = lease.context;
+    const networkRequests: NetworkRequest[] = [];
 
-    // Block unnecessary resources for faster loading
-    await context.route('**/*', (route) => {
-      const resourceType = route.request().resourceType();
-      
-      if (config.blockImages && resourceType === 'image') {
-        route.abort();
-      } else if (config.blockCSS && resourceType === 'stylesheet') {
-        route.abort();
-      } else if (resourceType === 'font' || resourceType === 'media') {
-        route.abort();
-      } else {
-        route.continue();
-      }
-    });
+    try {
+      // Block unnecessary resources for faster loading
+      await context.route('**/*', (route) => {
+        const resourceType = route.request().resourceType();
+        
+        if (config.blockImages && resourceType === 'image') {
+          route.abort();
+        } else if (config.blockCSS && resourceType === 'stylesheet') {
+          route.abort();
+        } else if (resourceType === 'font' || resourceType === 'media') {
+          route.abort();
+        } else {
+          route.continue();
+        }
+      });
 
-    const page = await context.newPage();
-    const networkRequests: NetworkRequest[] = [];
+      const page = await context.newPage();
 
-    // Monitor network requests
-    page.on('request', (request) => {
-      networkRequests.push({
-        url: request.url(),
-        method: request.method(),
-        resourceType: request.resourceType(),
+      // Monitor network requests
+      page.on('request', (request) => {
+        networkRequests.push({
+          url: request.url(),
+          method: request.method(),
+          resourceType: request.resourceType(),
+        });
       });
-    });
 
-    page.on('response', (response) => {
-      const request = networkRequests.find(req => req.url === response.url());
-      if (request) {
-        request.response = {
-          status: response.status(),
-          contentType: response.headers()['content-type'] || '',
-          size: parseInt(response.headers()['content-length'] || '0')
-        };
-      }
-    });
+      page.on('response', (response) => {
+        const request = networkRequests.find(req => req.url === response.url());
+        if (request) {
+          request.response = {
+            status: response.status(),
+            contentType: response.headers()['content-type'] || '',
+            size: parseInt(response.headers()['content-length'] || '0')
+          };
+        }
+      });
 
-    try {
       // Navigate to the page with safer settings
       const response = await page.goto(url, {
         waitUntil: 'domcontentloaded', // Always use domcontentloaded, never networkidle
@@ -126,6 +179,23 @@ export class DynamicScraper {
         await page.waitForSelector(config.waitForSelector, { timeout: 5000 });
       }
 
+      // Run browser actions (dismiss banners, click "load more", switch tabs...)
+      let actionResults: BrowserActionResult[] | undefined;
+      if (config.actions && config.actions.length > 0) {
+        actionResults = await this.runActions(page, config.actions);
+      }
+
+      // Keep scrolling / clicking "load more" until the listing stops growing
+      let infiniteScroll: InfiniteScrollResult | undefined;
+      if (config.infiniteScroll) {
+        try {
+          infiniteScroll = await loadAllContent(page, config.infiniteScroll);
+        } catch (error) {
+          // Keep whatever has loaded so far
+          logger.warn('Infinite scroll failed', { url, error: (error as Error).message });
+        }
+      }
+
       // Brief wait for dynamic content (reduced from 2000ms to 500ms)
       await page.waitForTimeout(500);
 
@@ -164,22 +234,245 @@ export class DynamicScraper {
       // Enhanced content extraction for dynamic sites
       const content = this.extractDynamicContent($, finalUrl);
 
-      await context.close();
-
       return {
         content: {
           ...content,
           method: 'dynamic' as const,
           scrapedAt: new Date(),
+          html
         },
         networkRequests,
         performanceMetrics,
-        screenshots: [screenshot]
+        screenshots: [screenshot],
+        actionResults,
+        infiniteScroll
       };
 
     } catch (error: any) {
-      await context.close();
       throw new Error(`Dynamic scraping failed: ${error.message}`);
+    } finally {
+      await this.releaseContext(lease);
+    }
+  }
+
+  /**
+   * Capture a screenshot (viewport, full page or a single element) or a PDF of a page
+   * Images and fonts are loaded so the capture looks like the live page
+   */
+  async capture(url: string, options: CaptureOptions): Promise<CaptureResult> {
+    const lease = await this.acquireContext({
+      userAgent: options.userAgent || this.defaultOptions.userAgent,
+      viewport: options.viewport || this.defaultOptions.viewport,
+      ignoreHTTPSErrors: true,
+    });
+
+    try {
+      const page = await lease.context.newPage();
+
+      const response = await page.goto(url, {
+        waitUntil: 'load',
+        timeout: options.timeout || 30000
+      });
+
+      if (!response || response.status() >= 400) {
+        throw new Error(`HTTP ${response?.status()}: Failed to load page`);
+      }
+
+      if (options.waitForSelector) {
+        await page.waitForSelector(options.waitForSelector, { timeout: 5000 });
+      }
+
+      let actionResults: BrowserActionResult[] | undefined;
+      if (options.actions && options.actions.length > 0) {
+        actionResults = await this.runActions(page, options.actions);
+      }
+
+      // Give late-loading images and web fonts a moment
+      await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {});
+
+      let buffer: Buffer;
+      let contentType: string;
+
+      if (options.format === 'pdf') {
+        await page.emulateMedia({ media: 'print' });
+        buffer = await page.pdf({
+          format: options.pdf?.pageFormat || 'A4',
+          landscape: options.pdf?.landscape || false,
+          printBackground: options.pdf?.printBackground !== false
+        });
+        contentType = 'application/pdf';
+      } else {
+        const screenshotOptions = {
+          type: options.format,
+          ...(options.format === 'jpeg' && { quality: options.quality || 80 })
+        };
+
+        if (options.mode === 'element') {
+          if (!options.selector) {
+            throw new Error('A selector is required to capture an element');
+          }
+          const element = page.locator(options.selector).first();
+          buffer = await element.screenshot({ ...screenshotOptions, timeout: 5000 });
+        } else {
+          buffer = await page.screenshot({ ...screenshotOptions, fullPage: options.mode === 'fullPage' });
+        }
+        contentType = options.format === 'png' ? 'image/png' : 'image/jpeg';
+      }
+
+      return {
+        buffer,
+        contentType,
+        finalUrl: page.url(),
+        title: await page.title(),
+        actionResults
+      };
+
+    } catch (error: any) {
+      throw new Error(`Capture failed: ${error.message}`);
+    } finally {
+      await this.releaseContext(lease);
+    }
+  }
+
+  /**
+   * Longest a list of browser actions can take (ms), for time limits of the surrounding scrape
+   */
+  static estimateActionsDuration(actions: BrowserAction[] = []): number {
+    return actions.reduce((total, action) => {
+      const timeout = action.timeout || 5000;
+      switch (action.type) {
+        case 'type':
+          return total + 2 * timeout + (action.text || '').length * 20;
+        case 'scroll-to-bottom':
+          return total + (action.maxScrolls || 10) * 600;
+        case 'wait':
+          return total + (action.selector ? timeout : Math.min(action.duration || 0, 30000));
+        default:
+          return total + timeout;
+      }
+    }, 0);
+  }
+
+  /**
+   * Run browser actions in order. A failed step is captured in a screenshot;
+   * unless it is optional, the remaining steps are skipped.
+   */
+  private async runActions(page: Page, actions: BrowserAction[]): Promise<BrowserActionResult[]> {
+    const results: BrowserActionResult[] = [];
+    let aborted = false;
+
+    for (let index = 0; index < actions.length; index++) {
+      const action = actions[index];
+      const result: BrowserActionResult = {
+        index,
+        type: action.type,
+        selector: action.selector,
+        status: 'skipped',
+        durationMs: 0
+      };
+      results.push(result);
+
+      if (aborted) continue;
+
+      const startTime = Date.now();
+      try {
+        await this.runAction(page, action);
+        result.status = 'success';
+      } catch (error: any) {
+        result.status = 'failed';
+        result.error = error.message;
+        logger.warn('Browser action failed', { index, type: action.type, error: error.message });
+
+        try {
+          const screenshot = await page.screenshot({ fullPage: false });
+          result.screenshot = screenshot.toString('base64');
+        } catch {
+          // Page may be closed or navigating, the error message is enough
+        }
+
+        if (!action.optional) {
+          aborted = true;
+        }
+      }
+      result.durationMs = Date.now() - startTime;
+    }
+
+    return results;
+  }
+
+  /**
+   * Run a single browser action
+   */
+  private async runAction(page: Page, action: BrowserAction): Promise<void> {
+    const timeout = action.timeout || 5000;
+    const requireSelector = (): string => {
+      if (!action.selector) {
+        throw new Error(`"${action.type}" action requires a selector`);
+      }
+      return action.selector;
+    };
+
+    switch (action.type) {
+      case 'click':
+        await page.locator(requireSelector()).first().click({ timeout });
+        break;
+
+      case 'type': {
+        const input = page.locator(requireSelector()).first();
+        await input.fill('', { timeout });
+        await input.pressSequentially(action.text || '', { delay: 20, timeout });
+        break;
+      }
+
+      case 'press':
+        if (!action.key) {
+          throw new Error('"press" action requires a key');
+        }
+        if (action.selector) {
+          await page.locator(action.selector).first().press(action.key, { timeout });
+        } else {
+          await page.keyboard.press(action.key);
+        }
+        break;
+
+      case 'scroll-to-bottom': {
+        const maxScrolls = action.maxScrolls || 10;
+        let previousHeight = 0;
+        for (let i = 0; i < maxScrolls; i++) {
+          const height = await page.evaluate(() => {
+            window.scrollTo(0, document.body.scrollHeight);
+            return document.body.scrollHeight;
+          });
+          if (height === previousHeight) break;
+          previousHeight = height;
+          await page.waitForTimeout(500);
+        }
+        break;
+      }
+
+      case 'wait':
+        if (action.selector) {
+          await page.waitForSelector(action.selector, { timeout });
+        } else if (action.duration !== undefined) {
+          await page.waitForTimeout(Math.min(action.duration, 30000));
+        } else {
+          throw new Error('"wait" action requires a selector or a duration');
+        }
+        break;
+
+      case 'select':
+        if (action.value === undefined) {
+          throw new Error('"select" action requires a value');
+        }
+        await page.locator(requireSelector()).first().selectOption(action.value, { timeout });
+        break;
+
+      case 'hover':
+        await page.locator(requireSelector()).first().hover({ timeout });
+        break;
+
+      default:
+        throw new Error(`Unknown browser action: ${(action as BrowserAction).type}`);
     }
   }
 
@@ -321,29 +614,19 @@ export class DynamicScraper {
     };
   }
 
+  // Return any contexts still held to the pool (the pooled browsers stay up)
   async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-    }
+    await Promise.all(Array.from(this.leases).map(lease => this.releaseContext(lease)));
   }
 
   // Force cleanup method for emergency situations
   async forceCleanup(): Promise<void> {
     try {
-      if (this.browser) {
-        const contexts = this.browser.contexts();
-        for (const context of contexts) {
-          const pages = context.pages();
-          await Promise.all(pages.map(page => page.close().catch(() => {})));
-          await context.close().catch(() => {});
-        }
-        await this.browser.close().catch(() => {});
-        this.browser = null;
-      }
+      // Closing the contexts aborts any navigation still in flight
+      await this.close();
     } catch (error) {
-      console.error('Force cleanup failed:', error);
-      this.browser = null; // Force null even if cleanup fails
+      logger.error('Force cleanup failed', { error });
+      this.leases.clear();
     }
   }
 
@@ -0,0 +1,171 @@
+/**
+ * Field transforms
+ *
+ * Post-processing steps for extracted values, applied in order before a field's
+ * type conversion: trimming, rewriting or splitting text, parsing numbers in a
+ * locale's format and dates in a custom format, and so on. Steps that work on
+ * text are applied to each item when the value is an array.
+ */
+
+import { parse as parseDate, isValid } from 'date-fns';
+import { runWithTimeLimit } from './timeLimit';
+
+export const FIELD_TRANSFORM_TYPES = [
+    'trim', 'replace', 'split', 'join', 'parseNumber', 'parseDate', 'absoluteUrl', 'lowercase', 'default'
+] as const;
+
+export type FieldTransform =
+    | { type: 'trim' }
+    | { type: 'replace'; pattern: string; replacement?: string; flags?: string } // Regex, global unless flags are given
+    | { type: 'split'; separator: string }
+    | { type: 'join'; separator?: string } // Default ", "
+    | { type: 'parseNumber'; locale?: string } // e.g. de-DE reads "1.299,50" as 1299.5 (default en-US)
+    | { type: 'parseDate'; format: string } // date-fns format, e.g. dd.MM.yyyy or MMM d, yyyy
+    | { type: 'absoluteUrl' } // Resolve against the page URL
+    | { type: 'lowercase' }
+    | { type: 'default'; value: any }; // Used when the value is still empty
+
+export interface TransformContext {
+    baseUrl?: string;
+}
+
+export interface TransformStep {
+    type: FieldTransform['type'];
+    output: any;
+}
+
+const numberSeparators = new Map<string, { group: string; decimal: string }>();
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isEmpty(value: any): boolean {
+    return value === null
+        || value === undefined
+        || (typeof value === 'string' && value.trim() === '')
+        || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Apply a text operation to a value, or to each item of an array value
+ */
+function mapText(value: any, fn: (text: string) => any): any {
+    if (value === null || value === undefined) return value;
+    if (Array.isArray(value)) {
+        return value.map(item => (item === null || item === undefined ? item : fn(String(item))));
+    }
+    return fn(String(value));
+}
+
+function getNumberSeparators(locale: string): { group: string; decimal: string } {
+    let separators = numberSeparators.get(locale);
+    if (!separators) {
+        const parts = new Intl.NumberFormat(locale).formatToParts(1234567.89);
+        separators = {
+            group: parts.find(part => part.type === 'group')?.value ?? ',',
+            decimal: parts.find(part => part.type === 'decimal')?.value ?? '.'
+        };
+        numberSeparators.set(locale, separators);
+    }
+    return separators;
+}
+
+/**
+ * Read a number written in a locale's format, ignoring currency symbols and units around it
+ */
+export function parseLocaleNumber(text: string, locale: string = 'en-US'): number | null {
+    const { group, decimal } = getNumberSeparators(locale);
+    const normalized = text
+        .replace(/\s/g, '') // Also the (narrow) no-break spaces some locales group with
+        .replace(new RegExp(escapeRegExp(group.replace(/\s/g, '')) || '(?!)', 'g'), '')
+        .replace(decimal, '.');
+
+    const match = normalized.match(/-?\d+(?:\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+}
+
+/**
+ * Read a date in a date-fns format as UTC, so the result does not depend on the server's time zone
+ * (formats with an offset token such as XXX keep the offset they read)
+ */
+export function parseDateUtc(text: string, format: string): string | null {
+    const date = parseDate(text, format, new Date());
+    if (!isValid(date)) return null;
+
+    // date-fns reads into local time, unless the format gives the offset
+    if (/[Xx]/.test(format.replace(/'[^']*'/g, ''))) return date.toISOString();
+
+    return new Date(Date.UTC(
+        date.getFullYear(), date.getMonth(), date.getDate(),
+        date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+    )).toISOString();
+}
+
+function applyTransform(value: any, transform: FieldTransform, context: TransformContext): any {
+    switch (transform.type) {
+        case 'trim':
+            return mapText(value, text => text.trim());
+
+        case 'replace': {
+            const regex = new RegExp(transform.pattern, transform.flags ?? 'g');
+            return runWithTimeLimit(`regex:${transform.pattern}`, () => (
+                mapText(value, text => text.replace(regex, transform.replacement ?? ''))
+            ));
+        }
+
+        case 'split': {
+            const split = mapText(value, text => text.split(transform.separator).map(item => item.trim()).filter(Boolean));
+            return Array.isArray(value) ? split.flat() : split;
+        }
+
+        case 'join':
+            return Array.isArray(value)
+                ? value.filter(item => !isEmpty(item)).join(transform.separator ?? ', ')
+                : value;
+
+        case 'parseNumber':
+            return mapText(value, text => parseLocaleNumber(text, transform.locale));
+
+        case 'parseDate':
+            return mapText(value, text => parseDateUtc(text.trim(), transform.format));
+
+        case 'absoluteUrl':
+            return mapText(value, text => {
+                if (!context.baseUrl) return text;
+                try {
+                    return new URL(text.trim(), context.baseUrl).href;
+                } catch {
+                    return text;
+                }
+            });
+
+        case 'lowercase':
+            return mapText(value, text => text.toLowerCase());
+
+        case 'default':
+            return isEmpty(value) ? transform.value : value;
+
+        default:
+            return value;
+    }
+}
+
+/**
+ * Run a value through a chain of transforms (each step's output is recorded in steps when given)
+ */
+export function applyTransforms(
+    value: any,
+    transforms: FieldTransform[],
+    context: TransformContext = {},
+    steps?: TransformStep[]
+): any {
+    let current = value;
+    for (const transform of transforms) {
+        current = applyTransform(current, transform, context);
+        steps?.push({ type: transform.type, output: current });
+    }
+    return current;
+}
+
+export default { applyTransforms, parseLocaleNumber, parseDateUtc };
@@ -0,0 +1,115 @@
+/**
+ * XPath over HTML
+ *
+ * XML parsers reject most real-world HTML (unclosed tags, bare ampersands), so
+ * the document cheerio already parsed the way a browser would is copied into an
+ * xmldom tree that the xpath package can evaluate. Matched elements are mapped
+ * back to cheerio nodes, so attributes and text are read the same way as for
+ * CSS selectors. Evaluation runs under the time limit of user patterns.
+ */
+
+import * as cheerio from 'cheerio';
+import { DOMImplementation } from '@xmldom/xmldom';
+import * as xpath from 'xpath';
+import { runWithTimeLimit } from './timeLimit';
+
+export type XPathMatch =
+    | { node: any } // Element, as a cheerio (domhandler) node
+    | { value: string }; // Attribute, text node or the result of a function like string() or count()
+
+interface XPathDocument {
+    document: any;
+    toXml: Map<any, any>;
+    fromXml: Map<any, any>;
+}
+
+// Copies are kept as long as the cheerio document they were made from
+const documents = new WeakMap<object, XPathDocument>();
+
+const ELEMENT_NODE = 1;
+const ATTRIBUTE_NODE = 2;
+
+function copyChildren(source: any, target: any, copy: XPathDocument): void {
+    for (const child of source.children || []) {
+        if (child.type === 'text') {
+            target.appendChild(copy.document.createTextNode(child.data));
+        } else if (child.type === 'tag' || child.type === 'script' || child.type === 'style') {
+            let element: any;
+            try {
+                element = copy.document.createElement(child.name);
+            } catch {
+                element = copy.document.createElement('unknown'); // Names XML does not allow
+            }
+
+            for (const [name, value] of Object.entries(child.attribs || {})) {
+                try {
+                    element.setAttribute(name, value);
+                } catch {
+                    // Attribute names XML does not allow (e.g. @click), skip
+                }
+            }
+
+            copy.toXml.set(child, element);
+            copy.fromXml.set(element, child);
+            copyChildren(child, element, copy);
+            target.appendChild(element);
+        } else if (child.type === 'cdata') {
+            copyChildren(child, target, copy);
+        }
+        // Comments, doctypes and processing instructions are not copied
+    }
+}
+
+function getXPathDocument($: cheerio.CheerioAPI): XPathDocument {
+    const root = $.root().get(0)!;
+    const cached = documents.get(root);
+    if (cached) return cached;
+
+    const document = new DOMImplementation().createDocument(null, 'root', null);
+    const copy: XPathDocument = { document, toXml: new Map(), fromXml: new Map() };
+    copy.toXml.set(root, document.documentElement);
+    copyChildren(root, document.documentElement, copy);
+
+    documents.set(root, copy);
+    return copy;
+}
+
+/**
+ * Syntax error of an expression (or an unknown function in it), or null when it is valid
+ */
+export function validateXPath(expression: string): string | null {
+    try {
+        xpath.select(expression, new DOMImplementation().createDocument(null, 'root', null) as any);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+/**
+ * Evaluate an expression against the page, or relative to an element (e.g. a list item)
+ */
+export function evaluateXPath($: cheerio.CheerioAPI, expression: string, context?: any): XPathMatch[] {
+    const copy = getXPathDocument($);
+    const contextNode = context ? copy.toXml.get(context) : copy.document;
+    if (!contextNode) return [];
+
+    // Expressions come from users and nested predicates can take exponential time
+    const result = runWithTimeLimit(`xpath:${expression}`, () => xpath.select(expression, contextNode));
+    if (!Array.isArray(result)) {
+        const value = String(result);
+        return value === '' ? [] : [{ value }];
+    }
+
+    return result.map((node: any): XPathMatch => {
+        if (node.nodeType === ELEMENT_NODE && copy.fromXml.has(node)) {
+            return { node: copy.fromXml.get(node) };
+        }
+        if (node.nodeType === ATTRIBUTE_NODE) {
+            return { value: node.value };
+        }
+        return { value: node.nodeValue ?? node.textContent ?? '' };
+    });
+}
+
+export default { evaluateXPath, validateXPath };
@@ -0,0 +1,131 @@
+/**
+ * Infinite scroll / "load more" handling for Playwright pages
+ *
+ * Feed-style listings only render the first batch of items until the user
+ * scrolls or clicks a "load more" button. This keeps doing that until the
+ * DOM stops growing or a configured limit is reached.
+ */
+
+import { Page } from 'playwright';
+import { logger } from './logger';
+
+export interface InfiniteScrollOptions {
+    loadMoreSelector?: string; // Click this button instead of scrolling
+    itemSelector?: string; // Items to count for maxItems and growth detection
+    maxIterations?: number;
+    maxItems?: number;
+    idleTimeout?: number; // How long to wait for new content after each cycle (ms)
+}
+
+export interface InfiniteScrollResult {
+    cycles: number;
+    itemCount?: number;
+    stopReason: 'no-new-content' | 'max-iterations' | 'max-items' | 'no-load-more-button';
+}
+
+interface DomSnapshot {
+    height: number;
+    nodes: number;
+    items: number;
+}
+
+const DEFAULT_MAX_ITERATIONS = 10;
+const MAX_ITERATIONS_LIMIT = 50;
+const DEFAULT_IDLE_TIMEOUT = 2000;
+const POLL_INTERVAL = 250;
+
+/**
+ * Measure the page so growth can be detected between cycles
+ */
+async function takeSnapshot(page: Page, itemSelector?: string): Promise<DomSnapshot> {
+    return page.evaluate((selector) => ({
+        height: document.body.scrollHeight,
+        nodes: document.getElementsByTagName('*').length,
+        items: selector ? document.querySelectorAll(selector).length : 0
+    }), itemSelector);
+}
+
+/**
+ * Poll until the page grows or the idle timeout passes
+ */
+async function waitForGrowth(page: Page, before: DomSnapshot, options: InfiniteScrollOptions): Promise<DomSnapshot | null> {
+    const deadline = Date.now() + (options.idleTimeout || DEFAULT_IDLE_TIMEOUT);
+
+    while (Date.now() < deadline) {
+        await page.waitForTimeout(POLL_INTERVAL);
+        const after = await takeSnapshot(page, options.itemSelector);
+
+        const grew = options.itemSelector
+            ? after.items > before.items
+            : after.height > before.height || after.nodes > before.nodes;
+        if (grew) return after;
+    }
+
+    return null;
+}
+
+/**
+ * Longest loadAllContent can take with these options (ms), for time limits of the surrounding scrape
+ */
+export function estimateMaxDuration(options: InfiniteScrollOptions = {}): number {
+    const maxIterations = Math.min(options.maxIterations || DEFAULT_MAX_ITERATIONS, MAX_ITERATIONS_LIMIT);
+    const clickTime = options.loadMoreSelector ? 7000 : 0; // scrollIntoViewIfNeeded + click timeouts
+    return maxIterations * (clickTime + (options.idleTimeout || DEFAULT_IDLE_TIMEOUT) + POLL_INTERVAL);
+}
+
+/**
+ * Scroll or click "load more" until no new content appears or a limit is hit
+ */
+export async function loadAllContent(page: Page, options: InfiniteScrollOptions = {}): Promise<InfiniteScrollResult> {
+    const maxIterations = Math.min(options.maxIterations || DEFAULT_MAX_ITERATIONS, MAX_ITERATIONS_LIMIT);
+    let snapshot = await takeSnapshot(page, options.itemSelector);
+    let cycles = 0;
+    let stopReason: InfiniteScrollResult['stopReason'] = 'max-iterations';
+
+    while (cycles < maxIterations) {
+        if (options.maxItems && options.itemSelector && snapshot.items >= options.maxItems) {
+            stopReason = 'max-items';
+            break;
+        }
+
+        if (options.loadMoreSelector) {
+            const button = page.locator(options.loadMoreSelector).first();
+            if (!(await button.isVisible().catch(() => false))) {
+                stopReason = 'no-load-more-button';
+                break;
+            }
+            try {
+                await button.scrollIntoViewIfNeeded({ timeout: 2000 });
+                await button.click({ timeout: 5000 });
+            } catch (error) {
+                logger.warn('Could not click load more button', { error: (error as Error).message });
+                stopReason = 'no-load-more-button';
+                break;
+            }
+        } else {
+            await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+        }
+        cycles++;
+
+        const grown = await waitForGrowth(page, snapshot, options);
+        if (!grown) {
+            stopReason = 'no-new-content';
+            break;
+        }
+        snapshot = grown;
+    }
+
+    if (stopReason === 'max-iterations' && options.maxItems && options.itemSelector && snapshot.items >= options.maxItems) {
+        stopReason = 'max-items';
+    }
+
+    logger.debug('Infinite scroll finished', { cycles, stopReason });
+
+    return {
+        cycles,
+        itemCount: options.itemSelector ? snapshot.items : undefined,
+        stopReason
+    };
+}
+
+export default { loadAllContent, estimateMaxDuration };
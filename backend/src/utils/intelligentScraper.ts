@@ -1,10 +1,17 @@
 import { StaticScraper, ScrapedContent } from './staticScraper';
-import { DynamicScraper } from './dynamicScraper';
+import { DynamicScraper, BrowserAction, BrowserActionResult } from './dynamicScraper';
+import { InfiniteScrollOptions, InfiniteScrollResult, estimateMaxDuration } from './infiniteScroll';
 import { ApiScraper, ApiScrapedData } from './apiScraper';
 import { RobotsChecker, RobotsInfo } from './robotsChecker';
 import { AdaptiveScraper, AdaptiveScrapingResult } from './adaptiveScraper';
 import { StealthScraper } from './stealthScraper';
 import { ContentExtractorService } from '../services/contentExtractor';
+import { StructuredEntity } from './structuredDataParser';
+import { recordScrape } from './metrics';
+import { logger, Logger } from './logger';
+
+// Overall limit of a scrape, extended by the time its browser actions and infinite scroll may take
+const SCRAPE_TIME_LIMIT = 45000;
 
 export interface ScrapingStrategy {
   method: 'static' | 'dynamic' | 'stealth' | 'adaptive' | 'api' | 'hybrid';
@@ -14,7 +21,8 @@ export interface ScrapingStrategy {
 }
 
 export interface IntelligentScrapedData extends ScrapedContent {
-  markdownContent?: string; // Clean Firecrawl-style markdown
+  markdownContent?: string; // Clean Firecrawl-style markdown, converted from html
+  structuredData?: StructuredEntity[]; // JSON-LD, Microdata and RDFa entities, parsed from html
   strategy: ScrapingStrategy;
   robotsInfo: RobotsInfo;
   performanceMetrics: {
@@ -25,6 +33,8 @@ export interface IntelligentScrapedData extends ScrapedContent {
     methodsAttempted: string[];
   };
   apiData?: ApiScrapedData;
+  actionResults?: BrowserActionResult[];
+  infiniteScroll?: InfiniteScrollResult;
   qualityScore: number;
   completenessScore: number;
   additionalContent?: {
@@ -49,8 +59,13 @@ export interface IntelligentScrapeOptions {
   captchaApiKey?: string;
   stealthLevel?: 'basic' | 'advanced' | 'maximum';
   learningMode?: boolean;
+  actions?: BrowserAction[]; // Browser actions to run before capture (forces dynamic scraping)
+  infiniteScroll?: InfiniteScrollOptions; // Load feed-style listings fully (forces dynamic scraping)
 }
 
+// Options with their defaults filled in (infinite scroll stays off unless requested)
+type ScrapeConfig = Required<Omit<IntelligentScrapeOptions, 'infiniteScroll'>> & Pick<IntelligentScrapeOptions, 'infiniteScroll'>;
+
 export class IntelligentScraper {
   private staticScraper: StaticScraper;
   private dynamicScraper: DynamicScraper;
@@ -66,7 +81,7 @@ export class IntelligentScraper {
 
   async scrape(url: string, options: IntelligentScrapeOptions = {}): Promise<IntelligentScrapedData> {
     const startTime = Date.now();
-    const defaultOptions: Required<IntelligentScrapeOptions> = {
+    const defaultOptions: ScrapeConfig = {
       userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
       timeout: 15000, // Reduced to prevent hangs on low-resource VPS
       maxRetries: 2,
@@ -80,51 +95,73 @@ export class IntelligentScraper {
       captchaSolver: 'skip',
       captchaApiKey: '',
       stealthLevel: 'advanced',
-      learningMode: true
+      learningMode: true,
+      actions: []
     };
 
     const config = { ...defaultOptions, ...options };
 
-    // Add overall timeout protection (45 seconds max)
+    // Lines of this scrape carry its URL (and the request ID from the log context)
+    const log = logger.child({ url });
+
+    // Add overall timeout protection
+    const timeLimit = SCRAPE_TIME_LIMIT
+      + DynamicScraper.estimateActionsDuration(config.actions)
+      + (config.infiniteScroll ? estimateMaxDuration(config.infiniteScroll) : 0);
+    let timer: NodeJS.Timeout | undefined;
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        console.error('Scraping operation timed out after 45 seconds');
+      timer = setTimeout(() => {
+        log.error('Scraping operation timed out', { timeLimit });
         reject(new Error('Scraping operation timed out - taking too long'));
-      }, 45000);
+      }, timeLimit);
     });
 
     try {
       const result = await Promise.race([
-        this.performScraping(url, config, startTime),
+        this.performScraping(url, config, startTime, log),
         timeoutPromise
       ]);
-      return result;
+      recordScrape(result);
+      return await this.addMarkdownContent(result);
     } catch (timeoutError) {
-      console.error('Scraping timeout error:', timeoutError);
+      recordScrape();
+      log.error('Scraping failed', { error: timeoutError });
       // Force cleanup on timeout
       await this.forceCleanup();
       throw timeoutError;
+    } finally {
+      clearTimeout(timer);
     }
   }
 
-  private async performScraping(url: string, config: Required<IntelligentScrapeOptions>, startTime: number): Promise<IntelligentScrapedData> {
+  private async performScraping(
+    url: string,
+    config: ScrapeConfig,
+    startTime: number,
+    log: Logger
+  ): Promise<IntelligentScrapedData> {
     const methodsAttempted: string[] = [];
     let finalResult: IntelligentScrapedData;
 
-    console.log(`🧠 Starting intelligent scraping for: ${url}`);
+    log.info('Starting intelligent scraping');
 
     // Step 1: Check robots.txt (log but don't enforce)
-    console.log('🤖 Checking robots.txt...');
     const robotsInfo = await RobotsChecker.checkRobots(url, config.userAgent);
-    console.log(`📋 Robots.txt policy: ${robotsInfo.isAllowed ? 'ALLOWED' : 'BLOCKED'} (${robotsInfo.error || 'No issues'})`);
+    log.debug('Robots.txt checked', { allowed: robotsInfo.isAllowed, error: robotsInfo.error });
     
     if (!robotsInfo.isAllowed) {
-      console.log('⚠️ Warning: robots.txt disallows scraping, but proceeding as requested');
+      log.warn('robots.txt disallows scraping, proceeding as requested');
+    }
+
+    // Browser actions and infinite scroll can only run in the dynamic scraper
+    const needsBrowser = config.actions.length > 0 || !!config.infiniteScroll;
+    if (needsBrowser) {
+      log.debug('Page interaction requested, using dynamic scraping');
     }
 
     // Check if adaptive scraping is enabled and should be used
-    if (config.enableAdaptiveScraping && (!config.forceMethod || config.forceMethod === 'adaptive')) {
-      console.log('🧠 Using adaptive scraping strategy...');
+    if (!needsBrowser && config.enableAdaptiveScraping && (!config.forceMethod || config.forceMethod === 'adaptive')) {
+      log.debug('Using adaptive scraping strategy');
       methodsAttempted.push('adaptive');
       
       try {
@@ -138,7 +175,7 @@ export class IntelligentScraper {
         });
 
         const totalTime = Date.now() - startTime;
-        console.log(`✅ Adaptive scraping completed in ${totalTime}ms using ${adaptiveResult.strategy.type} method`);
+        log.info('Adaptive scraping completed', { duration: totalTime, strategy: adaptiveResult.strategy.type });
 
         return this.createFinalResult(adaptiveResult, robotsInfo, {
           method: 'adaptive',
@@ -146,11 +183,11 @@ export class IntelligentScraper {
           reasons: [`Adaptive strategy: ${adaptiveResult.strategy.type}`, ...adaptiveResult.adaptations],
           estimatedTime: totalTime / 1000
         }, methodsAttempted, { totalTime }, undefined, {
-          adaptiveResult: adaptiveResult
+          adaptiveResult: { ...adaptiveResult, html: undefined } // The HTML is already on the result
         });
 
       } catch (adaptiveError) {
-        console.warn('⚠️ Adaptive scraping failed, falling back to traditional methods:', adaptiveError);
+        log.warn('Adaptive scraping failed, falling back to traditional methods', { error: adaptiveError });
         
         // If adaptive was forced and failed, don't continue with other methods
         if (config.forceMethod === 'adaptive') {
@@ -160,7 +197,7 @@ export class IntelligentScraper {
     }
 
     // Step 2: Attempt static scraping first (if not using adaptive)
-    console.log('📄 Attempting static scraping...');
+    log.debug('Attempting static scraping');
     const staticStartTime = Date.now();
     methodsAttempted.push('static');
 
@@ -171,19 +208,18 @@ export class IntelligentScraper {
       });
 
       const staticTime = Date.now() - staticStartTime;
-      console.log(`✅ Static scraping completed in ${staticTime}ms`);
 
       // Analyze static content quality
       const staticQuality = this.analyzeContentQuality(staticResult);
-      console.log(`📊 Static content quality: ${staticQuality.score}% (${staticQuality.wordCount} words)`);
+      log.debug('Static scraping completed', { duration: staticTime, quality: staticQuality.score, words: staticQuality.wordCount });
 
       // Check if we need dynamic scraping
       const dynamicAnalysis = await DynamicScraper.needsDynamicScraping(url, staticResult.content);
-      console.log(`🔍 Dynamic scraping analysis: ${dynamicAnalysis.needsDynamic ? 'NEEDED' : 'NOT NEEDED'} (confidence: ${dynamicAnalysis.confidence}%)`);
-      
-      if (dynamicAnalysis.reasons.length > 0) {
-        console.log(`   Reasons: ${dynamicAnalysis.reasons.join(', ')}`);
-      }
+      log.debug('Dynamic scraping analysis', {
+        needsDynamic: dynamicAnalysis.needsDynamic,
+        confidence: dynamicAnalysis.confidence,
+        reasons: dynamicAnalysis.reasons
+      });
 
       // Decide strategy based on analysis and force method
       if (config.forceMethod === 'static' || 
@@ -196,10 +232,10 @@ export class IntelligentScraper {
           estimatedTime: staticTime / 1000
         }, methodsAttempted, { staticTime });
 
-      } else if ((config.forceMethod === 'dynamic' || config.forceMethod === 'stealth') || 
+      } else if ((config.forceMethod === 'dynamic' || config.forceMethod === 'stealth') || needsBrowser ||
                  (dynamicAnalysis.needsDynamic && config.enableDynamicScraping)) {
         // Step 3: Attempt dynamic scraping
-        console.log('🎭 Attempting dynamic scraping...');
+        log.debug('Attempting dynamic scraping');
         const dynamicStartTime = Date.now();
         methodsAttempted.push('dynamic');
 
@@ -212,29 +248,29 @@ export class IntelligentScraper {
           const dynamicResult = await this.dynamicScraper.scrape(url, {
             userAgent: config.userAgent,
             timeout: config.timeout,
-            waitForNetworkIdle: true
+            waitForNetworkIdle: true,
+            actions: config.actions,
+            infiniteScroll: config.infiniteScroll
           });
 
           const dynamicTime = Date.now() - dynamicStartTime;
-          console.log(`✅ Dynamic scraping completed in ${dynamicTime}ms`);
 
           const dynamicQuality = this.analyzeContentQuality(dynamicResult.content);
-          console.log(`📊 Dynamic content quality: ${dynamicQuality.score}% (${dynamicQuality.wordCount} words)`);
+          log.debug('Dynamic scraping completed', { duration: dynamicTime, quality: dynamicQuality.score, words: dynamicQuality.wordCount });
 
           // Check for API endpoints
           let apiData: ApiScrapedData | undefined;
           if (config.enableApiScraping && dynamicResult.networkRequests.length > 0) {
-            console.log('🔌 Analyzing API endpoints...');
             const apiStartTime = Date.now();
             methodsAttempted.push('api');
 
             const apiEndpoints = ApiScraper.analyzeNetworkRequests(dynamicResult.networkRequests);
-            console.log(`📡 Found ${apiEndpoints.length} potential API endpoints`);
+            log.debug('Found potential API endpoints', { count: apiEndpoints.length });
 
             if (apiEndpoints.length > 0) {
               apiData = await ApiScraper.scrapeApiEndpoints(apiEndpoints, url);
               const apiTime = Date.now() - apiStartTime;
-              console.log(`✅ API scraping completed in ${apiTime}ms, extracted ${apiData.totalDataPoints} data points`);
+              log.debug('API scraping completed', { duration: apiTime, dataPoints: apiData.totalDataPoints });
             }
           }
 
@@ -260,9 +296,11 @@ export class IntelligentScraper {
             apiContent: apiData?.extractedData,
             structuredData: apiData?.structuredContent
           });
+          finalResult.actionResults = dynamicResult.actionResults;
+          finalResult.infiniteScroll = dynamicResult.infiniteScroll;
 
         } catch (dynamicError) {
-          console.warn('⚠️ Dynamic scraping failed:', dynamicError);
+          log.warn('Dynamic scraping failed', { error: dynamicError });
           
           // Fallback to static result
           finalResult = this.createFinalResult(staticResult, robotsInfo, {
@@ -284,18 +322,20 @@ export class IntelligentScraper {
       }
 
     } catch (staticError) {
-      console.error('❌ Static scraping failed:', staticError);
+      log.warn('Static scraping failed', { error: staticError });
       
       if (config.enableDynamicScraping) {
         // Try dynamic as fallback
-        console.log('🎭 Falling back to dynamic scraping...');
+        log.debug('Falling back to dynamic scraping');
         const dynamicStartTime = Date.now();
         methodsAttempted.push('dynamic');
 
         try {
           const dynamicResult = await this.dynamicScraper.scrape(url, {
             userAgent: config.userAgent,
-            timeout: config.timeout
+            timeout: config.timeout,
+            actions: config.actions,
+            infiniteScroll: config.infiniteScroll
           });
 
           const dynamicTime = Date.now() - dynamicStartTime;
@@ -307,11 +347,13 @@ export class IntelligentScraper {
             reasons: ['Static scraping failed', 'Dynamic scraping successful'],
             estimatedTime: dynamicTime / 1000
           }, methodsAttempted, { dynamicTime });
+          finalResult.actionResults = dynamicResult.actionResults;
+          finalResult.infiniteScroll = dynamicResult.infiniteScroll;
 
         } catch (dynamicError: any) {
           // Try stealth scraping as final fallback
           if (config.enableStealthScraping) {
-            console.log('🥷 Falling back to stealth scraping...');
+            log.debug('Falling back to stealth scraping');
             const stealthStartTime = Date.now();
             methodsAttempted.push('stealth');
 
@@ -354,8 +396,12 @@ export class IntelligentScraper {
     const totalTime = Date.now() - startTime;
     finalResult.performanceMetrics.totalTime = totalTime;
 
-    console.log(`🎉 Intelligent scraping completed in ${totalTime}ms using ${finalResult.strategy.method} method`);
-    console.log(`📈 Final quality score: ${finalResult.qualityScore}%, completeness: ${finalResult.completenessScore}%`);
+    log.info('Intelligent scraping completed', {
+      duration: totalTime,
+      method: finalResult.strategy.method,
+      quality: finalResult.qualityScore,
+      completeness: finalResult.completenessScore
+    });
 
     return finalResult;
   }
@@ -513,6 +559,23 @@ export class IntelligentScraper {
     return content;
   }
 
+  /**
+   * Convert the HTML captured by the winning strategy to markdown (and read its structured data), once
+   */
+  private async addMarkdownContent(result: IntelligentScrapedData): Promise<IntelligentScrapedData> {
+    if (!result.html) return result;
+
+    try {
+      const extractedContent = await this.contentExtractor.extractContent(result.html, result.url, new URL(result.url).hostname);
+      result.markdownContent = extractedContent.markdownContent || undefined;
+      result.structuredData = extractedContent.structuredData;
+    } catch (markdownError) {
+      logger.warn('Failed to extract markdown content', { url: result.url, error: markdownError });
+    }
+
+    return result;
+  }
+
   private createFinalResult(
     content: ScrapedContent,
     robotsInfo: RobotsInfo,
@@ -560,10 +623,9 @@ export class IntelligentScraper {
   }
 
   async cleanup(): Promise<void> {
-    await Promise.all([
-      this.dynamicScraper.close(),
-      this.adaptiveScraper.cleanup()
-    ]);
+    // The adaptive scraper is a shared singleton whose scrapers return their pooled
+    // contexts as each scrape finishes, so only this instance's contexts are released
+    await this.dynamicScraper.close();
   }
 
   // Additional methods for advanced scraping management
@@ -590,12 +652,12 @@ export class IntelligentScraper {
   // Force cleanup method for emergency situations
   async forceCleanup(): Promise<void> {
     try {
-      console.log('🧹 Force cleanup initiated');
+      logger.debug('Force cleanup initiated');
       // Only cleanup dynamic scraper (static scraper doesn't need cleanup)
-      await this.dynamicScraper.forceCleanup().catch((err: any) => console.error('Dynamic scraper cleanup failed:', err));
-      console.log('✅ Force cleanup completed');
+      await this.dynamicScraper.forceCleanup().catch((err: any) => logger.error('Dynamic scraper cleanup failed', { error: err }));
+      logger.debug('Force cleanup completed');
     } catch (error) {
-      console.error('❌ Force cleanup failed:', error);
+      logger.error('Force cleanup failed', { error });
     }
   }
 }
@@ -0,0 +1,230 @@
+/**
+ * Structured Logger
+ *
+ * Writes one JSON object per line with a level, a message and context fields.
+ * The request ID (X-Request-Id) of the request being handled is added to every
+ * line automatically: requestLogger runs the rest of the request in a log
+ * context, and work started from it (scrapes, crawls, exports) inherits it.
+ * Child loggers add their own fields, e.g. the sessionId of a crawl.
+ *
+ * Configuration (read on first log, after dotenv has loaded):
+ * - LOG_LEVEL: error, warn, info (default) or debug
+ * - LOG_FORMAT: json (default in production) or pretty (default otherwise)
+ * - LOG_TO_FILE: also write JSON lines to logs/LOG_FILE (default in production)
+ * - LOG_FILE_MAX_MB / LOG_FILE_MAX_FILES: rotate at this size, keep this many old files
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+export interface LogContext {
+    requestId?: string;
+    sessionId?: string;
+    jobId?: string;
+    [key: string]: any;
+}
+
+interface LoggerConfig {
+    level: LogLevel;
+    pretty: boolean;
+    file: RotatingFile | null;
+}
+
+const LEVELS: Record<LogLevel, number> = { error: 0, warn: 1, info: 2, debug: 3 };
+
+const COLORS: Record<LogLevel, string> = {
+    error: '\x1b[31m', // Red
+    warn: '\x1b[33m', // Yellow
+    info: '\x1b[36m', // Cyan
+    debug: '\x1b[90m' // Gray
+};
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+let _config: LoggerConfig | null = null;
+
+/**
+ * Append-only log file that is renamed to <file>.1 (older ones shifted up) once it reaches maxBytes
+ */
+class RotatingFile {
+    private stream: fs.WriteStream | null = null;
+    private size = 0;
+
+    constructor(private filePath: string, private maxBytes: number, private maxFiles: number) {}
+
+    write(line: string): void {
+        if (!this.stream) this.open();
+
+        const bytes = Buffer.byteLength(line);
+        if (this.size > 0 && this.size + bytes > this.maxBytes) {
+            this.rotate();
+        }
+
+        this.stream!.write(line);
+        this.size += bytes;
+    }
+
+    private open(): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        try {
+            this.size = fs.statSync(this.filePath).size;
+        } catch {
+            this.size = 0;
+        }
+
+        this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+        this.stream.on('error', (err) => console.error('Failed to write to log file:', err.message));
+    }
+
+    private rotate(): void {
+        this.stream!.end(); // Pending writes still land in the renamed file
+        this.stream = null;
+
+        try {
+            for (let i = this.maxFiles - 1; i >= 1; i--) {
+                const older = `${this.filePath}.${i}`;
+                if (fs.existsSync(older)) {
+                    fs.renameSync(older, `${this.filePath}.${i + 1}`);
+                }
+            }
+            if (fs.existsSync(this.filePath)) {
+                fs.renameSync(this.filePath, `${this.filePath}.1`);
+            }
+        } catch (err) {
+            console.error('Failed to rotate log file:', (err as Error).message);
+        }
+
+        this.open();
+    }
+}
+
+function getConfig(): LoggerConfig {
+    if (_config) return _config;
+
+    const isProduction = process.env.NODE_ENV === 'production';
+    const configuredLevel = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+    const format = (process.env.LOG_FORMAT || (isProduction ? 'json' : 'pretty')).toLowerCase();
+    const toFile = process.env.LOG_TO_FILE ? process.env.LOG_TO_FILE === 'true' : isProduction;
+
+    _config = {
+        level: configuredLevel in LEVELS ? configuredLevel : 'info',
+        pretty: format === 'pretty',
+        file: toFile
+            ? new RotatingFile(
+                path.join(process.cwd(), 'logs', process.env.LOG_FILE || 'scrapperx.log'),
+                parseInt(process.env.LOG_FILE_MAX_MB || '10', 10) * 1024 * 1024,
+                Math.max(1, parseInt(process.env.LOG_FILE_MAX_FILES || '5', 10))
+            )
+            : null
+    };
+    return _config;
+}
+
+/**
+ * Make errors in fields serializable (their properties are not enumerable)
+ */
+function serializeValue(value: any): any {
+    if (value instanceof Error) {
+        return { name: value.name, message: value.message, stack: value.stack };
+    }
+    return value;
+}
+
+function stringify(entry: Record<string, any>): string {
+    try {
+        return JSON.stringify(entry);
+    } catch {
+        // Circular structures: keep the line, drop the fields
+        return JSON.stringify({
+            timestamp: entry.timestamp,
+            level: entry.level,
+            message: entry.message,
+            requestId: entry.requestId
+        });
+    }
+}
+
+export class Logger {
+    constructor(private context: LogContext = {}) {}
+
+    /**
+     * Logger that adds these fields to every line
+     */
+    child(context: LogContext): Logger {
+        return new Logger({ ...this.context, ...context });
+    }
+
+    error(message: string, fields?: Record<string, any>): void {
+        this.write('error', message, fields);
+    }
+
+    warn(message: string, fields?: Record<string, any>): void {
+        this.write('warn', message, fields);
+    }
+
+    info(message: string, fields?: Record<string, any>): void {
+        this.write('info', message, fields);
+    }
+
+    debug(message: string, fields?: Record<string, any>): void {
+        this.write('debug', message, fields);
+    }
+
+    private write(level: LogLevel, message: string, fields?: Record<string, any>): void {
+        const config = getConfig();
+        if (LEVELS[level] > LEVELS[config.level]) return;
+
+        const entry: Record<string, any> = {
+            timestamp: new Date().toISOString(),
+            level,
+            message,
+            ...contextStorage.getStore(),
+            ...this.context
+        };
+        for (const [key, value] of Object.entries(fields || {})) {
+            if (value !== undefined) entry[key] = serializeValue(value);
+        }
+
+        const line = stringify(entry);
+        config.file?.write(line + '\n');
+
+        const output = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+        if (!config.pretty) {
+            output(line);
+            return;
+        }
+
+        const { timestamp, level: _level, message: _message, requestId, ...rest } = entry;
+        let details = '';
+        if (Object.keys(rest).length > 0) {
+            try {
+                details = ` ${JSON.stringify(rest)}`;
+            } catch {
+                details = ' [unserializable fields]';
+            }
+        }
+        output(
+            `${COLORS[level]}${level.toUpperCase()}\x1b[0m`,
+            `${requestId ? `[${requestId}] ` : ''}${message}${details}`
+        );
+    }
+}
+
+export const logger = new Logger();
+
+/**
+ * Run fn with fields (e.g. the request ID) added to every log line written from it
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+    return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+/**
+ * Request ID of the request being handled, if any
+ */
+export function getRequestId(): string | undefined {
+    return contextStorage.getStore()?.requestId;
+}
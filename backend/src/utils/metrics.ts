@@ -0,0 +1,186 @@
+/**
+ * Prometheus Metrics
+ *
+ * Counters and histograms are updated where the work happens (requests,
+ * scrapes, crawled pages, exports, rate limit rejections). Gauges for browser
+ * slots, crawl sessions and the URL queue are read when /metrics is scraped.
+ *
+ * Crawl throughput is a counter: graph it as pages per second with
+ * rate(scrapperx_crawl_pages_total[5m]).
+ */
+
+import { Registry, Counter, Histogram, Gauge, collectDefaultMetrics } from 'prom-client';
+import { getConcurrencyStats } from './concurrencyLimiter';
+import { DomainCrawlerService } from '../services/domainCrawler';
+import { UrlQueue } from '../models/crawlerModels';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from './logger';
+
+const PREFIX = 'scrapperx_';
+const QUEUE_STATUSES = ['pending', 'processing', 'completed', 'failed'];
+
+export const metricsRegistry = new Registry();
+
+// Process metrics (CPU, memory, event loop lag, GC)
+collectDefaultMetrics({ register: metricsRegistry, prefix: PREFIX });
+
+// ---- HTTP ----
+
+const httpRequests = new Counter({
+    name: `${PREFIX}http_requests_total`,
+    help: 'HTTP requests by method, route pattern and status code',
+    labelNames: ['method', 'route', 'status'],
+    registers: [metricsRegistry]
+});
+
+const httpRequestDuration = new Histogram({
+    name: `${PREFIX}http_request_duration_seconds`,
+    help: 'HTTP request latency by method, route pattern and status code',
+    labelNames: ['method', 'route', 'status'],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+    registers: [metricsRegistry]
+});
+
+// ---- Scraping ----
+
+const scrapes = new Counter({
+    name: `${PREFIX}scrapes_total`,
+    help: 'Intelligent scrapes by scraper that produced the content (method), chosen strategy and result',
+    labelNames: ['method', 'strategy', 'result'],
+    registers: [metricsRegistry]
+});
+
+const scrapeQuality = new Histogram({
+    name: `${PREFIX}scrape_quality_score`,
+    help: 'Quality score (0-100) of successful scrapes by method',
+    labelNames: ['method'],
+    buckets: [10, 20, 30, 40, 50, 60, 70, 80, 90, 100],
+    registers: [metricsRegistry]
+});
+
+new Gauge({
+    name: `${PREFIX}browser_slots_in_use`,
+    help: 'Browser slots currently held by scrapes',
+    registers: [metricsRegistry],
+    collect() {
+        this.set(getConcurrencyStats().running);
+    }
+});
+
+new Gauge({
+    name: `${PREFIX}browser_slots_max`,
+    help: 'Maximum number of concurrent browser slots',
+    registers: [metricsRegistry],
+    collect() {
+        this.set(getConcurrencyStats().maxConcurrent);
+    }
+});
+
+new Gauge({
+    name: `${PREFIX}browser_slot_queue_length`,
+    help: 'Scrapes waiting for a browser slot',
+    registers: [metricsRegistry],
+    collect() {
+        this.set(getConcurrencyStats().queued);
+    }
+});
+
+// ---- Crawling ----
+
+new Gauge({
+    name: `${PREFIX}crawl_sessions_active`,
+    help: 'Crawl sessions running in this process',
+    registers: [metricsRegistry],
+    collect() {
+        this.set(DomainCrawlerService.getInstance().getActiveCrawlCount());
+    }
+});
+
+const crawlPages = new Counter({
+    name: `${PREFIX}crawl_pages_total`,
+    help: 'Crawled pages by result (completed, unchanged on re-crawl, failed)',
+    labelNames: ['result'],
+    registers: [metricsRegistry]
+});
+
+new Gauge({
+    name: `${PREFIX}url_queue_depth`,
+    help: 'URL queue entries by status, across all crawl sessions',
+    labelNames: ['status'],
+    registers: [metricsRegistry],
+    async collect() {
+        if (!isMongoDBConnected()) return;
+
+        try {
+            const counts = await UrlQueue.aggregate([
+                { $group: { _id: '$status', count: { $sum: 1 } } }
+            ]);
+            const byStatus = new Map<string, number>(counts.map((c: any) => [c._id, c.count]));
+            QUEUE_STATUSES.forEach(status => this.set({ status }, byStatus.get(status) || 0));
+        } catch (error) {
+            logger.warn('Could not read URL queue depth for metrics', { error: (error as Error).message });
+        }
+    }
+});
+
+// ---- Exports ----
+
+const exportSize = new Histogram({
+    name: `${PREFIX}export_size_bytes`,
+    help: 'Size of crawl export files by format',
+    labelNames: ['format'],
+    buckets: [10e3, 100e3, 500e3, 1e6, 5e6, 10e6, 50e6, 100e6],
+    registers: [metricsRegistry]
+});
+
+// ---- Rate limiting ----
+
+const rateLimitRejections = new Counter({
+    name: `${PREFIX}rate_limit_rejections_total`,
+    help: 'Requests rejected by the rate limiter by client tier and limit category',
+    labelNames: ['tier', 'category'],
+    registers: [metricsRegistry]
+});
+
+/**
+ * Record a finished HTTP request (route is the pattern, e.g. /api/jobs/:jobId)
+ */
+export function recordHttpRequest(method: string, route: string, status: number, durationMs: number): void {
+    const labels = { method, route, status: String(status) };
+    httpRequests.inc(labels);
+    httpRequestDuration.observe(labels, durationMs / 1000);
+}
+
+/**
+ * Record an intelligent scrape (without a result it failed)
+ */
+export function recordScrape(result?: { method: string; strategy: { method: string }; qualityScore: number }): void {
+    if (!result) {
+        scrapes.inc({ method: 'none', strategy: 'none', result: 'failure' });
+        return;
+    }
+
+    scrapes.inc({ method: result.method, strategy: result.strategy.method, result: 'success' });
+    scrapeQuality.observe({ method: result.method }, result.qualityScore);
+}
+
+/**
+ * Record a processed crawl page
+ */
+export function recordCrawlPage(result: 'completed' | 'unchanged' | 'failed'): void {
+    crawlPages.inc({ result });
+}
+
+/**
+ * Record the size of a written export file
+ */
+export function recordExport(format: string, sizeBytes: number): void {
+    exportSize.observe({ format }, sizeBytes);
+}
+
+/**
+ * Record a request rejected by a rate limiter
+ */
+export function recordRateLimitRejection(tier: string, category: string): void {
+    rateLimitRejections.inc({ tier, category });
+}
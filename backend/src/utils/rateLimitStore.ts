@@ -0,0 +1,137 @@
+/**
+ * Storage for rate limiter counters
+ *
+ * Counters live in process memory by default, so limits are per process and
+ * reset on restart. Set RATE_LIMIT_STORE to share them between processes and
+ * keep them across restarts:
+ * - memory: in process (default)
+ * - mongo: the MongoDB database of the app (ratelimits collection)
+ * - redis: any Redis-protocol server at REDIS_URL (Redis, Valkey, KeyDB, Dragonfly...)
+ *
+ * Store-backed limiters fall back to an in-memory limiter while the store is
+ * unreachable, so an outage never blocks or fails requests.
+ */
+
+import mongoose from 'mongoose';
+import Redis from 'ioredis';
+import {
+    RateLimiterAbstract,
+    RateLimiterMemory,
+    RateLimiterMongo,
+    RateLimiterRedis
+} from 'rate-limiter-flexible';
+import { isMongoDBConnected } from '../config/database';
+import { logger } from './logger';
+
+export type RateLimitStoreType = 'memory' | 'mongo' | 'redis';
+
+export interface LimiterOptions {
+    keyPrefix: string;
+    points: number;
+    duration: number; // Seconds
+    blockDuration: number; // Seconds
+}
+
+const STORE_TABLE = 'ratelimits';
+
+let _storeType: RateLimitStoreType | null = null;
+let _redisClient: Redis | null = null;
+let _mongoDb: Promise<any> | null = null;
+
+/**
+ * Store configured with RATE_LIMIT_STORE (read on first use, after dotenv has loaded)
+ */
+export function getRateLimitStoreType(): RateLimitStoreType {
+    if (_storeType) return _storeType;
+
+    const configured = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+    let storeType: RateLimitStoreType = 'memory';
+
+    if (configured === 'mongo' || configured === 'mongodb') {
+        if (process.env.MONGODB_URI) {
+            storeType = 'mongo';
+        } else {
+            logger.warn('RATE_LIMIT_STORE=mongo needs MONGODB_URI, using in-memory rate limits');
+        }
+    } else if (configured === 'redis') {
+        if (process.env.REDIS_URL) {
+            storeType = 'redis';
+        } else {
+            logger.warn('RATE_LIMIT_STORE=redis needs REDIS_URL, using in-memory rate limits');
+        }
+    } else if (configured !== 'memory') {
+        logger.warn('Unknown RATE_LIMIT_STORE, using in-memory rate limits', { configured });
+    }
+
+    _storeType = storeType;
+    logger.info('Rate limit store selected', { store: storeType });
+    return storeType;
+}
+
+/**
+ * Create a limiter on the configured store
+ */
+export function createLimiter(options: LimiterOptions): RateLimiterAbstract {
+    const storeType = getRateLimitStoreType();
+    if (storeType === 'memory') {
+        return new RateLimiterMemory(options);
+    }
+
+    const insuranceLimiter = new RateLimiterMemory(options);
+
+    if (storeType === 'mongo') {
+        return new RateLimiterMongo({
+            ...options,
+            storeClient: getMongoDb(),
+            tableName: STORE_TABLE,
+            insuranceLimiter
+        });
+    }
+
+    return new RateLimiterRedis({
+        ...options,
+        keyPrefix: `scrapperx:${options.keyPrefix}`,
+        storeClient: getRedisClient(),
+        rejectIfRedisNotReady: true, // Use the insurance limiter right away instead of queueing
+        insuranceLimiter
+    });
+}
+
+/**
+ * Database of the app once MongoDB is connected (limiters use their insurance limiter until then)
+ */
+function getMongoDb(): Promise<any> {
+    if (!_mongoDb) {
+        _mongoDb = new Promise(resolve => {
+            if (isMongoDBConnected()) {
+                resolve(mongoose.connection.db);
+                return;
+            }
+            mongoose.connection.once('connected', () => resolve(mongoose.connection.db));
+        });
+    }
+    return _mongoDb;
+}
+
+function getRedisClient(): Redis {
+    if (!_redisClient) {
+        _redisClient = new Redis(process.env.REDIS_URL as string, {
+            enableOfflineQueue: false,
+            maxRetriesPerRequest: 1
+        });
+
+        _redisClient.on('ready', () => logger.info('Rate limit store connected to Redis'));
+        _redisClient.on('error', (error) => logger.warn('Rate limit store (Redis) error', { error: error.message }));
+    }
+    return _redisClient;
+}
+
+/**
+ * Close the store connection (graceful shutdown)
+ */
+export async function closeRateLimitStore(): Promise<void> {
+    if (_redisClient) {
+        await _redisClient.quit().catch(() => undefined);
+        _redisClient = null;
+    }
+}
@@ -0,0 +1,169 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+import { URL } from 'url';
+import { RobotsChecker } from './robotsChecker';
+import { validateUrl } from './urlValidator';
+import { logger } from './logger';
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: Date;
+  priority?: number;
+  changefreq?: string;
+  sitemap: string;
+}
+
+export interface SitemapDiscoveryOptions {
+  userAgent?: string;
+  timeout?: number;
+  maxUrls?: number;
+  maxSitemaps?: number;
+}
+
+export interface SitemapDiscoveryResult {
+  sitemaps: string[];
+  entries: SitemapEntry[];
+  errors: string[];
+  truncated: boolean;
+}
+
+export class SitemapParser {
+  private static DEFAULT_USER_AGENT = 'ScrapperX-Bot';
+  private static TIMEOUT = 15000; // 15 seconds
+  private static MAX_URLS = 50000; // Sitemap protocol limit per file
+  private static MAX_SITEMAPS = 50;
+  private static MAX_SIZE = 50 * 1024 * 1024; // 50MB uncompressed, per sitemap protocol
+
+  /**
+   * Discover URLs for a site from robots.txt-listed sitemaps and /sitemap.xml,
+   * following sitemap indexes and gzipped sitemaps.
+   */
+  static async discover(startUrl: string, options: SitemapDiscoveryOptions = {}): Promise<SitemapDiscoveryResult> {
+    const userAgent = options.userAgent || this.DEFAULT_USER_AGENT;
+    const parsedUrl = new URL(startUrl);
+
+    const robotsInfo = await RobotsChecker.checkRobots(startUrl, userAgent);
+    const candidates = [
+      ...robotsInfo.sitemaps,
+      `${parsedUrl.protocol}//${parsedUrl.host}/sitemap.xml`
+    ];
+
+    return this.parseSitemaps(candidates, options);
+  }
+
+  /**
+   * Fetch and parse a list of sitemap URLs, recursing through sitemap indexes
+   */
+  static async parseSitemaps(sitemapUrls: string[], options: SitemapDiscoveryOptions = {}): Promise<SitemapDiscoveryResult> {
+    const maxUrls = options.maxUrls || this.MAX_URLS;
+    const maxSitemaps = options.maxSitemaps || this.MAX_SITEMAPS;
+
+    const result: SitemapDiscoveryResult = {
+      sitemaps: [],
+      entries: [],
+      errors: [],
+      truncated: false
+    };
+
+    const queue = [...new Set(sitemapUrls)];
+    const visited = new Set<string>();
+    const seenUrls = new Set<string>();
+
+    while (queue.length > 0) {
+      const sitemapUrl = queue.shift()!;
+      if (visited.has(sitemapUrl)) continue;
+
+      if (visited.size >= maxSitemaps || result.entries.length >= maxUrls) {
+        result.truncated = true;
+        break;
+      }
+      visited.add(sitemapUrl);
+
+      let xml: string;
+      try {
+        xml = await this.fetchSitemap(sitemapUrl, options);
+      } catch (error: any) {
+        result.errors.push(`${sitemapUrl}: ${error.message}`);
+        continue;
+      }
+
+      result.sitemaps.push(sitemapUrl);
+      const $ = cheerio.load(xml, { xmlMode: true });
+
+      // Sitemap index: queue child sitemaps
+      $('sitemapindex > sitemap > loc').each((_, el) => {
+        const loc = $(el).text().trim();
+        if (loc && !visited.has(loc)) {
+          queue.push(loc);
+        }
+      });
+
+      // URL set: collect page entries
+      for (const el of $('urlset > url').toArray()) {
+        if (result.entries.length >= maxUrls) {
+          result.truncated = true;
+          break;
+        }
+
+        const $url = $(el);
+        const loc = $url.children('loc').text().trim();
+        if (!loc || seenUrls.has(loc)) continue;
+        seenUrls.add(loc);
+
+        const entry: SitemapEntry = { url: loc, sitemap: sitemapUrl };
+
+        const lastmod = $url.children('lastmod').text().trim();
+        if (lastmod) {
+          const date = new Date(lastmod);
+          if (!isNaN(date.getTime())) entry.lastmod = date;
+        }
+
+        const priority = parseFloat($url.children('priority').text().trim());
+        if (!isNaN(priority)) {
+          entry.priority = Math.min(Math.max(priority, 0), 1);
+        }
+
+        const changefreq = $url.children('changefreq').text().trim();
+        if (changefreq) entry.changefreq = changefreq;
+
+        result.entries.push(entry);
+      }
+    }
+
+    logger.info('Parsed sitemaps', { sitemaps: result.sitemaps.length, urls: result.entries.length, truncated: result.truncated });
+
+    return result;
+  }
+
+  /**
+   * Fetch a single sitemap, decompressing gzipped sitemaps
+   */
+  private static async fetchSitemap(sitemapUrl: string, options: SitemapDiscoveryOptions): Promise<string> {
+    // SECURITY: Sitemap indexes can point anywhere, validate every hop
+    const validation = await validateUrl(sitemapUrl);
+    if (!validation.valid) {
+      throw new Error(`Sitemap URL not allowed: ${validation.reason}`);
+    }
+
+    const response = await axios.get(validation.sanitizedUrl || sitemapUrl, {
+      timeout: options.timeout || this.TIMEOUT,
+      responseType: 'arraybuffer',
+      maxContentLength: this.MAX_SIZE,
+      headers: {
+        'User-Agent': options.userAgent || this.DEFAULT_USER_AGENT,
+        'Accept': 'application/xml,text/xml,application/x-gzip,*/*;q=0.8'
+      },
+      validateStatus: (status) => status < 400
+    });
+
+    let buffer = Buffer.from(response.data);
+
+    // Gzip magic bytes (the server may not set Content-Encoding for .xml.gz files)
+    if (buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b) {
+      buffer = gunzipSync(buffer, { maxOutputLength: this.MAX_SIZE });
+    }
+
+    return buffer.toString('utf-8');
+  }
+}
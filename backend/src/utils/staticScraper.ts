@@ -33,6 +33,7 @@ export interface ScrapedContent {
   wordCount: number;
   scrapedAt: Date;
   method: 'static' | 'dynamic' | 'stealth' | 'adaptive';
+  html?: string; // Page HTML as captured by the scraper, converted to markdown once
 }
 
 export interface ScrapeOptions {
@@ -241,7 +242,8 @@ export class StaticScraper {
         metadata,
         wordCount,
         scrapedAt: new Date(),
-        method: 'static'
+        method: 'static',
+        html: typeof response.data === 'string' ? response.data : undefined
       };
 
     } catch (error: any) {
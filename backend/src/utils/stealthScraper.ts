@@ -1,10 +1,12 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { BrowserContext, Page } from 'playwright';
 import * as cheerio from 'cheerio';
 // @ts-ignore
 import UserAgent from 'user-agents';
 import { CookieJar } from 'tough-cookie';
 import axios from 'axios';
 import { ScrapedContent } from './staticScraper';
+import { BrowserPoolService, BrowserLease } from '../services/browserPool';
+import { logger } from './logger';
 
 export interface StealthScrapeOptions {
   maxRetries?: number;
@@ -56,7 +58,8 @@ export interface CaptchaChallenge {
 }
 
 export class StealthScraper {
-  private browser: Browser | null = null;
+  private browserPool: BrowserPoolService = BrowserPoolService.getInstance();
+  private leases: Set<BrowserLease> = new Set(); // Contexts currently held by this scraper
   private sessions: Map<string, ScrapingSession> = new Map();
   private cookieJar: CookieJar = new CookieJar();
   private rateLimitTracker: Map<string, { count: number; resetTime: number }> = new Map();
@@ -122,60 +125,9 @@ export class StealthScraper {
     return Math.random().toString(36).substring(2, 15);
   }
 
-  private async initializeBrowser(options: StealthScrapeOptions): Promise<void> {
-    if (this.browser) return;
-
-    const launchOptions: any = {
-      headless: true,
-      args: [
-        // NOTE: --no-sandbox is required in Docker/containerized environments
-        // but is a security risk. Only enable if running in a trusted container.
-        // '--no-sandbox', 
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--disable-gpu',
-        // REMOVED: '--disable-web-security' - This was a CRITICAL security vulnerability
-        '--disable-features=VizDisplayCompositor',
-        '--disable-background-networking',
-        '--disable-background-timer-throttling',
-        '--disable-renderer-backgrounding',
-        '--disable-backgrounding-occluded-windows',
-        '--disable-client-side-phishing-detection',
-        '--disable-component-extensions-with-background-pages',
-        '--disable-default-apps',
-        '--disable-extensions',
-        '--disable-features=TranslateUI',
-        '--disable-hang-monitor',
-        '--disable-ipc-flooding-protection',
-        '--disable-popup-blocking',
-        '--disable-prompt-on-repost',
-        '--disable-sync',
-        '--metrics-recording-only',
-        '--no-default-browser-check',
-        '--safebrowsing-disable-auto-update',
-        // '--enable-automation', // Removed - can be detected by anti-bot systems
-        '--password-store=basic',
-        '--use-mock-keychain',
-        // Memory/resource limits for VPS environments
-        '--js-flags=--max-old-space-size=512',
-        '--single-process', // Reduces memory footprint
-      ]
-    };
-
-    if (options.proxy) {
-      launchOptions.proxy = { server: options.proxy };
-    }
-
-    this.browser = await chromium.launch(launchOptions);
-  }
-
-  private async createStealthContext(fingerprint: BrowserFingerprint, options: StealthScrapeOptions): Promise<BrowserContext> {
-    if (!this.browser) throw new Error('Browser not initialized');
-
-    const context = await this.browser.newContext({
+  private async createStealthContext(fingerprint: BrowserFingerprint, options: StealthScrapeOptions): Promise<BrowserLease> {
+    const lease = await this.browserPool.acquireContext('stealth', {
+      ...(options.proxy && { proxy: { server: options.proxy } }),
       userAgent: fingerprint.userAgent,
       viewport: fingerprint.viewport,
       locale: fingerprint.language,
@@ -195,6 +147,8 @@ export class StealthScraper {
         ...options.customHeaders
       }
     });
+    this.leases.add(lease);
+    const context = lease.context;
 
     // Apply advanced stealth techniques
     await context.addInitScript(() => {
@@ -235,7 +189,15 @@ export class StealthScraper {
       delete (window as any).cdc_adoQpoasnfa76pfcZLmcfl_Symbol;
     });
 
-    return context;
+    return lease;
+  }
+
+  /**
+   * Return a stealth context to the browser pool
+   */
+  private async releaseContext(lease: BrowserLease): Promise<void> {
+    this.leases.delete(lease);
+    await lease.release();
   }
 
   private async detectAntiBot(page: Page): Promise<AntiDetectionResult> {
@@ -307,7 +269,7 @@ export class StealthScraper {
       }
 
     } catch (error) {
-      console.warn('Anti-bot detection failed:', error);
+      logger.warn('Anti-bot detection failed', { error });
     }
 
     const recommendations: string[] = [];
@@ -372,7 +334,7 @@ export class StealthScraper {
 
       return captchaInfo as CaptchaChallenge;
     } catch (error) {
-      console.warn('CAPTCHA detection failed:', error);
+      logger.warn('CAPTCHA detection failed', { error });
       return { type: 'none' };
     }
   }
@@ -380,35 +342,35 @@ export class StealthScraper {
   private async solveCaptcha(page: Page, captcha: CaptchaChallenge, options: StealthScrapeOptions): Promise<boolean> {
     if (captcha.type === 'none') return true;
 
-    console.log(`🔐 CAPTCHA detected: ${captcha.type}`);
+    logger.info('CAPTCHA detected', { type: captcha.type, url: page.url() });
 
     switch (options.captchaSolver) {
       case 'skip':
-        console.log('⏭️ Skipping CAPTCHA as requested');
+        logger.debug('Skipping CAPTCHA as requested');
         return false;
 
       case 'manual':
-        console.log('⏸️ Manual CAPTCHA solving required - waiting 30 seconds');
+        logger.info('Manual CAPTCHA solving required, waiting 30 seconds');
         await page.waitForTimeout(30000);
         return true;
 
       case '2captcha':
       case 'anticaptcha':
         if (!options.captchaApiKey) {
-          console.warn('⚠️ CAPTCHA API key not provided');
+          logger.warn('CAPTCHA API key not provided', { solver: options.captchaSolver });
           return false;
         }
         return await this.solveCaptchaWithService(page, captcha, options.captchaSolver, options.captchaApiKey);
 
       default:
-        console.log('⏭️ No CAPTCHA solver configured, skipping');
+        logger.debug('No CAPTCHA solver configured, skipping');
         return false;
     }
   }
 
   private async solveCaptchaWithService(page: Page, captcha: CaptchaChallenge, service: string, apiKey: string): Promise<boolean> {
     try {
-      console.log(`🔧 Attempting to solve ${captcha.type} with ${service}`);
+      logger.debug('Attempting to solve CAPTCHA', { type: captcha.type, service });
 
       // This is a placeholder for actual CAPTCHA solving service integration
       // In a real implementation, you would integrate with 2captcha, anticaptcha, etc.
@@ -430,7 +392,7 @@ export class StealthScraper {
 
       return false;
     } catch (error) {
-      console.error('CAPTCHA solving failed:', error);
+      logger.error('CAPTCHA solving failed', { service, error });
       return false;
     }
   }
@@ -465,7 +427,7 @@ export class StealthScraper {
 
       throw new Error('CAPTCHA solving timeout');
     } catch (error) {
-      console.error('2captcha error:', error);
+      logger.error('2captcha request failed', { error });
       return null;
     }
   }
@@ -504,7 +466,7 @@ export class StealthScraper {
       await page.waitForTimeout(500);
 
     } catch (error) {
-      console.warn('Human behavior simulation failed:', error);
+      logger.warn('Human behavior simulation failed', { error });
     }
   }
 
@@ -525,7 +487,7 @@ export class StealthScraper {
 
     if (tracker.count >= 10) { // Max 10 requests per minute
       const waitTime = tracker.resetTime - now;
-      console.log(`⏳ Rate limit reached for ${domain}, waiting ${Math.ceil(waitTime / 1000)}s`);
+      logger.info('Rate limit reached, waiting', { domain, waitTime });
       await new Promise(resolve => setTimeout(resolve, waitTime));
       tracker.count = 1;
       tracker.resetTime = now + 60000;
@@ -573,17 +535,16 @@ export class StealthScraper {
     // Get or create session
     const session = this.getOrCreateSession(domain);
 
-    // Initialize browser
-    await this.initializeBrowser(options);
-
     const maxRetries = options.maxRetries || 3;
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      console.log(`🎯 Stealth scraping attempt ${attempt}/${maxRetries} for: ${url}`);
+      logger.debug('Stealth scraping attempt', { url, attempt, maxRetries });
 
+      let lease: BrowserLease | undefined;
       try {
-        const context = await this.createStealthContext(session.fingerprint, options);
+        lease = await this.createStealthContext(session.fingerprint, options);
+        const context = lease.context;
 
         // Restore cookies
         if (session.cookies.length > 0) {
@@ -615,11 +576,11 @@ export class StealthScraper {
 
         // Detect anti-bot measures
         const antiDetection = await this.detectAntiBot(page);
-        console.log(`🛡️ Anti-bot detection: ${antiDetection.detected ? 'DETECTED' : 'CLEAR'} (confidence: ${antiDetection.confidence}%)`);
+        logger.debug('Anti-bot detection checked', { url, detected: antiDetection.detected, confidence: antiDetection.confidence });
 
         if (antiDetection.detected && antiDetection.confidence > 70) {
           // Apply countermeasures
-          console.log('🔧 Applying anti-detection countermeasures...');
+          logger.debug('Applying anti-detection countermeasures', { url });
           await page.waitForTimeout(2000 + Math.random() * 3000);
 
           if (options.humanBehavior !== false) {
@@ -664,17 +625,18 @@ export class StealthScraper {
           };
         }, startTime);
 
-        await context.close();
+        await this.releaseContext(lease);
 
         // Update session stats
         session.successCount++;
-        console.log(`✅ Stealth scraping successful in ${Date.now() - startTime}ms`);
+        logger.debug('Stealth scraping successful', { url, duration: Date.now() - startTime });
 
         return {
           content: {
             ...content,
             method: 'stealth' as const,
-            scrapedAt: new Date()
+            scrapedAt: new Date(),
+            html
           },
           session,
           antiDetection,
@@ -683,13 +645,14 @@ export class StealthScraper {
         };
 
       } catch (error: any) {
+        if (lease) await this.releaseContext(lease);
         lastError = error;
         session.failureCount++;
-        console.error(`❌ Stealth scraping attempt ${attempt} failed:`, error.message);
+        logger.warn('Stealth scraping attempt failed', { url, attempt, error: error.message });
 
         if (attempt < maxRetries) {
           const delay = Math.pow(2, attempt) * 1000 + Math.random() * 1000;
-          console.log(`⏳ Retrying in ${Math.ceil(delay / 1000)}s...`);
+          logger.debug('Retrying stealth scraping', { url, delay: Math.round(delay) });
           await new Promise(resolve => setTimeout(resolve, delay));
 
           // Generate new fingerprint for retry
@@ -889,10 +852,8 @@ export class StealthScraper {
   }
 
   async cleanup(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-    }
+    // Return any contexts still held to the pool (the pooled browsers stay up)
+    await Promise.all(Array.from(this.leases).map(lease => this.releaseContext(lease)));
     this.sessions.clear();
     this.rateLimitTracker.clear();
   }
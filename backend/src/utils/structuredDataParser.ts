@@ -0,0 +1,304 @@
+/**
+ * Structured data parser
+ *
+ * Reads the machine-readable data pages publish for search engines: JSON-LD
+ * blocks, Microdata (itemscope/itemprop) and RDFa (typeof/property). All three
+ * are normalized to one shape: schema.org type names without the vocabulary URL
+ * ("https://schema.org/Product" becomes "Product"), property names without
+ * prefixes, and nested entities as { type, properties }.
+ */
+
+import * as cheerio from 'cheerio';
+
+export type StructuredDataSource = 'json-ld' | 'microdata' | 'rdfa';
+
+export interface StructuredEntity {
+    type: string; // schema.org type, "Thing" when the source has none
+    additionalTypes?: string[];
+    id?: string;
+    source?: StructuredDataSource; // Set on top-level entities
+    properties: Record<string, any>; // Strings, numbers, booleans, nested entities or arrays of them
+}
+
+// Pages rarely publish more; this bounds work on generated markup
+const MAX_ENTITIES = 50;
+const MAX_DEPTH = 8;
+
+const URL_ATTRIBUTES: Record<string, string> = {
+    a: 'href',
+    area: 'href',
+    link: 'href',
+    img: 'src',
+    audio: 'src',
+    video: 'src',
+    source: 'src',
+    embed: 'src',
+    iframe: 'src',
+    track: 'src',
+    object: 'data'
+};
+
+/**
+ * Strip the vocabulary from a type or property name ("schema:name", "http://schema.org/Product")
+ */
+function normalizeName(name: string): string {
+    const trimmed = name.trim();
+    const match = trimmed.match(/[/#:]([^/#:]+)$/);
+    return match ? match[1] : trimmed;
+}
+
+function normalizeTypes(value: any): string[] {
+    const values = Array.isArray(value) ? value : String(value || '').split(/\s+/);
+    return values.filter(type => typeof type === 'string' && type.trim()).map(normalizeName);
+}
+
+function createEntity(types: string[], source?: StructuredDataSource, id?: string): StructuredEntity {
+    return {
+        type: types[0] || 'Thing',
+        ...(types.length > 1 && { additionalTypes: types.slice(1) }),
+        ...(id && { id }),
+        ...(source && { source }),
+        properties: {}
+    };
+}
+
+/**
+ * Add a property value, turning repeated properties into arrays
+ */
+function addProperty(entity: StructuredEntity, name: string, value: any): void {
+    if (value === undefined || value === null || value === '') return;
+
+    const existing = entity.properties[name];
+    if (existing === undefined) {
+        entity.properties[name] = value;
+    } else if (Array.isArray(existing)) {
+        existing.push(value);
+    } else {
+        entity.properties[name] = [existing, value];
+    }
+}
+
+function resolveUrl(value: string | undefined, baseUrl?: string): string | undefined {
+    if (!value) return value;
+    try {
+        return baseUrl ? new URL(value, baseUrl).href : value;
+    } catch {
+        return value;
+    }
+}
+
+function collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Value of a Microdata or RDFa property element, per the Microdata value rules
+ */
+function elementValue($element: cheerio.Cheerio<any>, baseUrl?: string): string | undefined {
+    const content = $element.attr('content');
+    if (content !== undefined) return content.trim();
+
+    const tagName = ($element.get(0)?.tagName || '').toLowerCase();
+    const urlAttribute = URL_ATTRIBUTES[tagName];
+    if (urlAttribute && $element.attr(urlAttribute)) {
+        return resolveUrl($element.attr(urlAttribute), baseUrl);
+    }
+    if (tagName === 'time' && $element.attr('datetime')) {
+        return $element.attr('datetime')!.trim();
+    }
+    if ((tagName === 'data' || tagName === 'meter') && $element.attr('value') !== undefined) {
+        return $element.attr('value')!.trim();
+    }
+
+    return collapseWhitespace($element.text());
+}
+
+/**
+ * Convert a JSON-LD node: objects become entities, value objects their value
+ */
+function fromJsonLd(node: any, depth: number): any {
+    if (Array.isArray(node)) {
+        return node.map(item => fromJsonLd(item, depth)).filter(item => item !== undefined);
+    }
+    if (typeof node === 'string') return node.trim();
+    if (!node || typeof node !== 'object') return node;
+
+    if ('@value' in node) return node['@value'];
+    if (depth >= MAX_DEPTH) return undefined;
+
+    const keys = Object.keys(node).filter(key => !key.startsWith('@'));
+    if (keys.length === 0 && typeof node['@id'] === 'string') {
+        return node['@id']; // Reference to an entity defined elsewhere
+    }
+
+    const entity = createEntity(normalizeTypes(node['@type']), undefined, node['@id']);
+    for (const key of keys) {
+        const value = fromJsonLd(node[key], depth + 1);
+        if (value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+            entity.properties[normalizeName(key)] = value;
+        }
+    }
+    return entity;
+}
+
+function parseJsonLd($: cheerio.CheerioAPI): StructuredEntity[] {
+    const entities: StructuredEntity[] = [];
+
+    const collect = (node: any) => {
+        if (Array.isArray(node)) {
+            node.forEach(collect);
+        } else if (node && typeof node === 'object') {
+            if (Array.isArray(node['@graph'])) {
+                node['@graph'].forEach(collect);
+                return;
+            }
+            const entity = fromJsonLd(node, 0);
+            if (entity && typeof entity === 'object' && !Array.isArray(entity)) {
+                entities.push({ ...entity, source: 'json-ld' });
+            }
+        }
+    };
+
+    $('script[type="application/ld+json"]').each((_, element) => {
+        const text = ($(element).html() || '').trim();
+        if (!text) return;
+
+        try {
+            collect(JSON.parse(text));
+        } catch {
+            // Raw line breaks inside strings are the most common mistake in the wild
+            try {
+                collect(JSON.parse(text.replace(/[\u0000-\u001F]+/g, ' ')));
+            } catch {
+                // Invalid JSON, skip
+            }
+        }
+    });
+
+    return entities;
+}
+
+function readMicrodataItem($: cheerio.CheerioAPI, element: any, depth: number, baseUrl?: string): StructuredEntity {
+    const $item = $(element);
+    const entity = createEntity(normalizeTypes($item.attr('itemtype')), undefined, $item.attr('itemid'));
+    if (depth >= MAX_DEPTH) return entity;
+
+    $item.find('[itemprop]').each((_, propertyElement) => {
+        const $property = $(propertyElement);
+        // Properties belong to the nearest item around them
+        if ($property.parent().closest('[itemscope]').get(0) !== element) return;
+
+        const value = $property.is('[itemscope]')
+            ? readMicrodataItem($, propertyElement, depth + 1, baseUrl)
+            : elementValue($property, baseUrl);
+        for (const name of ($property.attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+            addProperty(entity, normalizeName(name), value);
+        }
+    });
+
+    return entity;
+}
+
+function parseMicrodata($: cheerio.CheerioAPI, baseUrl?: string): StructuredEntity[] {
+    return $('[itemscope]:not([itemprop])').toArray()
+        .map(element => ({ ...readMicrodataItem($, element, 0, baseUrl), source: 'microdata' as const }));
+}
+
+function readRdfaEntity($: cheerio.CheerioAPI, element: any, depth: number, baseUrl?: string): StructuredEntity {
+    const $entity = $(element);
+    const entity = createEntity(
+        normalizeTypes($entity.attr('typeof')),
+        undefined,
+        resolveUrl($entity.attr('resource') || $entity.attr('about'), baseUrl)
+    );
+    if (depth >= MAX_DEPTH) return entity;
+
+    $entity.find('[property]').each((_, propertyElement) => {
+        const $property = $(propertyElement);
+        if ($property.parent().closest('[typeof]').get(0) !== element) return;
+
+        let value: any;
+        if ($property.is('[typeof]')) {
+            value = readRdfaEntity($, propertyElement, depth + 1, baseUrl);
+        } else if ($property.attr('content') === undefined && $property.attr('resource')) {
+            value = resolveUrl($property.attr('resource'), baseUrl);
+        } else {
+            value = elementValue($property, baseUrl);
+        }
+        for (const name of ($property.attr('property') || '').split(/\s+/).filter(Boolean)) {
+            addProperty(entity, normalizeName(name), value);
+        }
+    });
+
+    return entity;
+}
+
+function parseRdfa($: cheerio.CheerioAPI, baseUrl?: string): StructuredEntity[] {
+    return $('[typeof]').toArray()
+        // Entities that are the value of a property of another entity are read with it
+        .filter(element => !($(element).is('[property]') && $(element).parent().closest('[typeof]').length > 0))
+        .map(element => ({ ...readRdfaEntity($, element, 0, baseUrl), source: 'rdfa' as const }));
+}
+
+/**
+ * Parse all JSON-LD, Microdata and RDFa entities of a page (JSON-LD needs the HTML before scripts are removed)
+ */
+export function parseStructuredData(html: string | cheerio.CheerioAPI, baseUrl?: string): StructuredEntity[] {
+    const $ = typeof html === 'string' ? cheerio.load(html) : html;
+
+    const entities: StructuredEntity[] = [];
+    for (const parse of [parseJsonLd, parseMicrodata, parseRdfa]) {
+        try {
+            entities.push(...parse($, baseUrl));
+        } catch {
+            // A malformed source must not hide the others
+        }
+    }
+
+    return entities
+        .filter(entity => entity.type !== 'Thing' || Object.keys(entity.properties).length > 0)
+        .slice(0, MAX_ENTITIES);
+}
+
+function isEntity(value: any): value is StructuredEntity {
+    return Boolean(value) && typeof value === 'object' && !Array.isArray(value) && 'properties' in value;
+}
+
+/**
+ * First entity (top-level or nested, e.g. the mainEntity of a WebPage) whose type matches
+ */
+export function findEntity(
+    entities: StructuredEntity[],
+    matches: (type: string) => boolean
+): StructuredEntity | undefined {
+    const queue: Array<{ entity: StructuredEntity; depth: number }> = entities.map(entity => ({ entity, depth: 0 }));
+
+    while (queue.length > 0) {
+        const { entity, depth } = queue.shift()!;
+        if ([entity.type, ...(entity.additionalTypes || [])].some(matches)) return entity;
+        if (depth >= MAX_DEPTH) continue;
+
+        for (const value of Object.values(entity.properties)) {
+            for (const nested of Array.isArray(value) ? value : [value]) {
+                if (isEntity(nested)) queue.push({ entity: nested, depth: depth + 1 });
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Value at a property path such as "offers.price" (the first item of arrays along the way)
+ */
+export function getEntityProperty(entity: StructuredEntity, path: string): any {
+    let value: any = entity;
+    for (const key of path.split('.')) {
+        if (Array.isArray(value)) value = value[0];
+        if (!isEntity(value)) return undefined;
+        value = value.properties[key];
+    }
+    return value;
+}
+
+export default { parseStructuredData, findEntity, getEntityProperty };
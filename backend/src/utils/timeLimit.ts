@@ -0,0 +1,45 @@
+/**
+ * Time limit for user-supplied patterns
+ *
+ * Regular expressions and XPath expressions from extraction schemas run
+ * synchronously on page content, so one that backtracks catastrophically
+ * (e.g. ^(a+)+$) would block the event loop. They are evaluated from a vm
+ * script with a timeout instead: V8 interrupts the evaluation once it runs
+ * over. A pattern that timed out is refused from then on, so a bad schema
+ * costs one timeout per process rather than one per page or list item.
+ */
+
+import vm from 'vm';
+
+export const PATTERN_TIME_LIMIT = 100; // Milliseconds
+
+const MAX_TIMED_OUT_PATTERNS = 1000;
+
+const context = vm.createContext({});
+const script = new vm.Script('run()');
+const timedOut = new Set<string>();
+
+/**
+ * Run fn (which evaluates the pattern) under the time limit, throwing if the pattern runs or ran over it
+ */
+export function runWithTimeLimit<T>(pattern: string, fn: () => T, timeLimit: number = PATTERN_TIME_LIMIT): T {
+    if (timedOut.has(pattern)) {
+        throw new Error(`Pattern skipped, it ran over the ${timeLimit}ms limit before: ${pattern}`);
+    }
+
+    context.run = fn;
+    try {
+        return script.runInContext(context, { timeout: timeLimit });
+    } catch (error) {
+        if ((error as any)?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+            if (timedOut.size >= MAX_TIMED_OUT_PATTERNS) timedOut.clear();
+            timedOut.add(pattern);
+            throw new Error(`Pattern stopped after ${timeLimit}ms: ${pattern}`);
+        }
+        throw error;
+    } finally {
+        context.run = undefined;
+    }
+}
+
+export default { runWithTimeLimit, PATTERN_TIME_LIMIT };
@@ -6,6 +6,7 @@
 import { URL } from 'url';
 import dns from 'dns';
 import { promisify } from 'util';
+import { logger } from './logger';
 
 const dnsLookup = promisify(dns.lookup);
 
@@ -139,7 +140,7 @@ export async function validateUrl(urlString: string): Promise<ValidationResult>
             } catch (dnsError) {
                 // DNS resolution failed - could be a valid external URL or could be an attack
                 // Allow it but log the issue
-                console.warn(`DNS resolution failed for ${url.hostname}:`, dnsError);
+                logger.warn('DNS resolution failed', { hostname: url.hostname, error: dnsError });
                 // For strict security, you could return invalid here
                 // return { valid: false, reason: `DNS resolution failed for ${url.hostname}` };
             }
@@ -170,7 +171,7 @@ export async function validateUrl(urlString: string): Promise<ValidationResult>
         };
 
     } catch (error) {
-        console.error('URL validation error:', error);
+        logger.error('URL validation error', { error });
         return { valid: false, reason: 'URL validation failed' };
     }
 }
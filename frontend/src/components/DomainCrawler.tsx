@@ -16,9 +16,8 @@ import {
 import {
   exportSession,
   startDomainCrawl,
-  getCrawlStatus,
-  getCrawlProgress,
   getCrawlContent,
+  openCrawlEventStream,
   stopCrawl
 } from '@/lib/api';
 
@@ -28,6 +27,7 @@ interface CrawlConfig {
   delay: number;
   concurrent: number;
   respectRobots: boolean;
+  seedFromSitemaps?: boolean;
   authentication?: {
     type: 'none' | 'basic' | 'form' | 'bearer' | 'cookie';
     credentials?: {
@@ -70,6 +70,13 @@ interface CrawlSession {
   };
 }
 
+interface UrlResult {
+  url: string;
+  status: 'completed' | 'failed';
+  error?: string;
+  unchanged?: boolean;
+}
+
 interface PageResult {
   url: string;
   title: string;
@@ -79,7 +86,7 @@ interface PageResult {
   metadata: {
     title: string;
     description: string;
-    structuredData?: any;
+    structuredData?: StructuredEntity[];
   };
   contentChunks?: any[];
   extractedLinks?: any;
@@ -94,6 +101,24 @@ interface PageResult {
   createdAt: string;
 }
 
+// JSON-LD, Microdata or RDFa entity published by a page, with schema.org type names
+interface StructuredEntity {
+  type: string;
+  source?: 'json-ld' | 'microdata' | 'rdfa';
+  properties: Record<string, unknown>;
+}
+
+// Nested entities are shown by their name (or type), lists joined
+function formatEntityValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(formatEntityValue).filter(Boolean).join(', ');
+  if (typeof value === 'object') {
+    const entity = value as StructuredEntity;
+    return entity.properties?.name ? formatEntityValue(entity.properties.name) : entity.type || '';
+  }
+  return String(value);
+}
+
 export default function DomainCrawler() {
   const [url, setUrl] = useState('');
   const [config, setConfig] = useState<CrawlConfig>({
@@ -102,6 +127,7 @@ export default function DomainCrawler() {
     delay: 1000,
     concurrent: 3,
     respectRobots: true,
+    seedFromSitemaps: false,
     authentication: {
       type: 'none'
     },
@@ -126,6 +152,7 @@ export default function DomainCrawler() {
   const [error, setError] = useState<string | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [progress, setProgress] = useState<any>(null);
+  const [urlResults, setUrlResults] = useState<UrlResult[]>([]);
   const [detailedResults, setDetailedResults] = useState<PageResult[]>([]);
   const [loadingResults, setLoadingResults] = useState(false);
   const [expandedImages, setExpandedImages] = useState<{ [key: number]: boolean }>({});
@@ -133,71 +160,59 @@ export default function DomainCrawler() {
   const [activeTab, setActiveTab] = useState<{ [key: number]: 'overview' | 'content' | 'links' | 'images' | 'metadata' }>({});
   const [isCrawling, setIsCrawling] = useState(false);
 
-  // Polling effect for real-time updates
+  // Live updates over Server-Sent Events, one stream per crawl session
+  // (the server sends the current status first and ends the stream once the crawl stops)
+  const sessionId = session?.sessionId;
   useEffect(() => {
-    let pollInterval: NodeJS.Timeout | null = null;
-    
-    const pollProgress = async () => {
-      if (!session || (session.status === 'completed' || session.status === 'failed')) {
+    if (!sessionId) {
+      return;
+    }
+
+    setIsCrawling(true);
+    const eventSource = openCrawlEventStream(sessionId);
+
+    eventSource.addEventListener('status', (event) => {
+      const { status, stats } = JSON.parse((event as MessageEvent).data);
+
+      setSession(prevSession => prevSession ? {
+        ...prevSession,
+        status,
+        stats: stats || prevSession.stats
+      } : prevSession);
+
+      // The server closes the stream once the crawl stops, don't let EventSource reconnect
+      if (status === 'completed' || status === 'failed' || status === 'paused') {
+        eventSource.close();
         setIsCrawling(false);
-        return;
+        if (status === 'failed') {
+          setError('Crawl failed. Please check the session details for errors.');
+        }
       }
+    });
 
-      try {
-        // Get current session status
-        const statusResponse = await getCrawlStatus(session.sessionId);
-
-        if (statusResponse.success) {
-          const statusData = statusResponse.data;
-          const updatedSession = statusData.session;
-
-          console.log('Session update:', {
-            status: updatedSession.status,
-            stats: updatedSession.stats
-          }); // Debug log
-
-          setSession(prevSession => ({
-            ...prevSession!,
-            status: updatedSession.status,
-            stats: updatedSession.stats
-          }));
-
-          // Update crawling state
-          if (updatedSession.status === 'completed' || updatedSession.status === 'failed') {
-            console.log(`Crawl ${updatedSession.status}. Processed: ${updatedSession.stats.processedUrls}`); // Debug log
-            setIsCrawling(false);
-            if (updatedSession.status === 'failed') {
-              setError('Crawl failed. Please check the session details for errors.');
-            }
-          }
+    eventSource.addEventListener('progress', (event) => {
+      setProgress(JSON.parse((event as MessageEvent).data));
+    });
 
-          // Get progress data
-          const progressResponse = await getCrawlProgress(session.sessionId);
-          if (progressResponse.success) {
-            setProgress(progressResponse.data);
-          }
-        }
-      } catch (error) {
-        console.warn('Failed to poll progress:', error);
+    eventSource.addEventListener('url', (event) => {
+      const result: UrlResult = JSON.parse((event as MessageEvent).data);
+      setUrlResults(prev => [result, ...prev].slice(0, 100));
+    });
+
+    // EventSource reconnects by itself after network errors, it only gives up
+    // (CLOSED) when the server refuses the stream, e.g. an error response
+    eventSource.onerror = () => {
+      if (eventSource.readyState === EventSource.CLOSED) {
+        setIsCrawling(false);
+        setError('Lost connection to the crawl. Reload the page to see its current status.');
       }
     };
 
-    // Start polling if session exists and is active
-    if (session && (session.status === 'pending' || session.status === 'running')) {
-      setIsCrawling(true);
-      pollInterval = setInterval(pollProgress, 3000); // Poll every 3 seconds (reduced from 2)
-      
-      // Initial poll
-      pollProgress();
-    }
-
     // Cleanup
     return () => {
-      if (pollInterval) {
-        clearInterval(pollInterval);
-      }
+      eventSource.close();
     };
-  }, [session?.sessionId, session?.status]);
+  }, [sessionId]);
 
   // Auto-load results when session completes
   useEffect(() => {
@@ -231,6 +246,7 @@ export default function DomainCrawler() {
     setLoading(true);
     setError(null);
     setDetailedResults([]);
+    setUrlResults([]);
     setIsCrawling(true);
 
     try {
@@ -324,7 +340,7 @@ export default function DomainCrawler() {
           metadata: {
             title: item.metadata?.title || '',
             description: item.metadata?.description || '',
-            structuredData: item.metadata?.structuredData || {}
+            structuredData: item.metadata?.structuredData || []
           },
           contentChunks: item.contentChunks || [],
           extractedLinks: item.extractedLinks || { internal: [], external: [] },
@@ -583,6 +599,16 @@ export default function DomainCrawler() {
                 <span>Respect robots.txt</span>
               </label>
 
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={config.seedFromSitemaps || false}
+                  onChange={(e) => setConfig({...config, seedFromSitemaps: e.target.checked})}
+                  className="rounded border-slate-300 text-slate-900 focus:ring-slate-900"
+                />
+                <span>Seed from sitemap.xml (finds pages not linked from navigation)</span>
+              </label>
+
               {/* Authentication Settings */}
               <div className="pt-2 border-t border-slate-200">
                 <h4 className="text-sm font-medium text-slate-900 mb-3">Authentication</h4>
@@ -849,6 +875,28 @@ export default function DomainCrawler() {
             </div>
           )}
 
+          {/* Failed URLs (streamed live, not part of the stored session stats) */}
+          {urlResults.some(result => result.status === 'failed') && (
+            <div className="mb-4">
+              <div className="text-xs text-slate-600 mb-2">
+                Failed URLs ({urlResults.filter(result => result.status === 'failed').length})
+              </div>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {urlResults
+                  .filter(result => result.status === 'failed')
+                  .map((result, index) => (
+                    <div key={index} className="flex items-start text-xs">
+                      <AlertTriangle className="w-3 h-3 text-red-500 mr-2 mt-0.5 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-slate-700 truncate">{result.url}</p>
+                        {result.error && <p className="text-red-600">{result.error}</p>}
+                      </div>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+
           {/* Download Button */}
           {session.status === 'completed' && (
             <div className="pt-4 border-t border-slate-200">
@@ -937,9 +985,9 @@ export default function DomainCrawler() {
                           </div>
                           <div className="bg-slate-50 rounded-lg p-3 text-center">
                             <div className="text-lg font-bold text-slate-900">
-                              {page.metadata.structuredData ? Object.keys(page.metadata.structuredData).length : 0}
+                              {page.metadata.structuredData?.length || 0}
                             </div>
-                            <div className="text-xs text-slate-600 mt-1">Data Fields</div>
+                            <div className="text-xs text-slate-600 mt-1">Schema.org Items</div>
                           </div>
                         </div>
                         
@@ -1042,23 +1090,27 @@ export default function DomainCrawler() {
 
                     {currentTab === 'metadata' && (
                       <div className="space-y-4">
-                        {page.metadata.structuredData && Object.keys(page.metadata.structuredData).length > 0 && (
-                          <div className="bg-slate-50 rounded-lg p-4">
-                            <h5 className="font-medium text-slate-900 mb-3">Extracted Data</h5>
+                        {page.metadata.structuredData?.map((entity, entityIndex) => (
+                          <div key={entityIndex} className="bg-slate-50 rounded-lg p-4">
+                            <h5 className="font-medium text-slate-900 mb-3">
+                              {entity.type}
+                              {entity.source && (
+                                <span className="ml-2 text-xs font-normal text-slate-500">{entity.source}</span>
+                              )}
+                            </h5>
                             <div className="grid md:grid-cols-2 gap-2 text-sm">
-                              {Object.entries(page.metadata.structuredData)
-                                .filter(([key, value]) => value && value !== '')
-                                .map(([key, value]) => (
+                              {Object.entries(entity.properties)
+                                .map(([key, value]) => [key, formatEntityValue(value)])
+                                .filter(([, text]) => text !== '')
+                                .map(([key, text]) => (
                                   <div key={key}>
-                                    <span className="font-medium text-slate-700 capitalize">{key}:</span>
-                                    <span className="ml-2 text-slate-600 break-words">
-                                      {Array.isArray(value) ? value.join(', ') : String(value)}
-                                    </span>
+                                    <span className="font-medium text-slate-700">{key}:</span>
+                                    <span className="ml-2 text-slate-600 break-words">{text}</span>
                                   </div>
                                 ))}
                             </div>
                           </div>
-                        )}
+                        ))}
                         <div className="bg-slate-50 rounded-lg p-4">
                           <h5 className="font-medium text-slate-900 mb-3">Page Metadata</h5>
                           <div className="space-y-2 text-sm">
@@ -231,6 +231,13 @@ export const getCrawlProgress = async (sessionId: string): Promise<ApiResponse<a
   }
 };
 
+// Live crawl events over Server-Sent Events (EventSource can't set headers, so the key goes in the query)
+export const openCrawlEventStream = (sessionId: string): EventSource => {
+  const apiKey = getApiKey();
+  const params = apiKey ? `?api_key=${encodeURIComponent(apiKey)}` : '';
+  return new EventSource(`${API_BASE_URL}/api/crawler/session/${sessionId}/events${params}`);
+};
+
 export const getCrawlContent = async (sessionId: string, limit: number = 1000): Promise<ApiResponse<any>> => {
   try {
     const response = await fetch(`${API_BASE_URL}/api/crawler/session/${sessionId}/content?limit=${limit}`, {